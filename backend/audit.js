@@ -0,0 +1,24 @@
+import { getDatabase } from './database.js';
+
+const db = getDatabase();
+
+// Record a change to a software title in audit_log; teamId is set for team-specific changes
+export const recordAudit = ({ entityType, action, softwareTitleId, softwareName, oldValue, newValue, user, teamId }, callback) => {
+  db.run(
+    `INSERT INTO audit_log
+      (entity_type, action, software_title_id, software_name, old_value, new_value, user_id, user_email, team_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entityType,
+      action,
+      softwareTitleId,
+      softwareName ?? null,
+      oldValue ?? null,
+      newValue ?? null,
+      user?.id ?? null,
+      user?.email ?? null,
+      teamId ?? null,
+    ],
+    callback
+  );
+};
@@ -0,0 +1,37 @@
+import { getDatabase } from './database.js';
+import { fetchFleet } from './fleet.js';
+import { summarizeBaseline } from './versions.js';
+
+const db = getDatabase();
+
+// Approved baseline versions, optionally for one title
+export const getBaselines = (softwareTitleId) => new Promise((resolve, reject) => {
+  db.all(
+    `SELECT * FROM software_baselines ${softwareTitleId ? 'WHERE software_title_id = ?' : ''} ORDER BY name`,
+    softwareTitleId ? [softwareTitleId] : [],
+    (err, rows) => (err ? reject(err) : resolve(rows))
+  );
+});
+
+// A title's versions with per-version host counts; Fleet answers 404 for a title no host
+// in the team has installed
+export const getTitleVersions = async (token, softwareTitleId, teamId) => {
+  const params = new URLSearchParams();
+  if (teamId !== null) params.set('team_id', teamId);
+  try {
+    const data = await fetchFleet(token, `/api/latest/fleet/software/titles/${softwareTitleId}?${params.toString()}`);
+    return data.software_title.versions || [];
+  } catch (err) {
+    if (err.status === 404) return [];
+    throw err;
+  }
+};
+
+// Share of each baselined title's installs on the baseline version or newer
+export const getBaselineCompliance = async (token, teamId) => {
+  const baselines = await getBaselines();
+  return Promise.all(baselines.map(async baseline => ({
+    ...baseline,
+    ...summarizeBaseline(await getTitleVersions(token, baseline.software_title_id, teamId), baseline.baseline_version),
+  })));
+};
@@ -0,0 +1,32 @@
+// Base URL of the Fleet server that the API proxy and token checks talk to
+export const FLEET_URL = process.env.FLEET_URL || 'https://svscan.luminousindia.com';
+
+// Fleet API token for background jobs and for counts that must cover every team, whoever is signed in
+export const FLEET_API_TOKEN = process.env.FLEET_API_TOKEN || '';
+
+// How often the inventory snapshot job runs, and how long snapshots are kept
+export const SNAPSHOT_INTERVAL_HOURS = Number(process.env.SNAPSHOT_INTERVAL_HOURS) || 24;
+export const SNAPSHOT_RETENTION_DAYS = Number(process.env.SNAPSHOT_RETENTION_DAYS) || 365;
+
+// How long vendor names looked up from Fleet are reused before asking again
+export const VENDOR_CACHE_TTL_HOURS = Number(process.env.VENDOR_CACHE_TTL_HOURS) || 24;
+
+// How long computed host risk scores are reused before the fleet is rescanned
+export const RISK_CACHE_TTL_MINUTES = Number(process.env.RISK_CACHE_TTL_MINUTES) || 15;
+
+// How often tickets marked fixed are checked against Fleet's inventory
+export const REMEDIATION_VERIFY_INTERVAL_HOURS = Number(process.env.REMEDIATION_VERIFY_INTERVAL_HOURS) || 6;
+
+// Where scheduled reports are written before they are emailed
+export const REPORTS_DIR = process.env.REPORTS_DIR || new URL('./reports', import.meta.url).pathname;
+
+// SMTP server scheduled reports are delivered through; without a host reports are only written to disk
+export const SMTP_HOST = process.env.SMTP_HOST || '';
+export const SMTP_PORT = Number(process.env.SMTP_PORT) || 587;
+export const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+export const SMTP_USER = process.env.SMTP_USER || '';
+export const SMTP_PASS = process.env.SMTP_PASS || '';
+export const SMTP_FROM = process.env.SMTP_FROM || 'svreport@localhost';
+
+// Hosts requested from Fleet per page when streaming large exports
+export const EXPORT_PAGE_SIZE = Number(process.env.EXPORT_PAGE_SIZE) || 500;
@@ -0,0 +1,90 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) evaluated in the
+// server's local time. Fields take *, numbers, names (mon, jan), ranges, lists and /steps.
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 7 is accepted as Sunday too
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const parseValue = (value, field) => {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = nameIndex === -1 ? Number(value) : nameIndex + field.min;
+  if (!Number.isInteger(number) || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} value "${value}"`);
+  }
+  return number;
+};
+
+const parseField = (text, field) => {
+  const values = new Set();
+  text.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} step "${stepText}"`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      // "5/15" means from 5 to the end of the range
+      end = to !== undefined ? parseValue(to, field) : stepText !== undefined ? field.max : start;
+      if (end < start) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+  return values;
+};
+
+// Throws with a readable message when the expression is invalid
+export const parseCron = (expression) => {
+  const parts = String(expression || '').trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (weekdays.has(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    // As in standard cron, when both day fields are restricted either one may match
+    anyDay: parts[2] !== '*' && parts[4] !== '*',
+  };
+};
+
+export const matchesCron = (schedule, date) => {
+  if (!schedule.minutes.has(date.getMinutes()) || !schedule.hours.has(date.getHours())) return false;
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  const dayMatches = schedule.days.has(date.getDate());
+  const weekdayMatches = schedule.weekdays.has(date.getDay());
+  return schedule.anyDay ? dayMatches || weekdayMatches : dayMatches && weekdayMatches;
+};
+
+// Next matching minute after from, looking up to a year ahead; null for dates that never occur
+export const getNextRun = (expression, from = new Date()) => {
+  const schedule = parseCron(expression);
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+
+  for (let i = 0; i < 366 * 24 * 60; i++) {
+    date.setMinutes(date.getMinutes() + 1);
+    if (matchesCron(schedule, date)) return date;
+  }
+  return null;
+};
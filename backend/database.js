@@ -1,50 +1,56 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { runMigrations } from './migrator.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const dbPath = path.join(__dirname, 'svreport.db');
-const db = new sqlite3.Database(dbPath);
 
-export const initializeDatabase = () => {
-  db.serialize(() => {
-    // Create open_source_software table
-    db.run(`
-      CREATE TABLE IF NOT EXISTS open_source_software (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        software_title_id INTEGER UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create software_remarks table
-    db.run(`
-      CREATE TABLE IF NOT EXISTS software_remarks (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        software_title_id INTEGER UNIQUE NOT NULL,
-        remark TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create indexes for faster lookups
-    db.run(`
-      CREATE INDEX IF NOT EXISTS idx_software_title_id 
-      ON open_source_software(software_title_id)
-    `);
-
-    db.run(`
-      CREATE INDEX IF NOT EXISTS idx_remarks_software_title_id 
-      ON software_remarks(software_title_id)
-    `);
+// How long a write waits for another connection's transaction before failing with SQLITE_BUSY
+const BUSY_TIMEOUT_MS = 10000;
+
+const db = new sqlite3.Database(dbPath);
+db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+
+// Transactions get their own connection, so writes from other requests on the shared one can't
+// land inside a transaction or be rolled back with it, and run one at a time on it
+const transactionDb = new sqlite3.Database(dbPath);
+transactionDb.configure('busyTimeout', BUSY_TIMEOUT_MS);
+let transactionQueue = Promise.resolve();
+
+const runOnTransaction = (sql, params = []) => new Promise((resolve, reject) => {
+  transactionDb.run(sql, params, function(err) {
+    if (err) {
+      reject(err);
+      return;
+    }
+    resolve(this);
   });
-};
+});
+
+// Bring the schema up to date before the server accepts requests
+export const initializeDatabase = (options) => runMigrations(db, options);
 
 export const getDatabase = () => db;
 
+// Run work(run) in a transaction, committing when it resolves and rolling back when it throws.
+// run(sql, params) executes a statement in the transaction and resolves with its lastID and changes.
+export const withTransaction = (work) => {
+  const result = transactionQueue.then(async () => {
+    await runOnTransaction('BEGIN IMMEDIATE');
+    try {
+      const value = await work(runOnTransaction);
+      await runOnTransaction('COMMIT');
+      return value;
+    } catch (err) {
+      await runOnTransaction('ROLLBACK').catch(() => {});
+      throw err;
+    }
+  });
+  transactionQueue = result.catch(() => {});
+  return result;
+};
+
 export default db;
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { getDatabase } from './database.js';
+import { fetchFleet } from './fleet.js';
+import { FLEET_API_TOKEN } from './config.js';
+
+const db = getDatabase();
+
+// Purchased license seats per title
+export const getEntitlements = () => new Promise((resolve, reject) => {
+  db.all('SELECT * FROM license_entitlements ORDER BY name', [], (err, rows) => (err ? reject(err) : resolve(rows)));
+});
+
+// Hosts with a title installed, across every team; Fleet answers 404 for a title no host has
+const getInstallCount = async (token, softwareTitleId) => {
+  try {
+    const data = await fetchFleet(token, `/api/latest/fleet/software/titles/${softwareTitleId}`);
+    return data.software_title.hosts_count || 0;
+  } catch (err) {
+    if (err.status === 404) return 0;
+    throw err;
+  }
+};
+
+// Costs are kept to whole cents so float error doesn't show up in reports
+const toCost = (seats, costPerSeat) => (costPerSeat === null ? null : Math.round(seats * costPerSeat * 100) / 100);
+
+// Each entitlement's seats against its installs. Seats are bought for the whole organisation,
+// so installs are counted across every team with FLEET_API_TOKEN; a team-limited user's token
+// would only see their own teams' installs.
+export const getLicenseCompliance = async () => {
+  const entitlements = await getEntitlements();
+  return Promise.all(entitlements.map(async entitlement => {
+    const installedCount = await getInstallCount(FLEET_API_TOKEN, entitlement.software_title_id);
+    const unusedSeats = Math.max(0, entitlement.seats - installedCount);
+    const overDeployedCount = Math.max(0, installedCount - entitlement.seats);
+
+    return {
+      ...entitlement,
+      installed_count: installedCount,
+      unused_seats: unusedSeats,
+      over_deployed_count: overDeployedCount,
+      // null when no seats were bought
+      utilization_percent: entitlement.seats > 0 ? Math.round((installedCount / entitlement.seats) * 100) : null,
+      total_cost: toCost(entitlement.seats, entitlement.cost_per_seat),
+      unused_cost: toCost(unusedSeats, entitlement.cost_per_seat),
+      // What the missing seats would cost at the contracted price
+      over_deployed_cost: toCost(overDeployedCount, entitlement.cost_per_seat),
+    };
+  }));
+};
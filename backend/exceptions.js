@@ -0,0 +1,99 @@
+import { getDatabase, withTransaction } from './database.js';
+
+const db = getDatabase();
+
+// Attach each exception's host list, as { id, display_name } objects
+export const loadExceptionHosts = (exceptions) => new Promise((resolve, reject) => {
+  if (exceptions.length === 0) {
+    resolve([]);
+    return;
+  }
+
+  db.all(
+    `SELECT * FROM risk_exception_hosts WHERE exception_id IN (${exceptions.map(() => '?').join(', ')})`,
+    exceptions.map(exception => exception.id),
+    (err, rows) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(exceptions.map(exception => ({
+        ...exception,
+        hosts: rows
+          .filter(row => row.exception_id === exception.id)
+          .map(row => ({ id: row.host_id, display_name: row.display_name })),
+      })));
+    }
+  );
+});
+
+// Exceptions that haven't expired; one expiring today still applies today
+export const getActiveExceptions = () => new Promise((resolve, reject) => {
+  db.all("SELECT * FROM risk_exceptions WHERE expires_at >= date('now')", (err, rows) => {
+    if (err) {
+      reject(err);
+      return;
+    }
+    loadExceptionHosts(rows).then(resolve, reject);
+  });
+});
+
+// Whether an exception covers a CVE (or a title, with no cve) found in a title on a host
+export const exceptionApplies = (exception, { cve, name, hostId, teamId }) => {
+  if (exception.cve && exception.cve !== cve) return false;
+  if (exception.name && exception.name !== name) return false;
+  if (exception.hosts?.length) return exception.hosts.some(host => host.id === hostId);
+  return exception.team_id === null || exception.team_id === teamId;
+};
+
+// Insert or update an exception and replace its host list in one transaction
+export const saveException = (id, exception, user) => {
+  const fields = [
+    exception.cve,
+    exception.software_title_id,
+    exception.name,
+    exception.team_id,
+    exception.justification,
+    exception.approver,
+    exception.expires_at,
+  ];
+
+  return withTransaction(async (run) => {
+    let exceptionId = id;
+    if (id) {
+      await run(
+        `UPDATE risk_exceptions SET
+          cve = ?, software_title_id = ?, name = ?, team_id = ?, justification = ?, approver = ?, expires_at = ?,
+          updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?`,
+        [...fields, id]
+      );
+      await run('DELETE FROM risk_exception_hosts WHERE exception_id = ?', [id]);
+    } else {
+      const result = await run(
+        `INSERT INTO risk_exceptions
+          (cve, software_title_id, name, team_id, justification, approver, expires_at, created_by)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [...fields, user.email]
+      );
+      exceptionId = result.lastID;
+    }
+
+    for (const host of exception.hosts) {
+      await run(
+        'INSERT OR IGNORE INTO risk_exception_hosts (exception_id, host_id, display_name) VALUES (?, ?, ?)',
+        [exceptionId, host.id, host.display_name]
+      );
+    }
+
+    return exceptionId;
+  });
+};
+
+// Same as the frontend's coversView, for active exceptions: whether one covers a CVE (or a whole
+// title, when no CVE is given) for everything in a team scope
+export const coversScope = (exception, { cve, name, teamId }) =>
+  (!exception.cve || exception.cve === cve)
+  && (!exception.name || exception.name === name)
+  && exception.hosts.length === 0
+  && (exception.team_id === null || exception.team_id === teamId);
@@ -0,0 +1,99 @@
+import { fetchFleet } from './fleet.js';
+import { EXPORT_PAGE_SIZE } from './config.js';
+
+export const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+};
+
+// Fleet list endpoints page from 0; stops at the first short page, or when isCancelled says so
+export async function* pageFleet(token, path, params, key, isCancelled = () => false) {
+  for (let page = 0; !isCancelled(); page++) {
+    const search = new URLSearchParams(params);
+    search.set('page', page.toString());
+    search.set('per_page', EXPORT_PAGE_SIZE.toString());
+
+    const data = await fetchFleet(token, `${path}?${search.toString()}`);
+    const items = data[key] || [];
+    if (items.length > 0) {
+      yield items;
+    }
+    if (items.length < EXPORT_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+const toCSVCell = (value) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Columns picked in the column chooser, as a JSON array of { key, header } in export order.
+// Unknown keys are skipped, and without a usable choice the columns not marked optional are used,
+// as selectColumns does in the frontend.
+export const selectColumns = (columns, choices) => {
+  const defaults = columns.filter(column => !column.optional);
+  if (!choices) {
+    return defaults;
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(choices);
+  } catch (err) {
+    parsed = null;
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('columns must be a JSON array of { key, header }');
+  }
+
+  const columnsByKey = new Map(columns.map(column => [column.key, column]));
+  const selected = parsed
+    .filter(choice => columnsByKey.has(choice?.key))
+    .map(choice => ({ ...columnsByKey.get(choice.key), header: String(choice.header || columnsByKey.get(choice.key).header) }));
+  return selected.length > 0 ? selected : defaults;
+};
+
+// Streams rows as they are produced, one per line in both formats so clients can count them for
+// progress. Columns are { key, header, value(row) }, as in the frontend's export module.
+export const createRowWriter = (res, format, columns, filename) => {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const date = new Date().toISOString().split('T')[0];
+  let rowCount = 0;
+
+  const write = (chunk) => new Promise(resolve => {
+    // Wait for the client to catch up rather than buffering the whole export
+    if (res.write(chunk)) {
+      resolve();
+    } else {
+      // Whichever comes first, the other listener is removed so long exports don't pile them up
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.once('drain', done);
+      res.once('close', done);
+    }
+  });
+
+  return {
+    start: () => {
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}-${date}.${extension}"`);
+      // The byte order mark makes Excel read the file as UTF-8
+      return write(format === 'csv' ? `\uFEFF${columns.map(column => toCSVCell(column.header)).join(',')}\r\n` : '[\n');
+    },
+    writeRow: (row) => {
+      rowCount++;
+      if (format === 'csv') {
+        return write(`${columns.map(column => toCSVCell(column.value(row))).join(',')}\r\n`);
+      }
+      const record = Object.fromEntries(columns.map(column => [column.header, column.value(row) ?? null]));
+      return write(`${rowCount > 1 ? ',' : ''}${JSON.stringify(record)}\n`);
+    },
+    end: () => res.end(format === 'csv' ? '' : ']\n'),
+  };
+};
@@ -0,0 +1,57 @@
+import { FLEET_URL, VENDOR_CACHE_TTL_HOURS } from './config.js';
+
+// Call the Fleet API directly (not through the browser proxy) with the given token
+export const fetchFleet = async (token, path) => {
+  const response = await fetch(`${FLEET_URL}${path}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const err = new Error(`Fleet responded with HTTP ${response.status} for ${path}`);
+    err.status = response.status;
+    throw err;
+  }
+
+  return response.json();
+};
+
+// Vendor only comes back from the per-version endpoint, so lookups are cached by title
+const vendorCache = new Map();
+
+const VENDOR_LOOKUP_CONCURRENCY = 10;
+
+const fetchVendor = async (token, title) => {
+  const cached = vendorCache.get(title.id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.vendor;
+  }
+
+  if (!title.versions?.length) {
+    return 'Unknown';
+  }
+
+  try {
+    const data = await fetchFleet(token, `/api/latest/fleet/software/${title.versions[0].id}`);
+    const vendor = data.software?.vendor || 'Unknown';
+    vendorCache.set(title.id, { vendor, expiresAt: Date.now() + VENDOR_CACHE_TTL_HOURS * 60 * 60 * 1000 });
+    return vendor;
+  } catch (err) {
+    // Not cached, so the next request tries again
+    console.error(`Error fetching vendor for software title ${title.id}:`, err);
+    return 'Unknown';
+  }
+};
+
+// Resolve vendors for many titles, a few Fleet requests at a time
+export const getVendors = async (token, titles) => {
+  const vendors = new Map();
+  for (let i = 0; i < titles.length; i += VENDOR_LOOKUP_CONCURRENCY) {
+    const batch = titles.slice(i, i + VENDOR_LOOKUP_CONCURRENCY);
+    const results = await Promise.all(batch.map(title => fetchVendor(token, title)));
+    batch.forEach((title, index) => vendors.set(title.id, results[index]));
+  }
+  return vendors;
+};
@@ -0,0 +1,94 @@
+import { getDatabase } from './database.js';
+import { fetchFleet, getVendors } from './fleet.js';
+
+const db = getDatabase();
+
+const all = (sql, params = []) => new Promise((resolve, reject) => {
+  db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)));
+});
+
+// Fleet software titles joined with vendor, license, open source flag and remark. teamId scopes
+// the Fleet titles; annotationTeamId layers that team's open source flags and remarks over the
+// global ones. Without a page every matching title is returned. Vendors take a Fleet request per
+// title when not cached, so callers that don't show them can pass withVendors: false.
+export const getInventory = async (token, {
+  query, vulnerable, openSource, category, spdxId, teamId = null, annotationTeamId = null, page, perPage = 20,
+  withVendors = true,
+} = {}) => {
+  const isPaged = Number.isInteger(page);
+
+  // Fleet knows nothing about local license data, so locally filtered views fetch every
+  // matching title and paginate here
+  const hasLocalFilter = !!openSource || !!category || !!spdxId;
+
+  const params = new URLSearchParams({
+    order_direction: 'desc',
+    order_key: 'hosts_count',
+    vulnerable: vulnerable ? 'true' : 'false',
+    exploit: 'false',
+  });
+  if (isPaged && !hasLocalFilter) {
+    params.append('page', page.toString());
+    params.append('per_page', perPage.toString());
+  }
+  if (query) {
+    params.append('query', query);
+  }
+  if (teamId !== null) {
+    params.append('team_id', teamId.toString());
+  }
+
+  const [titlesData, licenseRows, remarkRows, teamFlagRows, teamRemarkRows] = await Promise.all([
+    fetchFleet(token, `/api/latest/fleet/software/titles?${params.toString()}`),
+    all('SELECT * FROM software_licenses'),
+    all('SELECT * FROM software_remarks'),
+    all('SELECT * FROM team_open_source WHERE team_id = ?', [annotationTeamId]),
+    all('SELECT * FROM team_software_remarks WHERE team_id = ?', [annotationTeamId]),
+  ]);
+
+  // Team rows are layered over the global ones
+  const teamFlags = new Map(teamFlagRows.map(row => [row.software_title_id, row.open_source]));
+  const licenses = new Map(licenseRows.map(row => [
+    row.software_title_id,
+    { ...row, open_source: teamFlags.get(row.software_title_id) ?? row.open_source },
+  ]));
+  const remarks = new Map([...remarkRows, ...teamRemarkRows].map(row => [row.software_title_id, row.remark]));
+
+  let titles = titlesData.software_titles || [];
+  let count = titlesData.count || 0;
+
+  if (hasLocalFilter) {
+    titles = titles.filter(title => {
+      const license = licenses.get(title.id);
+      if (openSource && !license?.open_source) return false;
+      if (category && (license?.category || 'unknown') !== category) return false;
+      if (spdxId && license?.spdx_id !== spdxId) return false;
+      return true;
+    });
+    count = titles.length;
+    if (isPaged) {
+      titles = titles.slice(page * perPage, (page + 1) * perPage);
+    }
+  }
+
+  const vendors = withVendors ? await getVendors(token, titles) : new Map();
+
+  return {
+    software_titles: titles.map(title => {
+      const license = licenses.get(title.id);
+      return {
+        ...title,
+        vendor: vendors.get(title.id),
+        open_source: !!license?.open_source,
+        spdx_id: license?.spdx_id ?? null,
+        license_category: license?.category || 'unknown',
+        remark: remarks.get(title.id) ?? null,
+        vulnerabilities_count: (title.versions || []).reduce(
+          (total, version) => total + (version.vulnerabilities?.length || 0),
+          0
+        ),
+      };
+    }),
+    count,
+  };
+};
@@ -0,0 +1,87 @@
+import { FLEET_URL } from '../config.js';
+
+// How long a token that Fleet accepted is trusted before asking again
+const TOKEN_CACHE_TTL_MS = 60 * 1000;
+
+const tokenCache = new Map();
+
+// Tokens that are never presented again would otherwise stay in the cache for good
+const sweepTokenCache = () => {
+  const now = Date.now();
+  tokenCache.forEach((cached, token) => {
+    if (cached.expiresAt <= now) {
+      tokenCache.delete(token);
+    }
+  });
+};
+setInterval(sweepTokenCache, TOKEN_CACHE_TTL_MS).unref();
+
+const getBearerToken = (req) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+};
+
+// Resolve the Fleet user behind a token, or null if Fleet rejects it
+const fetchFleetUser = async (token) => {
+  const cached = tokenCache.get(token);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.user;
+  }
+
+  const response = await fetch(`${FLEET_URL}/api/latest/fleet/me`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json',
+    },
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    tokenCache.delete(token);
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Fleet responded with HTTP ${response.status}`);
+  }
+
+  const data = await response.json();
+  const user = data.user;
+  tokenCache.set(token, { user, expiresAt: Date.now() + TOKEN_CACHE_TTL_MS });
+  return user;
+};
+
+// Require a valid Fleet session; the user is exposed as req.user and the token as req.token
+export const requireAuth = async (req, res, next) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  try {
+    const user = await fetchFleetUser(token);
+    if (!user) {
+      res.status(401).json({ error: 'Invalid or expired token' });
+      return;
+    }
+    req.user = user;
+    req.token = token;
+    next();
+  } catch (err) {
+    console.error('Error validating token with Fleet:', err);
+    res.status(502).json({ error: 'Unable to validate token with Fleet' });
+  }
+};
+
+// Require a valid Fleet session with one of the given global roles
+export const requireRole = (...roles) => [
+  requireAuth,
+  (req, res, next) => {
+    if (!roles.includes(req.user.global_role)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+    next();
+  },
+];
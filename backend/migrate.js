@@ -0,0 +1,14 @@
+import { getDatabase } from './database.js';
+import { runMigrations } from './migrator.js';
+
+// Usage: node backend/migrate.js [--dry-run]
+const dryRun = process.argv.includes('--dry-run');
+const db = getDatabase();
+
+runMigrations(db, { dryRun })
+  .then(() => db.close())
+  .catch((err) => {
+    console.error(err.message);
+    db.close();
+    process.exit(1);
+  });
\ No newline at end of file
@@ -0,0 +1,22 @@
+-- Tables from before migrations were versioned; IF NOT EXISTS keeps this safe on existing databases
+CREATE TABLE IF NOT EXISTS open_source_software (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS software_remarks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER UNIQUE NOT NULL,
+  remark TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_software_title_id
+ON open_source_software(software_title_id);
+
+CREATE INDEX IF NOT EXISTS idx_remarks_software_title_id
+ON software_remarks(software_title_id);
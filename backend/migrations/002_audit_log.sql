@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_type TEXT NOT NULL,
+  action TEXT NOT NULL,
+  software_title_id INTEGER NOT NULL,
+  software_name TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  user_id INTEGER,
+  user_email TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_software_title_id
+ON audit_log(software_title_id);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at
+ON audit_log(created_at);
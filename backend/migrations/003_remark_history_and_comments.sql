@@ -0,0 +1,31 @@
+-- Every saved remark, newest version wins
+CREATE TABLE IF NOT EXISTS software_remark_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER NOT NULL,
+  version INTEGER NOT NULL,
+  remark TEXT,
+  author_id INTEGER,
+  author_email TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (software_title_id, version)
+);
+
+-- parent_id links replies into threads
+CREATE TABLE IF NOT EXISTS software_comments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER NOT NULL,
+  parent_id INTEGER REFERENCES software_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  author_id INTEGER,
+  author_name TEXT,
+  author_email TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_software_title_id
+ON software_comments(software_title_id);
+
+-- Seed history with remarks saved before history was kept
+INSERT INTO software_remark_history (software_title_id, version, remark, created_at)
+SELECT software_title_id, 1, remark, updated_at FROM software_remarks
+WHERE software_title_id NOT IN (SELECT software_title_id FROM software_remark_history);
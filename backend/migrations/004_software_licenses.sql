@@ -0,0 +1,30 @@
+-- License classification and open source flag per title
+CREATE TABLE IF NOT EXISTS software_licenses (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  spdx_id TEXT,
+  category TEXT NOT NULL DEFAULT 'unknown'
+    CHECK (category IN ('permissive', 'copyleft', 'proprietary', 'freeware', 'unknown')),
+  open_source INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_licenses_category
+ON software_licenses(category);
+
+-- Move the old yes/no open_source_software list into software_licenses
+CREATE TABLE IF NOT EXISTS open_source_software (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO software_licenses
+  (software_title_id, name, category, open_source, created_at, updated_at)
+SELECT software_title_id, name, 'unknown', 1, created_at, updated_at FROM open_source_software;
+
+DROP TABLE open_source_software;
@@ -0,0 +1,13 @@
+-- A rule targets either one title or a name pattern
+CREATE TABLE IF NOT EXISTS software_policies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER UNIQUE,
+  name_pattern TEXT,
+  name TEXT,
+  status TEXT NOT NULL CHECK (status IN ('approved', 'banned', 'needs_review')),
+  reason TEXT,
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  CHECK ((software_title_id IS NULL) <> (name_pattern IS NULL))
+);
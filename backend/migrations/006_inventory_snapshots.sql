@@ -0,0 +1,33 @@
+-- One row per inventory pull from Fleet
+CREATE TABLE IF NOT EXISTS inventory_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  taken_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  total_hosts INTEGER NOT NULL,
+  online_count INTEGER NOT NULL,
+  offline_count INTEGER NOT NULL,
+  mia_count INTEGER NOT NULL DEFAULT 0,
+  new_count INTEGER NOT NULL DEFAULT 0,
+  software_title_count INTEGER NOT NULL,
+  vulnerable_title_count INTEGER NOT NULL
+);
+
+-- Software titles as they were at each snapshot; versions is a comma separated list
+CREATE TABLE IF NOT EXISTS snapshot_software_titles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  snapshot_id INTEGER NOT NULL REFERENCES inventory_snapshots(id) ON DELETE CASCADE,
+  software_title_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  source TEXT,
+  hosts_count INTEGER NOT NULL,
+  versions TEXT,
+  vulnerable INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_taken_at
+ON inventory_snapshots(taken_at);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_titles_snapshot_id
+ON snapshot_software_titles(snapshot_id);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_titles_software_title_id
+ON snapshot_software_titles(software_title_id);
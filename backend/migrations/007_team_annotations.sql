@@ -0,0 +1,50 @@
+-- Team-specific open source flags; a row overrides the global flag in software_licenses for that team,
+-- including open_source = 0 to clear a global flag
+CREATE TABLE IF NOT EXISTS team_open_source (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  team_id INTEGER NOT NULL,
+  software_title_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  open_source INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (team_id, software_title_id)
+);
+
+-- Team-specific remarks; a row replaces the global remark for that team
+CREATE TABLE IF NOT EXISTS team_software_remarks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  team_id INTEGER NOT NULL,
+  software_title_id INTEGER NOT NULL,
+  remark TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (team_id, software_title_id)
+);
+
+-- Remark history is versioned per title and team (NULL team_id is the global remark),
+-- so the table is rebuilt to widen its unique key
+CREATE TABLE software_remark_history_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  software_title_id INTEGER NOT NULL,
+  team_id INTEGER,
+  version INTEGER NOT NULL,
+  remark TEXT,
+  author_id INTEGER,
+  author_email TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO software_remark_history_new
+  (id, software_title_id, version, remark, author_id, author_email, created_at)
+SELECT id, software_title_id, version, remark, author_id, author_email, created_at
+FROM software_remark_history;
+
+DROP TABLE software_remark_history;
+
+ALTER TABLE software_remark_history_new RENAME TO software_remark_history;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_remark_history_version
+ON software_remark_history(software_title_id, IFNULL(team_id, -1), version);
+
+ALTER TABLE audit_log ADD COLUMN team_id INTEGER;
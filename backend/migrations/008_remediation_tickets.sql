@@ -0,0 +1,25 @@
+-- Who owns fixing a CVE, a vulnerable software version, or a CVE in one version
+CREATE TABLE IF NOT EXISTS remediation_tickets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  cve TEXT,
+  software_version_id INTEGER,
+  software_name TEXT,
+  version TEXT,
+  -- Severity and CVSS when the ticket was opened; the due date is derived from them
+  severity TEXT NOT NULL CHECK (severity IN ('critical', 'high', 'medium', 'low', 'unknown')),
+  cvss_score REAL,
+  assignee TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'accepted_risk', 'fixed')),
+  due_date DATE,
+  notes TEXT,
+  created_by TEXT,
+  fixed_at DATETIME,
+  -- Set once Fleet no longer reports the vulnerable software on any host
+  verified_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  CHECK (cve IS NOT NULL OR software_version_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_remediation_tickets_cve ON remediation_tickets(cve);
+CREATE INDEX IF NOT EXISTS idx_remediation_tickets_version ON remediation_tickets(software_version_id);
@@ -0,0 +1,26 @@
+-- Accepted risk for a CVE, a software title, or a CVE in one title.
+-- Titles are matched by name, since host and version software records don't carry the title id.
+-- An exception covers the listed hosts, otherwise the team, otherwise every host.
+CREATE TABLE IF NOT EXISTS risk_exceptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  cve TEXT,
+  software_title_id INTEGER,
+  name TEXT,
+  team_id INTEGER,
+  justification TEXT NOT NULL,
+  approver TEXT NOT NULL,
+  expires_at DATE NOT NULL,
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  CHECK (cve IS NOT NULL OR name IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS risk_exception_hosts (
+  exception_id INTEGER NOT NULL REFERENCES risk_exceptions(id) ON DELETE CASCADE,
+  host_id INTEGER NOT NULL,
+  display_name TEXT,
+  PRIMARY KEY (exception_id, host_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_exceptions_expires_at ON risk_exceptions(expires_at);
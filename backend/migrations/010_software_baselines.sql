@@ -0,0 +1,9 @@
+-- Approved baseline version per title; hosts on an older version are reported as outdated
+CREATE TABLE IF NOT EXISTS software_baselines (
+  software_title_id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  baseline_version TEXT NOT NULL,
+  updated_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
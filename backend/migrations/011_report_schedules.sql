@@ -0,0 +1,20 @@
+-- Reports generated on a cron schedule, written to disk and emailed to the recipients
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  report_type TEXT NOT NULL CHECK (report_type IN ('hosts', 'software', 'open_source')),
+  cron TEXT NOT NULL,
+  -- Comma-separated email addresses
+  recipients TEXT NOT NULL DEFAULT '',
+  team_id INTEGER,
+  -- Layer the team's open source flags and remarks over the global ones, as the team toggle does in the UI
+  team_annotations INTEGER NOT NULL DEFAULT 0,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  last_run_at DATETIME,
+  last_status TEXT CHECK (last_status IN ('success', 'failed')),
+  last_error TEXT,
+  last_file TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
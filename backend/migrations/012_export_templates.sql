@@ -0,0 +1,13 @@
+-- Named column sets for an export, private to the Fleet user who saved them
+CREATE TABLE IF NOT EXISTS export_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  -- Which export the template belongs to, e.g. hosts or software
+  export_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  -- JSON object of sheet name to [{ key, header }] in export order
+  columns TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, export_key, name)
+);
@@ -0,0 +1,11 @@
+-- Seats purchased for a commercial software title, compared with how many hosts have it installed
+CREATE TABLE IF NOT EXISTS license_entitlements (
+  software_title_id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  seats INTEGER NOT NULL CHECK (seats >= 0),
+  contract_end DATE,
+  cost_per_seat REAL CHECK (cost_per_seat >= 0),
+  updated_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const migrationsDir = path.join(__dirname, 'migrations');
+
+// Migration files are named <version>_<description>.sql, e.g. 002_audit_log.sql
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+const run = (db, sql, params = []) => new Promise((resolve, reject) => {
+  db.run(sql, params, (err) => (err ? reject(err) : resolve()));
+});
+
+const exec = (db, sql) => new Promise((resolve, reject) => {
+  db.exec(sql, (err) => (err ? reject(err) : resolve()));
+});
+
+const all = (db, sql, params = []) => new Promise((resolve, reject) => {
+  db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)));
+});
+
+const loadMigrations = () => fs.readdirSync(migrationsDir)
+  .map((file) => {
+    const match = file.match(MIGRATION_FILE);
+    return match && { version: Number(match[1]), name: file.replace(/\.sql$/, ''), file };
+  })
+  .filter(Boolean)
+  .sort((a, b) => a.version - b.version);
+
+const getAppliedVersions = async (db) => {
+  const tables = await all(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'");
+  if (tables.length === 0) {
+    return [];
+  }
+  const rows = await all(db, 'SELECT version FROM schema_migrations ORDER BY version');
+  return rows.map(row => row.version);
+};
+
+// Lists migrations not yet applied; throws if the database was migrated by a newer build
+export const getPendingMigrations = async (db) => {
+  const migrations = loadMigrations();
+  const applied = await getAppliedVersions(db);
+  const latestKnown = migrations.length ? migrations[migrations.length - 1].version : 0;
+  const latestApplied = applied.length ? applied[applied.length - 1] : 0;
+
+  if (latestApplied > latestKnown) {
+    throw new Error(
+      `Database schema is at version ${latestApplied} but this build only knows up to ${latestKnown}; refusing to start`
+    );
+  }
+
+  return migrations.filter(migration => !applied.includes(migration.version));
+};
+
+// Applies each pending migration in its own transaction, in version order
+export const runMigrations = async (db, { dryRun = false } = {}) => {
+  const pending = await getPendingMigrations(db);
+
+  if (dryRun) {
+    if (pending.length === 0) {
+      console.log('Database schema is up to date');
+    } else {
+      console.log(`${pending.length} pending migration(s):`);
+      pending.forEach(migration => console.log(`  ${migration.name}`));
+    }
+    return pending;
+  }
+
+  await run(db, `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  for (const migration of pending) {
+    const sql = fs.readFileSync(path.join(migrationsDir, migration.file), 'utf8');
+
+    await exec(db, 'BEGIN');
+    try {
+      await exec(db, sql);
+      await run(db, 'INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+      await exec(db, 'COMMIT');
+    } catch (err) {
+      await exec(db, 'ROLLBACK');
+      throw new Error(`Migration ${migration.name} failed: ${err.message}`);
+    }
+
+    console.log(`Applied migration ${migration.name}`);
+  }
+
+  return pending;
+};
@@ -0,0 +1,36 @@
+import { getDatabase } from './database.js';
+
+const db = getDatabase();
+
+// Higher wins when several name patterns match the same title
+const STATUS_SEVERITY = {
+  approved: 0,
+  needs_review: 1,
+  banned: 2,
+};
+
+export const getPolicies = () => new Promise((resolve, reject) => {
+  db.all('SELECT * FROM software_policies', (err, rows) => (err ? reject(err) : resolve(rows)));
+});
+
+// Name patterns are case-insensitive globs where * matches any run of characters
+const matchesNamePattern = (pattern, name) => {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i').test(name);
+};
+
+// Same resolution as the frontend: a rule for the exact title wins, otherwise the most
+// restrictive matching pattern applies
+export const resolvePolicy = (softwareTitleId, name, policies) => {
+  const titleRule = policies.find(policy => policy.software_title_id === softwareTitleId);
+  if (titleRule) {
+    return titleRule;
+  }
+
+  return policies
+    .filter(policy => policy.name_pattern && matchesNamePattern(policy.name_pattern, name))
+    .sort((a, b) => STATUS_SEVERITY[b.status] - STATUS_SEVERITY[a.status])[0];
+};
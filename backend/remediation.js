@@ -0,0 +1,123 @@
+import { getDatabase } from './database.js';
+import { fetchFleet } from './fleet.js';
+import { getSeverity } from './vulnerabilities.js';
+import { FLEET_API_TOKEN, REMEDIATION_VERIFY_INTERVAL_HOURS } from './config.js';
+
+const db = getDatabase();
+
+// Days allowed to remediate, by severity when the ticket is opened
+export const SLA_DAYS = {
+  critical: 7,
+  high: 30,
+  medium: 90,
+  low: 180,
+  unknown: 90,
+};
+
+export const getDueDate = (severity, from = new Date()) => {
+  const due = new Date(from);
+  due.setUTCDate(due.getUTCDate() + SLA_DAYS[severity]);
+  return due.toISOString().slice(0, 10);
+};
+
+// Resolve the name, version and severity a ticket is opened for from Fleet; a version ticket
+// without a CVE takes the version's worst CVE
+export const lookupTarget = async (token, { cve, softwareVersionId }) => {
+  if (softwareVersionId) {
+    const data = await fetchFleet(token, `/api/latest/fleet/software/versions/${softwareVersionId}`);
+    const vulnerabilities = (data.software.vulnerabilities || [])
+      .filter(vulnerability => !cve || vulnerability.cve === cve);
+    const scores = vulnerabilities
+      .map(vulnerability => vulnerability.cvss_score)
+      .filter(score => score !== null && score !== undefined);
+    const cvssScore = scores.length ? Math.max(...scores) : null;
+    return {
+      softwareName: data.software.name,
+      version: data.software.version,
+      cvssScore,
+      severity: getSeverity(cvssScore),
+    };
+  }
+
+  const data = await fetchFleet(token, `/api/latest/fleet/vulnerabilities/${encodeURIComponent(cve)}`);
+  const cvssScore = data.vulnerability?.cvss_score ?? null;
+  return { softwareName: null, version: null, cvssScore, severity: getSeverity(cvssScore) };
+};
+
+// Hosts that still have what the ticket fixes; a 404 means Fleet no longer knows the version or CVE
+const countAffectedHosts = async (token, ticket) => {
+  try {
+    if (ticket.software_version_id) {
+      const data = await fetchFleet(token, `/api/latest/fleet/hosts/count?software_version_id=${ticket.software_version_id}`);
+      return data.count || 0;
+    }
+    const data = await fetchFleet(token, `/api/latest/fleet/vulnerabilities/${encodeURIComponent(ticket.cve)}`);
+    return data.vulnerability?.hosts_count || 0;
+  } catch (err) {
+    if (err.status === 404) {
+      return 0;
+    }
+    throw err;
+  }
+};
+
+// Mark a fixed ticket verified once nothing vulnerable is left installed; resolves to whether it was.
+// Hosts are counted with FLEET_API_TOKEN, since a team-limited user's token would miss other teams'
+// hosts and verify a ticket that isn't fixed everywhere.
+export const verifyTicket = async (ticket) => {
+  if (ticket.status !== 'fixed' || ticket.verified_at) {
+    return !!ticket.verified_at;
+  }
+  if (!FLEET_API_TOKEN) {
+    return false;
+  }
+
+  const hosts = await countAffectedHosts(FLEET_API_TOKEN, ticket);
+  if (hosts > 0) {
+    return false;
+  }
+
+  await new Promise((resolve, reject) => {
+    db.run(
+      `UPDATE remediation_tickets SET verified_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'fixed'`,
+      [ticket.id],
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+  return true;
+};
+
+const runScheduledVerification = () => {
+  db.all("SELECT * FROM remediation_tickets WHERE status = 'fixed' AND verified_at IS NULL", async (err, tickets) => {
+    if (err) {
+      console.error('Error reading tickets to verify:', err);
+      return;
+    }
+
+    let verified = 0;
+    for (const ticket of tickets) {
+      try {
+        if (await verifyTicket(ticket)) {
+          verified++;
+        }
+      } catch (err) {
+        console.error(`Error verifying remediation ticket ${ticket.id}:`, err);
+      }
+    }
+    if (verified) {
+      console.log(`Verified ${verified} fixed remediation ticket(s)`);
+    }
+  });
+};
+
+// Check fixed tickets against Fleet on a timer, starting at boot
+export const startRemediationVerifyJob = () => {
+  if (!FLEET_API_TOKEN) {
+    console.warn('FLEET_API_TOKEN is not set; fixed remediation tickets are not verified');
+    return;
+  }
+
+  runScheduledVerification();
+  setInterval(runScheduledVerification, REMEDIATION_VERIFY_INTERVAL_HOURS * 60 * 60 * 1000);
+};
@@ -0,0 +1,244 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createObjectCsvWriter } from 'csv-writer';
+import nodemailer from 'nodemailer';
+import { getDatabase } from './database.js';
+import { fetchFleet } from './fleet.js';
+import { getInventory } from './inventory.js';
+import { getRiskIndex } from './risk.js';
+import { getBaselineCompliance } from './baselines.js';
+import { getPolicies, resolvePolicy } from './policies.js';
+import { coversScope, getActiveExceptions } from './exceptions.js';
+import { matchesCron, parseCron } from './cron.js';
+import {
+  FLEET_API_TOKEN,
+  REPORTS_DIR,
+  SMTP_FROM,
+  SMTP_HOST,
+  SMTP_PASS,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+} from './config.js';
+
+const db = getDatabase();
+
+// Same labels as the frontend's license helpers
+const CATEGORY_LABELS = {
+  permissive: 'Permissive',
+  copyleft: 'Copyleft',
+  proprietary: 'Proprietary',
+  freeware: 'Freeware',
+  unknown: 'Unknown',
+};
+
+const formatCompliance = (percent) => (percent === null ? '—' : `${percent}%`);
+
+// Same rows as the Hosts page export
+const buildHostsReport = async (token, { teamId }) => {
+  const params = new URLSearchParams({ device_mapping: 'true', order_key: 'display_name', order_direction: 'asc' });
+  if (teamId !== null) {
+    params.append('team_id', teamId.toString());
+  }
+
+  // No page parameter, so Fleet returns every host
+  const [data, riskIndex] = await Promise.all([
+    fetchFleet(token, `/api/latest/fleet/hosts?${params.toString()}`),
+    getRiskIndex(token, teamId),
+  ]);
+
+  return (data.hosts || []).map(host => ({
+    Host: host.display_name,
+    Status: host.status,
+    Issues: host.issues?.total_issues_count || 0,
+    'Risk Score': riskIndex.get(host.id)?.risk.risk_score ?? '',
+    'Disk Space (GB)': host.gigs_disk_space_available || 0,
+    OS: host.os_version,
+    Osquery: host.osquery_version,
+    'Private IP': host.primary_ip,
+    'Last Fetched': host.detail_updated_at,
+    'Last Restarted': host.last_restarted_at,
+  }));
+};
+
+// Same rows as the Software page export
+const buildSoftwareReport = async (token, { teamId, annotationTeamId }) => {
+  const [inventory, compliance, policies, exceptions] = await Promise.all([
+    getInventory(token, { teamId, annotationTeamId }),
+    getBaselineCompliance(token, teamId),
+    getPolicies(),
+    getActiveExceptions(),
+  ]);
+  const complianceByTitle = new Map(compliance.map(item => [item.software_title_id, item]));
+
+  return inventory.software_titles.map(software => {
+    const isTitleExcepted = exceptions.some(exception => coversScope(exception, { name: software.name, teamId }));
+    let open = 0;
+    let excepted = 0;
+    (software.versions || []).forEach(version => {
+      (version.vulnerabilities || []).forEach(cve => {
+        if (isTitleExcepted || exceptions.some(exception => coversScope(exception, { cve, name: software.name, teamId }))) {
+          excepted += 1;
+        } else {
+          open += 1;
+        }
+      });
+    });
+    const titleCompliance = complianceByTitle.get(software.id);
+
+    return {
+      Name: software.name,
+      Type: software.source.charAt(0).toUpperCase() + software.source.slice(1),
+      Vendor: software.vendor || 'Unknown',
+      'Host Count': software.hosts_count,
+      'Version Count': software.versions_count,
+      'Baseline Version': titleCompliance?.baseline_version || '',
+      'Baseline Compliance': titleCompliance ? formatCompliance(titleCompliance.compliance_percent) : '',
+      'Vulnerabilities Count': open,
+      'Excepted Vulnerabilities': excepted,
+      'Risk Exception': isTitleExcepted ? 'Yes' : 'No',
+      'Open Source': software.open_source ? 'Yes' : 'No',
+      License: software.spdx_id || 'Unclassified',
+      'License Category': CATEGORY_LABELS[software.license_category] || CATEGORY_LABELS.unknown,
+      Policy: resolvePolicy(software.id, software.name, policies)?.status || '',
+      Remark: software.remark || '',
+    };
+  });
+};
+
+// Same rows as the Open Source page export
+const buildOpenSourceReport = async (token, { teamId, annotationTeamId }) => {
+  const inventory = await getInventory(token, { openSource: true, teamId, annotationTeamId });
+
+  return inventory.software_titles.map(software => ({
+    Name: software.name,
+    Vendor: software.vendor || 'Unknown',
+    'Host Count': software.hosts_count || 0,
+    'Version Count': software.versions_count || 0,
+    'Vulnerabilities Count': software.vulnerabilities_count || 0,
+    'Open Source': 'Yes',
+    License: software.spdx_id || 'Unclassified',
+    'License Category': CATEGORY_LABELS[software.license_category] || CATEGORY_LABELS.unknown,
+    Remarks: software.remark || '',
+  }));
+};
+
+// Report types a schedule can generate, with the file name the matching page export uses
+export const REPORT_TYPES = {
+  hosts: { label: 'Hosts', filename: 'hosts-report', build: buildHostsReport },
+  software: { label: 'Software', filename: 'software-report', build: buildSoftwareReport },
+  open_source: { label: 'Open Source Software', filename: 'open-source-software-report', build: buildOpenSourceReport },
+};
+
+export const parseRecipients = (recipients) => String(recipients || '')
+  .split(/[,;\s]+/)
+  .map(recipient => recipient.trim())
+  .filter(Boolean);
+
+const writeReport = async (schedule, rows) => {
+  await fs.mkdir(REPORTS_DIR, { recursive: true });
+
+  // Timestamped so runs on the same day don't overwrite each other
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
+  const file = path.join(REPORTS_DIR, `${REPORT_TYPES[schedule.report_type].filename}-${schedule.id}-${stamp}.csv`);
+
+  if (rows.length === 0) {
+    await fs.writeFile(file, '');
+  } else {
+    const writer = createObjectCsvWriter({
+      path: file,
+      header: Object.keys(rows[0]).map(column => ({ id: column, title: column })),
+    });
+    await writer.writeRecords(rows);
+  }
+  return file;
+};
+
+const sendReport = async (schedule, file, rowCount) => {
+  const recipients = parseRecipients(schedule.recipients);
+  if (!SMTP_HOST || recipients.length === 0) {
+    return;
+  }
+
+  const transport = nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASS } : undefined,
+  });
+  await transport.sendMail({
+    from: SMTP_FROM,
+    to: recipients.join(', '),
+    subject: `${schedule.name} (${REPORT_TYPES[schedule.report_type].label} report)`,
+    text: `The scheduled ${REPORT_TYPES[schedule.report_type].label.toLowerCase()} report has ${rowCount} row(s) and is attached.`,
+    attachments: [{ filename: path.basename(file), path: file }],
+  });
+};
+
+const recordRun = (scheduleId, { status, error = null, file = null }) => new Promise((resolve, reject) => {
+  db.run(
+    `UPDATE report_schedules
+      SET last_run_at = CURRENT_TIMESTAMP, last_status = ?, last_error = ?, last_file = COALESCE(?, last_file)
+      WHERE id = ?`,
+    [status, error, file, scheduleId],
+    (err) => (err ? reject(err) : resolve())
+  );
+});
+
+// Build a schedule's report, write it to REPORTS_DIR and email it; the outcome is kept on the
+// schedule and failures are rethrown for the caller
+export const runSchedule = async (token, schedule) => {
+  let file = null;
+  try {
+    const teamId = schedule.team_id ?? null;
+    const rows = await REPORT_TYPES[schedule.report_type].build(token, {
+      teamId,
+      annotationTeamId: schedule.team_annotations ? teamId : null,
+    });
+    file = await writeReport(schedule, rows);
+    await sendReport(schedule, file, rows.length);
+    await recordRun(schedule.id, { status: 'success', file });
+    return { file, rows: rows.length };
+  } catch (err) {
+    await recordRun(schedule.id, { status: 'failed', error: err.message, file });
+    throw err;
+  }
+};
+
+const runDueSchedules = () => {
+  const now = new Date();
+  db.all('SELECT * FROM report_schedules WHERE enabled = 1', async (err, schedules) => {
+    if (err) {
+      console.error('Error loading report schedules:', err);
+      return;
+    }
+
+    for (const schedule of schedules) {
+      try {
+        if (!matchesCron(parseCron(schedule.cron), now)) {
+          continue;
+        }
+        const { file } = await runSchedule(FLEET_API_TOKEN, schedule);
+        console.log(`Scheduled report "${schedule.name}" written to ${file}`);
+      } catch (err) {
+        console.error(`Error running report schedule ${schedule.id}:`, err);
+      }
+    }
+  });
+};
+
+// Check the schedules at the start of every minute
+export const startReportScheduler = () => {
+  if (!FLEET_API_TOKEN) {
+    console.warn('FLEET_API_TOKEN is not set; scheduled reports only run when started by hand');
+    return;
+  }
+  if (!SMTP_HOST) {
+    console.warn('SMTP_HOST is not set; scheduled reports are written to disk but not emailed');
+  }
+
+  setTimeout(() => {
+    runDueSchedules();
+    setInterval(runDueSchedules, 60 * 1000);
+  }, 60 * 1000 - (Date.now() % (60 * 1000)));
+};
@@ -0,0 +1,141 @@
+import { RISK_CACHE_TTL_MINUTES } from './config.js';
+import { fetchFleet } from './fleet.js';
+import { exceptionApplies, getActiveExceptions } from './exceptions.js';
+
+// CVSS used for CVEs Fleet has no score for (always the case on Fleet Free)
+const UNSCORED_CVSS = 5;
+// CVEs on CISA's Known Exploited Vulnerabilities list count double
+const KNOWN_EXPLOIT_WEIGHT = 2;
+
+const roundScore = (score) => Math.round(score * 10) / 10;
+
+// A CVE weighs its CVSS score, doubled when known exploited and raised by up to 2x with the
+// EPSS probability of exploitation in the next 30 days
+export const scoreVulnerability = (vulnerability) => {
+  const cvss = vulnerability.cvss_score ?? UNSCORED_CVSS;
+  const exploitWeight = vulnerability.cisa_known_exploit ? KNOWN_EXPLOIT_WEIGHT : 1;
+  return roundScore(cvss * exploitWeight * (1 + (vulnerability.epss_probability || 0)));
+};
+
+// Score a host from the software list Fleet returns with it; a CVE found in several
+// installed packages counts once, at its highest score. CVEs under an active risk
+// exception for the host are left out of the score and only counted.
+export const scoreHost = (software = [], { host, exceptions = [] } = {}) => {
+  const vulnerabilities = new Map();
+  const excepted = new Set();
+  software.forEach(item => {
+    (item.vulnerabilities || []).forEach(vulnerability => {
+      const isExcepted = host && exceptions.some(exception => exceptionApplies(exception, {
+        cve: vulnerability.cve,
+        name: item.name,
+        hostId: host.id,
+        teamId: host.team_id ?? null,
+      }));
+      if (isExcepted) {
+        excepted.add(vulnerability.cve);
+        return;
+      }
+
+      const score = scoreVulnerability(vulnerability);
+      const existing = vulnerabilities.get(vulnerability.cve);
+      if (!existing || existing.score < score) {
+        vulnerabilities.set(vulnerability.cve, {
+          cve: vulnerability.cve,
+          cvss_score: vulnerability.cvss_score ?? null,
+          epss_probability: vulnerability.epss_probability ?? null,
+          cisa_known_exploit: !!vulnerability.cisa_known_exploit,
+          software_name: item.name,
+          version: item.version,
+          score,
+        });
+      }
+    });
+  });
+
+  const ranked = [...vulnerabilities.values()].sort((a, b) => b.score - a.score);
+  return {
+    risk_score: roundScore(ranked.reduce((total, vulnerability) => total + vulnerability.score, 0)),
+    vulnerabilities_count: ranked.length,
+    known_exploited_count: ranked.filter(vulnerability => vulnerability.cisa_known_exploit).length,
+    critical_count: ranked.filter(vulnerability => (vulnerability.cvss_score ?? 0) >= 9).length,
+    excepted_count: [...excepted].filter(cve => !vulnerabilities.has(cve)).length,
+    vulnerabilities: ranked,
+  };
+};
+
+// Scoring every host needs each host's software, so results are cached per token and team
+// scope. Fleet only lists the hosts a token's user can see, so one user's index is never
+// served to another.
+const riskCache = new Map();
+
+const cacheKey = (token, teamId) => `${token}:${teamId ?? 'all'}`;
+
+// Drop expired indexes so tokens that are no longer used don't stay in memory
+const sweepRiskCache = () => {
+  const now = Date.now();
+  riskCache.forEach((cached, key) => {
+    if (!cached.pending && cached.expiresAt <= now) {
+      riskCache.delete(key);
+    }
+  });
+};
+
+const loadRiskIndex = async (token, teamId) => {
+  const params = new URLSearchParams({ populate_software: 'true' });
+  if (teamId !== null) {
+    params.append('team_id', teamId.toString());
+  }
+
+  // No page parameter, so Fleet returns every host
+  const [data, exceptions] = await Promise.all([
+    fetchFleet(token, `/api/latest/fleet/hosts?${params.toString()}`),
+    getActiveExceptions(),
+  ]);
+
+  const index = new Map();
+  (data.hosts || []).forEach(({ software, ...host }) => {
+    index.set(host.id, { host, risk: scoreHost(software, { host, exceptions }) });
+  });
+  return index;
+};
+
+// Host id -> { host, risk } for every host the token can see in the team (or the whole fleet)
+export const getRiskIndex = async (token, teamId) => {
+  const key = cacheKey(token, teamId);
+  const cached = riskCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.index;
+  }
+
+  // Share one scan between concurrent requests
+  if (cached?.pending) {
+    return cached.pending;
+  }
+
+  sweepRiskCache();
+  const pending = loadRiskIndex(token, teamId);
+  riskCache.set(key, { ...cached, pending });
+  try {
+    const index = await pending;
+    riskCache.set(key, {
+      index,
+      generatedAt: new Date().toISOString(),
+      expiresAt: Date.now() + RISK_CACHE_TTL_MINUTES * 60 * 1000,
+    });
+    return index;
+  } catch (err) {
+    riskCache.delete(key);
+    throw err;
+  }
+};
+
+// Scores depend on risk exceptions, so changing one forces a rescan
+export const clearRiskCache = () => riskCache.clear();
+
+export const getRiskGeneratedAt = (token, teamId) => riskCache.get(cacheKey(token, teamId))?.generatedAt || null;
+
+// Scores already computed for the token and team scope, without starting a scan; null when none are fresh
+export const peekRiskIndex = (token, teamId) => {
+  const cached = riskCache.get(cacheKey(token, teamId));
+  return cached?.index && cached.expiresAt > Date.now() ? cached.index : null;
+};
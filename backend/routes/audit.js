@@ -0,0 +1,67 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth } from '../middleware/auth.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const MAX_PAGE_SIZE = 500;
+
+// Get audit log entries, newest first
+// Filters: software_title_id, entity_type, action, user_email, from, to (ISO dates), page, per_page
+router.get('/audit', requireAuth, (req, res) => {
+  const { software_title_id, entity_type, action, user_email, from, to } = req.query;
+  const page = Math.max(parseInt(req.query.page, 10) || 0, 0);
+  const perPage = Math.min(Math.max(parseInt(req.query.per_page, 10) || 50, 1), MAX_PAGE_SIZE);
+
+  const conditions = [];
+  const params = [];
+
+  if (software_title_id) {
+    conditions.push('software_title_id = ?');
+    params.push(software_title_id);
+  }
+  if (entity_type) {
+    conditions.push('entity_type = ?');
+    params.push(entity_type);
+  }
+  if (action) {
+    conditions.push('action = ?');
+    params.push(action);
+  }
+  if (user_email) {
+    conditions.push('user_email LIKE ?');
+    params.push(`%${user_email}%`);
+  }
+  if (from) {
+    conditions.push('date(created_at) >= date(?)');
+    params.push(from);
+  }
+  if (to) {
+    conditions.push('date(created_at) <= date(?)');
+    params.push(to);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  db.get(`SELECT COUNT(*) AS count FROM audit_log ${where}`, params, (err, countRow) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    db.all(
+      `SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, perPage, page * perPage],
+      (err, rows) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+        res.json({ entries: rows, count: countRow.count });
+      }
+    );
+  });
+});
+
+export { router as auditRoutes };
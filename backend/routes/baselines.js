@@ -0,0 +1,176 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { recordAudit } from '../audit.js';
+import { fetchFleet } from '../fleet.js';
+import { parseTeamId } from '../teams.js';
+import { getBaselineCompliance, getBaselines, getTitleVersions } from '../baselines.js';
+import { compareVersions, summarizeBaseline } from '../versions.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const recordBaselineAudit = (req, { action, softwareTitleId, name, oldValue, newValue }, done) => {
+  recordAudit({
+    entityType: 'baseline',
+    action,
+    softwareTitleId,
+    softwareName: name,
+    oldValue,
+    newValue,
+    user: req.user,
+  }, (err) => {
+    if (err) {
+      console.error('Error recording audit entry:', err);
+    }
+    done();
+  });
+};
+
+// Get approved baseline versions
+router.get('/software-baselines', requireAuth, async (req, res) => {
+  try {
+    res.json(await getBaselines());
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Share of each baselined title's installs on the baseline version or newer, for the team in team_id
+router.get('/software-baselines/compliance', requireAuth, async (req, res) => {
+  const teamId = parseTeamId(req.query.team_id);
+
+  try {
+    res.json(await getBaselineCompliance(req.token, teamId));
+  } catch (err) {
+    res.status(err.status ? 502 : 500).json({ error: err.message });
+  }
+});
+
+// Hosts running a version older than their title's baseline, optionally for one title
+// Filters: team_id, software_title_id
+router.get('/outdated-hosts', requireAuth, async (req, res) => {
+  const teamId = parseTeamId(req.query.team_id);
+
+  try {
+    const baselines = await getBaselines(req.query.software_title_id);
+    const results = await Promise.all(baselines.map(async baseline => {
+      const { outdated_versions } = summarizeBaseline(
+        await getTitleVersions(req.token, baseline.software_title_id, teamId),
+        baseline.baseline_version
+      );
+
+      return Promise.all(outdated_versions.map(async version => {
+        const params = new URLSearchParams({ software_version_id: version.id });
+        if (teamId !== null) params.set('team_id', teamId);
+        // No page parameter, so Fleet returns every host
+        const data = await fetchFleet(req.token, `/api/latest/fleet/hosts?${params.toString()}`);
+        return (data.hosts || []).map(host => ({
+          id: host.id,
+          display_name: host.display_name,
+          status: host.status,
+          os_version: host.os_version,
+          team_name: host.team_name ?? null,
+          software_title_id: baseline.software_title_id,
+          software_name: baseline.name,
+          software_version_id: version.id,
+          installed_version: version.version,
+          baseline_version: baseline.baseline_version,
+        }));
+      }));
+    }));
+
+    const hosts = results.flat(2).sort((a, b) =>
+      a.software_name.localeCompare(b.software_name)
+      || compareVersions(a.installed_version, b.installed_version)
+      || (a.display_name || '').localeCompare(b.display_name || '')
+    );
+    res.json({ hosts, count: hosts.length });
+  } catch (err) {
+    res.status(err.status ? 502 : 500).json({ error: err.message });
+  }
+});
+
+// Set the approved baseline version of a software title
+router.put('/software-baselines/:software_title_id', requireRole('admin', 'maintainer'), (req, res) => {
+  const softwareTitleId = Number(req.params.software_title_id);
+  const { name } = req.body;
+  const baselineVersion = req.body.baseline_version?.trim();
+
+  if (!softwareTitleId || !name || !baselineVersion) {
+    res.status(400).json({ error: 'software_title_id, name and baseline_version are required' });
+    return;
+  }
+
+  db.get('SELECT * FROM software_baselines WHERE software_title_id = ?', [softwareTitleId], (err, existing) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    db.run(
+      `INSERT INTO software_baselines (software_title_id, name, baseline_version, updated_by) VALUES (?, ?, ?, ?)
+        ON CONFLICT(software_title_id) DO UPDATE SET
+          name = excluded.name, baseline_version = excluded.baseline_version, updated_by = excluded.updated_by,
+          updated_at = CURRENT_TIMESTAMP`,
+      [softwareTitleId, name, baselineVersion, req.user.email],
+      (err) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+
+        db.get('SELECT * FROM software_baselines WHERE software_title_id = ?', [softwareTitleId], (err, row) => {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+          if (existing?.baseline_version === baselineVersion) {
+            res.json(row);
+            return;
+          }
+
+          recordBaselineAudit(req, {
+            action: existing ? 'update' : 'create',
+            softwareTitleId,
+            name,
+            oldValue: existing?.baseline_version,
+            newValue: baselineVersion,
+          }, () => res.json(row));
+        });
+      }
+    );
+  });
+});
+
+// Clear a title's baseline version
+router.delete('/software-baselines/:software_title_id', requireRole('admin', 'maintainer'), (req, res) => {
+  const softwareTitleId = Number(req.params.software_title_id);
+
+  db.get('SELECT * FROM software_baselines WHERE software_title_id = ?', [softwareTitleId], (err, existing) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    if (!existing) {
+      res.json({ deleted: false });
+      return;
+    }
+
+    db.run('DELETE FROM software_baselines WHERE software_title_id = ?', [softwareTitleId], (err) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      recordBaselineAudit(req, {
+        action: 'delete',
+        softwareTitleId,
+        name: existing.name,
+        oldValue: existing.baseline_version,
+      }, () => res.json({ deleted: true }));
+    });
+  });
+});
+
+export { router as baselineRoutes };
\ No newline at end of file
@@ -0,0 +1,170 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { FLEET_API_TOKEN } from '../config.js';
+import { recordAudit } from '../audit.js';
+import { getEntitlements, getLicenseCompliance } from '../entitlements.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const describeEntitlement = (row) => {
+  if (!row) return null;
+  const parts = [`${row.seats} seats`];
+  if (row.contract_end) parts.push(`ends ${row.contract_end}`);
+  if (row.cost_per_seat !== null) parts.push(`${row.cost_per_seat} per seat`);
+  return parts.join(', ');
+};
+
+// Check and normalise an entitlement from the request body; returns an error message when invalid
+const parseEntitlement = (body) => {
+  const name = body.name?.trim();
+  const contractEnd = body.contract_end || null;
+  const costPerSeat = body.cost_per_seat ?? null;
+
+  if (!name) return { error: 'name is required' };
+  if (!Number.isInteger(body.seats) || body.seats < 0) return { error: 'seats must be a whole number of 0 or more' };
+  if (contractEnd !== null && !/^\d{4}-\d{2}-\d{2}$/.test(contractEnd)) {
+    return { error: 'contract_end must be a YYYY-MM-DD date' };
+  }
+  if (costPerSeat !== null && (typeof costPerSeat !== 'number' || !(costPerSeat >= 0))) {
+    return { error: 'cost_per_seat must be a number of 0 or more' };
+  }
+
+  return { entitlement: { name, seats: body.seats, contract_end: contractEnd, cost_per_seat: costPerSeat } };
+};
+
+const recordEntitlementAudit = (req, { action, softwareTitleId, name, oldValue, newValue }, done) => {
+  recordAudit({
+    entityType: 'entitlement',
+    action,
+    softwareTitleId,
+    softwareName: name,
+    oldValue,
+    newValue,
+    user: req.user,
+  }, (err) => {
+    if (err) {
+      console.error('Error recording audit entry:', err);
+    }
+    done();
+  });
+};
+
+// Get purchased license seats
+router.get('/license-entitlements', requireAuth, async (req, res) => {
+  try {
+    res.json(await getEntitlements());
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Each entitlement's seats against its installs across every team, with unused and missing seat costs
+router.get('/license-compliance', requireAuth, async (req, res) => {
+  if (!FLEET_API_TOKEN) {
+    res.status(503).json({ error: 'FLEET_API_TOKEN is not set, so installs cannot be counted' });
+    return;
+  }
+
+  try {
+    res.json(await getLicenseCompliance());
+  } catch (err) {
+    res.status(err.status ? 502 : 500).json({ error: err.message });
+  }
+});
+
+// Set the purchased seats, contract end and cost per seat of a software title
+router.put('/license-entitlements/:software_title_id', requireRole('admin', 'maintainer'), (req, res) => {
+  const softwareTitleId = Number(req.params.software_title_id);
+  const { entitlement, error } = parseEntitlement(req.body);
+
+  if (!softwareTitleId) {
+    res.status(400).json({ error: 'software_title_id is required' });
+    return;
+  }
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  db.get('SELECT * FROM license_entitlements WHERE software_title_id = ?', [softwareTitleId], (err, existing) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    db.run(
+      `INSERT INTO license_entitlements (software_title_id, name, seats, contract_end, cost_per_seat, updated_by)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(software_title_id) DO UPDATE SET
+          name = excluded.name, seats = excluded.seats, contract_end = excluded.contract_end,
+          cost_per_seat = excluded.cost_per_seat, updated_by = excluded.updated_by, updated_at = CURRENT_TIMESTAMP`,
+      [
+        softwareTitleId,
+        entitlement.name,
+        entitlement.seats,
+        entitlement.contract_end,
+        entitlement.cost_per_seat,
+        req.user.email,
+      ],
+      (err) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+
+        db.get('SELECT * FROM license_entitlements WHERE software_title_id = ?', [softwareTitleId], (err, row) => {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+          if (describeEntitlement(existing) === describeEntitlement(row)) {
+            res.json(row);
+            return;
+          }
+
+          recordEntitlementAudit(req, {
+            action: existing ? 'update' : 'create',
+            softwareTitleId,
+            name: row.name,
+            oldValue: describeEntitlement(existing),
+            newValue: describeEntitlement(row),
+          }, () => res.json(row));
+        });
+      }
+    );
+  });
+});
+
+// Remove a title's entitlement
+router.delete('/license-entitlements/:software_title_id', requireRole('admin', 'maintainer'), (req, res) => {
+  const softwareTitleId = Number(req.params.software_title_id);
+
+  db.get('SELECT * FROM license_entitlements WHERE software_title_id = ?', [softwareTitleId], (err, existing) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    if (!existing) {
+      res.json({ deleted: false });
+      return;
+    }
+
+    db.run('DELETE FROM license_entitlements WHERE software_title_id = ?', [softwareTitleId], (err) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      recordEntitlementAudit(req, {
+        action: 'delete',
+        softwareTitleId,
+        name: existing.name,
+        oldValue: describeEntitlement(existing),
+      }, () => res.json({ deleted: true }));
+    });
+  });
+});
+
+export { router as entitlementRoutes };
\ No newline at end of file
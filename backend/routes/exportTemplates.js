@@ -0,0 +1,136 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth } from '../middleware/auth.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const getTemplate = (id, userId) => new Promise((resolve, reject) => {
+  db.get('SELECT * FROM export_templates WHERE id = ? AND user_id = ?', [id, userId], (err, row) => (err ? reject(err) : resolve(row)));
+});
+
+const formatTemplate = (template) => ({ ...template, columns: JSON.parse(template.columns) });
+
+// Check a template's columns: an object of sheet name to a non-empty list of { key, header }.
+// Column keys belong to the frontend's exports, so only their shape is checked here.
+const parseColumns = (columns) => {
+  if (!columns || typeof columns !== 'object' || Array.isArray(columns) || Object.keys(columns).length === 0) {
+    return null;
+  }
+
+  const parsed = {};
+  for (const [sheet, choices] of Object.entries(columns)) {
+    if (!Array.isArray(choices) || choices.length === 0) return null;
+    const isValid = choices.every(choice => typeof choice?.key === 'string' && choice.key
+      && typeof choice.header === 'string' && choice.header.trim());
+    if (!isValid) return null;
+    parsed[sheet] = choices.map(choice => ({ key: choice.key, header: choice.header.trim() }));
+  }
+  return parsed;
+};
+
+const parseTemplate = (body) => {
+  const name = body.name?.trim();
+  const columns = parseColumns(body.columns);
+
+  if (!name) return { error: 'name is required' };
+  if (!columns) return { error: 'columns must map each sheet to at least one { key, header } column' };
+  return { template: { name, columns: JSON.stringify(columns) } };
+};
+
+const sendSaveError = (res, err) => {
+  if (err.code === 'SQLITE_CONSTRAINT') {
+    res.status(409).json({ error: 'A template with this name already exists for this export' });
+    return;
+  }
+  res.status(500).json({ error: err.message });
+};
+
+// Get the signed-in user's templates, optionally for one export
+router.get('/export-templates', requireAuth, (req, res) => {
+  const params = [req.user.id];
+  let query = 'SELECT * FROM export_templates WHERE user_id = ?';
+  if (req.query.export_key) {
+    query += ' AND export_key = ?';
+    params.push(req.query.export_key);
+  }
+
+  db.all(`${query} ORDER BY export_key, name`, params, (err, rows) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json(rows.map(formatTemplate));
+  });
+});
+
+// Save a template for one export
+router.post('/export-templates', requireAuth, (req, res) => {
+  const exportKey = req.body.export_key?.trim();
+  const { template, error } = parseTemplate(req.body);
+  if (!exportKey || error) {
+    res.status(400).json({ error: error || 'export_key is required' });
+    return;
+  }
+
+  db.run(
+    'INSERT INTO export_templates (user_id, export_key, name, columns) VALUES (?, ?, ?, ?)',
+    [req.user.id, exportKey, template.name, template.columns],
+    async function(err) {
+      if (err) {
+        sendSaveError(res, err);
+        return;
+      }
+
+      try {
+        res.json(formatTemplate(await getTemplate(this.lastID, req.user.id)));
+      } catch (err) {
+        res.status(500).json({ error: err.message });
+      }
+    }
+  );
+});
+
+// Rename a template or change its columns
+router.put('/export-templates/:id', requireAuth, (req, res) => {
+  const { template, error } = parseTemplate(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  db.run(
+    `UPDATE export_templates
+      SET name = ?, columns = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND user_id = ?`,
+    [template.name, template.columns, req.params.id, req.user.id],
+    async function(err) {
+      if (err) {
+        sendSaveError(res, err);
+        return;
+      }
+      if (this.changes === 0) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+
+      try {
+        res.json(formatTemplate(await getTemplate(req.params.id, req.user.id)));
+      } catch (err) {
+        res.status(500).json({ error: err.message });
+      }
+    }
+  );
+});
+
+router.delete('/export-templates/:id', requireAuth, (req, res) => {
+  db.run('DELETE FROM export_templates WHERE id = ? AND user_id = ?', [req.params.id, req.user.id], function(err) {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json({ deleted: this.changes > 0 });
+  });
+});
+
+export { router as exportTemplateRoutes };
\ No newline at end of file
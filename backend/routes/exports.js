@@ -0,0 +1,239 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { fetchFleet } from '../fleet.js';
+import { EXPORT_FORMATS, createRowWriter, pageFleet, selectColumns } from '../exports.js';
+import { getInventory } from '../inventory.js';
+import { peekRiskIndex } from '../risk.js';
+import { parseTeamId } from '../teams.js';
+
+const router = express.Router();
+
+// Dashboard filters and sort passed through to Fleet
+const HOST_PARAMS = ['query', 'status', 'os_version_id', 'software_title_id', 'software_version_id', 'order_key', 'order_direction'];
+
+const BYTES_PER_GB = 1024 ** 3;
+
+// Same keys and columns as the dashboard's hosts export; optional ones are only offered in the column chooser
+const hostColumns = (riskIndex) => [
+  { key: 'display_name', header: 'Host', value: host => host.display_name },
+  { key: 'status', header: 'Status', value: host => host.status },
+  { key: 'issues', header: 'Issues', value: host => host.issues?.total_issues_count || 0 },
+  { key: 'risk_score', header: 'Risk Score', value: host => riskIndex?.get(host.id)?.risk.risk_score ?? '' },
+  { key: 'disk_space', header: 'Disk Space (GB)', value: host => host.gigs_disk_space_available || 0 },
+  { key: 'os_version', header: 'OS', value: host => host.os_version },
+  { key: 'osquery_version', header: 'Osquery', value: host => host.osquery_version },
+  { key: 'primary_ip', header: 'Private IP', value: host => host.primary_ip },
+  { key: 'detail_updated_at', header: 'Last Fetched', value: host => host.detail_updated_at },
+  { key: 'last_restarted_at', header: 'Last Restarted', value: host => host.last_restarted_at },
+  { key: 'hostname', header: 'Hostname', value: host => host.hostname, optional: true },
+  { key: 'uuid', header: 'UUID', value: host => host.uuid, optional: true },
+  { key: 'hardware_serial', header: 'Serial Number', value: host => host.hardware_serial, optional: true },
+  { key: 'hardware_vendor', header: 'Hardware Vendor', value: host => host.hardware_vendor, optional: true },
+  { key: 'hardware_model', header: 'Hardware Model', value: host => host.hardware_model, optional: true },
+  { key: 'cpu_brand', header: 'CPU', value: host => host.cpu_brand, optional: true },
+  { key: 'cpu_logical_cores', header: 'CPU Cores', value: host => host.cpu_logical_cores, optional: true },
+  {
+    key: 'memory',
+    header: 'Memory (GB)',
+    value: host => (host.memory ? Math.round((host.memory / BYTES_PER_GB) * 10) / 10 : ''),
+    optional: true,
+  },
+  { key: 'platform', header: 'Platform', value: host => host.platform, optional: true },
+  { key: 'public_ip', header: 'Public IP', value: host => host.public_ip, optional: true },
+  { key: 'primary_mac', header: 'MAC Address', value: host => host.primary_mac, optional: true },
+  { key: 'team_name', header: 'Team', value: host => host.team_name, optional: true },
+];
+
+// One row per host, installed version and install path; optional columns are only offered in the
+// column chooser. Rows are { host, software, title, installedPath }, where software is the entry
+// from the host's software list and title the inventory title it belongs to, when known.
+const HOST_SOFTWARE_COLUMNS = [
+  { key: 'host', header: 'Host', value: row => row.host.display_name },
+  { key: 'software', header: 'Software', value: row => row.software.name },
+  { key: 'version', header: 'Version', value: row => row.software.version },
+  { key: 'source', header: 'Source', value: row => row.software.source },
+  { key: 'installed_path', header: 'Install Path', value: row => row.installedPath },
+  { key: 'last_opened_at', header: 'Last Opened', value: row => row.software.last_opened_at || '' },
+  { key: 'host_id', header: 'Host ID', value: row => row.host.id, optional: true },
+  { key: 'hostname', header: 'Hostname', value: row => row.host.hostname, optional: true },
+  { key: 'hardware_serial', header: 'Serial Number', value: row => row.host.hardware_serial, optional: true },
+  { key: 'team_name', header: 'Team', value: row => row.host.team_name || '', optional: true },
+  { key: 'software_title_id', header: 'Software Title ID', value: row => row.title?.id ?? '', optional: true },
+  { key: 'vendor', header: 'Vendor', value: row => row.title?.vendor || '', optional: true },
+  { key: 'open_source', header: 'Open Source', value: row => (row.title ? row.title.open_source : ''), optional: true },
+  {
+    key: 'vulnerabilities',
+    header: 'Vulnerabilities',
+    value: row => (row.software.vulnerabilities || []).map(vulnerability => vulnerability.cve).join(', '),
+    optional: true,
+  },
+];
+
+// Stream every host matching the dashboard's filters as CSV or JSON, paging through Fleet so
+// large fleets never sit in memory. X-Total-Count carries the expected row count for progress.
+// Options: format (csv, json) and columns (JSON [{ key, header }] from the column chooser).
+// Filters: team_id, query, status, os_version_id, label_id, software_title_id, software_version_id,
+// order_key, order_direction
+router.get('/exports/hosts', requireAuth, async (req, res) => {
+  const format = req.query.format || 'csv';
+  if (!EXPORT_FORMATS[format]) {
+    res.status(400).json({ error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    return;
+  }
+
+  // Risk scores are only included when already computed; scoring would read every host's software
+  const teamId = parseTeamId(req.query.team_id);
+  let columns;
+  try {
+    columns = selectColumns(hostColumns(peekRiskIndex(req.token, teamId)), req.query.columns);
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+
+  const labelId = parseInt(req.query.label_id, 10);
+  const params = new URLSearchParams({ device_mapping: 'true' });
+  HOST_PARAMS.forEach(key => {
+    if (req.query[key]) {
+      params.append(key, req.query[key]);
+    }
+  });
+  if (teamId !== null) {
+    params.append('team_id', teamId.toString());
+  }
+  // Fleet can't sort by risk, and ranking needs every host scored before the first row, so a
+  // risk-ordered table streams in name order; the dashboard exports that order from /api/host-risk
+  if (params.get('order_key') === 'risk_score') {
+    params.set('order_key', 'display_name');
+    params.set('order_direction', 'asc');
+  }
+
+  // Stop paging through Fleet once the client goes away
+  let isCancelled = false;
+  res.on('close', () => {
+    isCancelled = !res.writableFinished;
+  });
+
+  // Fleet lists a label's members under /labels/:id/hosts instead of taking label_id on /hosts
+  const path = Number.isNaN(labelId) ? '/api/latest/fleet/hosts' : `/api/latest/fleet/labels/${labelId}/hosts`;
+  const countParams = new URLSearchParams(params);
+  if (!Number.isNaN(labelId)) {
+    countParams.append('label_id', labelId.toString());
+  }
+
+  let writer;
+  try {
+    const { count } = await fetchFleet(req.token, `/api/latest/fleet/hosts/count?${countParams.toString()}`);
+    res.setHeader('X-Total-Count', count);
+
+    writer = createRowWriter(res, format, columns, 'hosts-report');
+    await writer.start();
+
+    for await (const hosts of pageFleet(req.token, path, params, 'hosts', () => isCancelled)) {
+      for (const host of hosts) {
+        if (isCancelled) return;
+        await writer.writeRow(host);
+      }
+    }
+    writer.end();
+  } catch (err) {
+    console.error('Error exporting hosts:', err);
+    if (!writer) {
+      res.status(502).json({ error: err.message });
+      return;
+    }
+    // Part of the file has been sent, so the only way to report the failure is to cut it short
+    res.destroy(err);
+  }
+});
+
+// Stream which host has which software at which version, one row per install path, for license
+// audits. Hosts are paged through Fleet with their software, so large fleets never sit in memory;
+// the row count isn't known up front, so there is no X-Total-Count.
+// Options: format (csv, json) and columns (JSON [{ key, header }] from the column chooser).
+// Filters: team_id, software_title_ids (comma-separated), open_source=true; team_annotations=true
+// applies the team's open source flags, as on the software inventory
+router.get('/exports/host-software', requireAuth, async (req, res) => {
+  const format = req.query.format || 'csv';
+  if (!EXPORT_FORMATS[format]) {
+    res.status(400).json({ error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    return;
+  }
+
+  let columns;
+  try {
+    columns = selectColumns(HOST_SOFTWARE_COLUMNS, req.query.columns);
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+
+  const teamId = parseTeamId(req.query.team_id);
+  const openSource = req.query.open_source === 'true';
+  const titleIds = String(req.query.software_title_ids || '')
+    .split(',')
+    .map(id => parseInt(id, 10))
+    .filter(id => !Number.isNaN(id));
+  const isFiltered = openSource || titleIds.length > 0;
+
+  // Host software entries are versions, so titles are only loaded when a filter or column needs them
+  const columnKeys = columns.map(column => column.key);
+  const needsTitles = isFiltered || ['software_title_id', 'vendor', 'open_source'].some(key => columnKeys.includes(key));
+
+  // Sorted by id so hosts enrolled while paging can't shift pages and skip or repeat hosts
+  const params = new URLSearchParams({ populate_software: 'true', order_key: 'id', order_direction: 'asc' });
+  if (teamId !== null) {
+    params.append('team_id', teamId.toString());
+  }
+
+  // Stop paging through Fleet once the client goes away
+  let isCancelled = false;
+  res.on('close', () => {
+    isCancelled = !res.writableFinished;
+  });
+
+  let writer;
+  try {
+    const titlesByVersion = new Map();
+    if (needsTitles) {
+      const inventory = await getInventory(req.token, {
+        openSource,
+        teamId,
+        annotationTeamId: req.query.team_annotations === 'true' ? teamId : null,
+        withVendors: columnKeys.includes('vendor'),
+      });
+      inventory.software_titles
+        .filter(title => titleIds.length === 0 || titleIds.includes(title.id))
+        .forEach(title => (title.versions || []).forEach(version => titlesByVersion.set(version.id, title)));
+    }
+
+    writer = createRowWriter(res, format, columns, 'host-software-report');
+    await writer.start();
+
+    for await (const hosts of pageFleet(req.token, '/api/latest/fleet/hosts', params, 'hosts', () => isCancelled)) {
+      for (const { software, ...host } of hosts) {
+        for (const item of software || []) {
+          const title = titlesByVersion.get(item.id);
+          if (isFiltered && !title) continue;
+
+          // A version found at several paths gets a row for each
+          const installedPaths = item.installed_paths?.length ? item.installed_paths : [''];
+          for (const installedPath of installedPaths) {
+            if (isCancelled) return;
+            await writer.writeRow({ host, software: item, title, installedPath });
+          }
+        }
+      }
+    }
+    writer.end();
+  } catch (err) {
+    console.error('Error exporting host software:', err);
+    if (!writer) {
+      res.status(502).json({ error: err.message });
+      return;
+    }
+    res.destroy(err);
+  }
+});
+
+export { router as exportRoutes };
\ No newline at end of file
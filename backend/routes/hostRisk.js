@@ -0,0 +1,95 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { fetchFleet } from '../fleet.js';
+import { getRiskIndex, getRiskGeneratedAt, scoreHost } from '../risk.js';
+import { getActiveExceptions } from '../exceptions.js';
+import { parseTeamId } from '../teams.js';
+
+const router = express.Router();
+
+// Dashboard filters passed through to Fleet to pick the hosts being ranked
+const HOST_FILTERS = ['query', 'status', 'os_version_id', 'software_title_id', 'software_version_id'];
+
+// CVEs named per host in the ranked list
+const TOP_CVES = 3;
+
+// Hosts ranked by risk score, with the dashboard's filters
+// Filters: query, status, os_version_id, label_id, software_title_id, software_version_id, team_id,
+// order_direction, page, per_page (omit page for every host)
+router.get('/host-risk', requireAuth, async (req, res) => {
+  const teamId = parseTeamId(req.query.team_id);
+  const labelId = parseInt(req.query.label_id, 10);
+  const page = parseInt(req.query.page, 10);
+  const perPage = parseInt(req.query.per_page, 10) || 50;
+  const isPaged = !Number.isNaN(page);
+
+  try {
+    const params = new URLSearchParams();
+    HOST_FILTERS.forEach(key => {
+      if (req.query[key]) {
+        params.append(key, req.query[key]);
+      }
+    });
+    if (teamId !== null) {
+      params.append('team_id', teamId.toString());
+    }
+    const isFiltered = [...params.keys()].some(key => key !== 'team_id') || !Number.isNaN(labelId);
+
+    const index = await getRiskIndex(req.token, teamId);
+
+    // Filtering is left to Fleet; the hosts it returns are looked up in the scored index
+    let entries = [...index.values()];
+    if (isFiltered) {
+      const path = Number.isNaN(labelId)
+        ? `/api/latest/fleet/hosts?${params.toString()}`
+        : `/api/latest/fleet/labels/${labelId}/hosts?${params.toString()}`;
+      const data = await fetchFleet(req.token, path);
+      entries = (data.hosts || []).map(host => ({
+        host,
+        risk: index.get(host.id)?.risk || scoreHost([]),
+      }));
+    }
+
+    const direction = req.query.order_direction === 'asc' ? 1 : -1;
+    entries.sort((a, b) => direction * (a.risk.risk_score - b.risk.risk_score)
+      || a.host.display_name.localeCompare(b.host.display_name));
+
+    const count = entries.length;
+    if (isPaged) {
+      entries = entries.slice(page * perPage, (page + 1) * perPage);
+    }
+
+    res.json({
+      hosts: entries.map(({ host, risk }) => ({
+        ...host,
+        risk_score: risk.risk_score,
+        vulnerabilities_count: risk.vulnerabilities_count,
+        known_exploited_count: risk.known_exploited_count,
+        critical_count: risk.critical_count,
+        excepted_count: risk.excepted_count,
+        top_cves: risk.vulnerabilities.slice(0, TOP_CVES).map(vulnerability => vulnerability.cve),
+      })),
+      count,
+      generated_at: getRiskGeneratedAt(req.token, teamId),
+    });
+  } catch (err) {
+    console.error('Error ranking hosts by risk:', err);
+    res.status(502).json({ error: err.message });
+  }
+});
+
+// Risk score for one host with each CVE's contribution, computed from the host's current software
+router.get('/host-risk/:id', requireAuth, async (req, res) => {
+  try {
+    const [data, exceptions] = await Promise.all([
+      fetchFleet(req.token, `/api/latest/fleet/hosts/${encodeURIComponent(req.params.id)}`),
+      getActiveExceptions(),
+    ]);
+    res.json({ host_id: data.host.id, ...scoreHost(data.host.software, { host: data.host, exceptions }) });
+  } catch (err) {
+    console.error(`Error scoring host ${req.params.id}:`, err);
+    res.status(502).json({ error: err.message });
+  }
+});
+
+export { router as hostRiskRoutes };
\ No newline at end of file
@@ -0,0 +1,117 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { recordAudit } from '../audit.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const LICENSE_CATEGORIES = ['permissive', 'copyleft', 'proprietary', 'freeware', 'unknown'];
+
+// SPDX license identifiers and simple expressions such as "MIT OR Apache-2.0"
+const SPDX_EXPRESSION = /^[A-Za-z0-9.+-]+(?: (?:AND|OR|WITH) [A-Za-z0-9.+-]+)*$/;
+
+const describeLicense = (row) => (row ? `${row.spdx_id || 'No SPDX ID'} (${row.category})` : null);
+
+// Get license classifications, optionally filtered by category and/or SPDX identifier
+router.get('/licenses', requireAuth, (req, res) => {
+  const { category, spdx_id } = req.query;
+  const conditions = [];
+  const params = [];
+
+  if (category) {
+    conditions.push('category = ?');
+    params.push(category);
+  }
+  if (spdx_id) {
+    conditions.push('spdx_id = ?');
+    params.push(spdx_id);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  db.all(`SELECT * FROM software_licenses ${where} ORDER BY name`, params, (err, rows) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json(rows);
+  });
+});
+
+// Set the license classification of a software title
+router.put('/licenses/:software_title_id', requireRole('admin', 'maintainer'), (req, res) => {
+  const softwareTitleId = Number(req.params.software_title_id);
+  const { name } = req.body;
+  const spdxId = req.body.spdx_id?.trim() || null;
+  const category = req.body.category || 'unknown';
+
+  if (!softwareTitleId || !name) {
+    res.status(400).json({ error: 'software_title_id and name are required' });
+    return;
+  }
+  if (!LICENSE_CATEGORIES.includes(category)) {
+    res.status(400).json({ error: `category must be one of: ${LICENSE_CATEGORIES.join(', ')}` });
+    return;
+  }
+  if (spdxId && !SPDX_EXPRESSION.test(spdxId)) {
+    res.status(400).json({ error: 'spdx_id must be an SPDX license identifier or expression' });
+    return;
+  }
+
+  db.get(
+    'SELECT * FROM software_licenses WHERE software_title_id = ?',
+    [softwareTitleId],
+    (err, existing) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      db.run(
+        `INSERT INTO software_licenses (software_title_id, name, spdx_id, category) VALUES (?, ?, ?, ?)
+          ON CONFLICT(software_title_id) DO UPDATE SET
+            name = excluded.name, spdx_id = excluded.spdx_id, category = excluded.category,
+            updated_at = CURRENT_TIMESTAMP`,
+        [softwareTitleId, name, spdxId, category],
+        (err) => {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+
+          db.get('SELECT * FROM software_licenses WHERE software_title_id = ?', [softwareTitleId], (err, row) => {
+            if (err) {
+              res.status(500).json({ error: err.message });
+              return;
+            }
+
+            const oldValue = describeLicense(existing);
+            const newValue = describeLicense(row);
+            if (oldValue === newValue) {
+              res.json(row);
+              return;
+            }
+
+            recordAudit({
+              entityType: 'license',
+              action: existing ? 'update' : 'create',
+              softwareTitleId,
+              softwareName: name,
+              oldValue,
+              newValue,
+              user: req.user,
+            }, (err) => {
+              if (err) {
+                console.error('Error recording audit entry:', err);
+              }
+              res.json(row);
+            });
+          });
+        }
+      );
+    }
+  );
+});
+
+export { router as licenseRoutes };
\ No newline at end of file
@@ -1,55 +1,224 @@
 import express from 'express';
 import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { recordAudit } from '../audit.js';
+import { parseTeamId } from '../teams.js';
 
 const router = express.Router();
 const db = getDatabase();
 
-// Get all open source software
-router.get('/open-source', (req, res) => {
-  db.all('SELECT * FROM open_source_software ORDER BY name', (err, rows) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
-      return;
+// Team flags override the global one, so adding and removing both upsert a team_open_source row
+const setTeamOpenSource = (req, res, { teamId, softwareTitleId, name, openSource }) => {
+  db.get(
+    `SELECT l.name, COALESCE(t.open_source, l.open_source, 0) AS open_source
+      FROM (SELECT ? AS software_title_id) AS title
+      LEFT JOIN software_licenses l ON l.software_title_id = title.software_title_id
+      LEFT JOIN team_open_source t ON t.software_title_id = title.software_title_id AND t.team_id = ?`,
+    [softwareTitleId, teamId],
+    (err, current) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      const titleName = name || current.name;
+      const changed = !!current.open_source !== openSource;
+      const respond = () => (openSource
+        ? res.json({ software_title_id: softwareTitleId, name: titleName, team_id: teamId })
+        : res.json({ deleted: changed }));
+
+      if (!changed) {
+        respond();
+        return;
+      }
+      if (!titleName) {
+        res.status(404).json({ error: 'Software title not found' });
+        return;
+      }
+
+      // The open source list is read from software_licenses, so every flagged title needs a row there
+      db.run(
+        `INSERT INTO software_licenses (software_title_id, name) VALUES (?, ?)
+          ON CONFLICT(software_title_id) DO NOTHING`,
+        [softwareTitleId, titleName],
+        (err) => {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+
+          db.run(
+            `INSERT INTO team_open_source (team_id, software_title_id, name, open_source) VALUES (?, ?, ?, ?)
+              ON CONFLICT(team_id, software_title_id) DO UPDATE SET
+                name = excluded.name, open_source = excluded.open_source, updated_at = CURRENT_TIMESTAMP`,
+            [teamId, softwareTitleId, titleName, openSource ? 1 : 0],
+            (err) => {
+              if (err) {
+                res.status(500).json({ error: err.message });
+                return;
+              }
+
+              recordAudit({
+                entityType: 'open_source',
+                action: openSource ? 'create' : 'delete',
+                softwareTitleId,
+                softwareName: titleName,
+                oldValue: String(!openSource),
+                newValue: String(openSource),
+                user: req.user,
+                teamId,
+              }, (err) => {
+                if (err) {
+                  console.error('Error recording audit entry:', err);
+                }
+                respond();
+              });
+            }
+          );
+        }
+      );
+    }
+  );
+};
+
+// Get all open source software; with team_id, that team's flags override the global ones
+router.get('/open-source', requireAuth, (req, res) => {
+  const teamId = parseTeamId(req.query.team_id);
+
+  const sql = teamId === null
+    ? `SELECT id, software_title_id, name, spdx_id, category, created_at, updated_at
+        FROM software_licenses WHERE open_source = 1 ORDER BY name`
+    : `SELECT l.id, l.software_title_id, l.name, l.spdx_id, l.category, l.created_at, l.updated_at
+        FROM software_licenses l
+        LEFT JOIN team_open_source t ON t.software_title_id = l.software_title_id AND t.team_id = ?
+        WHERE COALESCE(t.open_source, l.open_source) = 1 ORDER BY l.name`;
+
+  db.all(
+    sql,
+    teamId === null ? [] : [teamId],
+    (err, rows) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      res.json(rows);
     }
-    res.json(rows);
-  });
+  );
 });
 
 // Add software to open source list
-router.post('/open-source', (req, res) => {
+router.post('/open-source', requireRole('admin', 'maintainer'), (req, res) => {
   const { software_title_id, name } = req.body;
+  const teamId = parseTeamId(req.body.team_id);
   
   if (!software_title_id || !name) {
     res.status(400).json({ error: 'software_title_id and name are required' });
     return;
   }
 
-  db.run(
-    'INSERT OR REPLACE INTO open_source_software (software_title_id, name, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)',
-    [software_title_id, name],
-    function(err) {
+  if (teamId !== null) {
+    setTeamOpenSource(req, res, { teamId, softwareTitleId: software_title_id, name, openSource: true });
+    return;
+  }
+
+  db.get(
+    'SELECT * FROM software_licenses WHERE software_title_id = ?',
+    [software_title_id],
+    (err, existing) => {
       if (err) {
         res.status(500).json({ error: err.message });
         return;
       }
-      res.json({ id: this.lastID, software_title_id, name });
+
+      db.run(
+        `INSERT INTO software_licenses (software_title_id, name, open_source) VALUES (?, ?, 1)
+          ON CONFLICT(software_title_id) DO UPDATE SET
+            name = excluded.name, open_source = 1, updated_at = CURRENT_TIMESTAMP`,
+        [software_title_id, name],
+        function(err) {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+          const id = existing?.id ?? this.lastID;
+
+          // Re-marking a title that is already open source is not a change
+          if (existing?.open_source) {
+            res.json({ id, software_title_id, name });
+            return;
+          }
+
+          recordAudit({
+            entityType: 'open_source',
+            action: existing ? 'update' : 'create',
+            softwareTitleId: software_title_id,
+            softwareName: name,
+            oldValue: 'false',
+            newValue: 'true',
+            user: req.user,
+          }, (err) => {
+            if (err) {
+              console.error('Error recording audit entry:', err);
+            }
+            res.json({ id, software_title_id, name });
+          });
+        }
+      );
     }
   );
 });
 
-// Remove software from open source list
-router.delete('/open-source/:software_title_id', (req, res) => {
+// Remove software from open source list (its license classification is kept); team_id limits it to one team
+router.delete('/open-source/:software_title_id', requireRole('admin', 'maintainer'), (req, res) => {
   const { software_title_id } = req.params;
+  const teamId = parseTeamId(req.query.team_id);
+
+  if (teamId !== null) {
+    setTeamOpenSource(req, res, { teamId, softwareTitleId: Number(software_title_id), openSource: false });
+    return;
+  }
   
-  db.run(
-    'DELETE FROM open_source_software WHERE software_title_id = ?',
+  db.get(
+    'SELECT * FROM software_licenses WHERE software_title_id = ?',
     [software_title_id],
-    function(err) {
+    (err, existing) => {
       if (err) {
         res.status(500).json({ error: err.message });
         return;
       }
-      res.json({ deleted: this.changes > 0 });
+
+      db.run(
+        `UPDATE software_licenses SET open_source = 0, updated_at = CURRENT_TIMESTAMP
+          WHERE software_title_id = ? AND open_source = 1`,
+        [software_title_id],
+        function(err) {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+          const deleted = this.changes > 0;
+
+          if (!deleted) {
+            res.json({ deleted });
+            return;
+          }
+
+          recordAudit({
+            entityType: 'open_source',
+            action: 'delete',
+            softwareTitleId: Number(software_title_id),
+            softwareName: existing?.name,
+            oldValue: 'true',
+            newValue: 'false',
+            user: req.user,
+          }, (err) => {
+            if (err) {
+              console.error('Error recording audit entry:', err);
+            }
+            res.json({ deleted });
+          });
+        }
+      );
     }
   );
 });
@@ -0,0 +1,120 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const POLICY_STATUSES = ['approved', 'banned', 'needs_review'];
+
+const validatePolicy = ({ software_title_id, name_pattern, status }) => {
+  if (!POLICY_STATUSES.includes(status)) {
+    return `status must be one of: ${POLICY_STATUSES.join(', ')}`;
+  }
+  if (!software_title_id === !name_pattern?.trim()) {
+    return 'Exactly one of software_title_id or name_pattern is required';
+  }
+  return null;
+};
+
+// Get all policy rules, title rules first
+router.get('/policies', requireAuth, (req, res) => {
+  db.all(
+    'SELECT * FROM software_policies ORDER BY software_title_id IS NULL, name, name_pattern',
+    (err, rows) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      res.json(rows);
+    }
+  );
+});
+
+// Add a policy rule; a rule for a title that already has one replaces it
+router.post('/policies', requireRole('admin', 'maintainer'), (req, res) => {
+  const { software_title_id, name_pattern, name, status, reason } = req.body;
+
+  const validationError = validatePolicy(req.body);
+  if (validationError) {
+    res.status(400).json({ error: validationError });
+    return;
+  }
+
+  db.run(
+    `INSERT INTO software_policies (software_title_id, name_pattern, name, status, reason, created_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(software_title_id) DO UPDATE SET
+        name = excluded.name, status = excluded.status, reason = excluded.reason,
+        created_by = excluded.created_by, updated_at = CURRENT_TIMESTAMP`,
+    [software_title_id || null, name_pattern?.trim() || null, name || null, status, reason || null, req.user.email],
+    function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      // lastID is not reliable when the upsert updated an existing title rule
+      const [query, params] = software_title_id
+        ? ['SELECT * FROM software_policies WHERE software_title_id = ?', [software_title_id]]
+        : ['SELECT * FROM software_policies WHERE id = ?', [this.lastID]];
+
+      db.get(query, params, (err, row) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+        res.json(row);
+      });
+    }
+  );
+});
+
+// Change the status or reason of a policy rule
+router.put('/policies/:id', requireRole('admin', 'maintainer'), (req, res) => {
+  const { id } = req.params;
+  const { status, reason } = req.body;
+
+  if (!POLICY_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${POLICY_STATUSES.join(', ')}` });
+    return;
+  }
+
+  db.run(
+    'UPDATE software_policies SET status = ?, reason = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [status, reason || null, id],
+    function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      if (this.changes === 0) {
+        res.status(404).json({ error: 'Policy not found' });
+        return;
+      }
+
+      db.get('SELECT * FROM software_policies WHERE id = ?', [id], (err, row) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+        res.json(row);
+      });
+    }
+  );
+});
+
+// Remove a policy rule
+router.delete('/policies/:id', requireRole('admin', 'maintainer'), (req, res) => {
+  const { id } = req.params;
+
+  db.run('DELETE FROM software_policies WHERE id = ?', [id], function(err) {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json({ deleted: this.changes > 0 });
+  });
+});
+
+export { router as policyRoutes };
\ No newline at end of file
@@ -0,0 +1,181 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { FLEET_API_TOKEN } from '../config.js';
+import { getDueDate, lookupTarget, verifyTicket } from '../remediation.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const TICKET_STATUSES = ['open', 'in_progress', 'accepted_risk', 'fixed'];
+
+const getTicket = (id) => new Promise((resolve, reject) => {
+  db.get('SELECT * FROM remediation_tickets WHERE id = ?', [id], (err, row) => (err ? reject(err) : resolve(row)));
+});
+
+// Get remediation tickets, soonest due first
+// Filters: status, cve, software_version_id, assignee
+router.get('/remediation-tickets', requireAuth, (req, res) => {
+  const conditions = [];
+  const params = [];
+
+  ['status', 'cve', 'software_version_id', 'assignee'].forEach(key => {
+    if (req.query[key]) {
+      conditions.push(`${key} = ?`);
+      params.push(req.query[key]);
+    }
+  });
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  db.all(
+    `SELECT * FROM remediation_tickets ${where} ORDER BY due_date IS NULL, due_date, id`,
+    params,
+    (err, rows) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      res.json(rows);
+    }
+  );
+});
+
+// Open a ticket for a CVE, a software version, or a CVE in one version; the due date
+// defaults to the SLA for the severity Fleet reports
+router.post('/remediation-tickets', requireRole('admin', 'maintainer'), async (req, res) => {
+  const { cve, software_version_id, assignee, due_date, notes } = req.body;
+
+  if (!cve && !software_version_id) {
+    res.status(400).json({ error: 'cve or software_version_id is required' });
+    return;
+  }
+
+  let target;
+  try {
+    target = await lookupTarget(req.token, { cve, softwareVersionId: software_version_id });
+  } catch (err) {
+    if (err.status === 404) {
+      res.status(400).json({ error: 'Fleet does not know this CVE or software version' });
+      return;
+    }
+    res.status(502).json({ error: err.message });
+    return;
+  }
+
+  db.run(
+    `INSERT INTO remediation_tickets
+      (cve, software_version_id, software_name, version, severity, cvss_score, assignee, due_date, notes, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      cve || null,
+      software_version_id || null,
+      target.softwareName,
+      target.version,
+      target.severity,
+      target.cvssScore,
+      assignee?.trim() || null,
+      due_date || getDueDate(target.severity),
+      notes || null,
+      req.user.email,
+    ],
+    async function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      try {
+        res.json(await getTicket(this.lastID));
+      } catch (err) {
+        res.status(500).json({ error: err.message });
+      }
+    }
+  );
+});
+
+// Update the assignee, status, due date or notes; marking a ticket fixed checks Fleet straight away
+router.put('/remediation-tickets/:id', requireRole('admin', 'maintainer'), async (req, res) => {
+  const { id } = req.params;
+  const { assignee, status, due_date, notes } = req.body;
+
+  if (!TICKET_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${TICKET_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const existing = await getTicket(id);
+    if (!existing) {
+      res.status(404).json({ error: 'Ticket not found' });
+      return;
+    }
+
+    // Reopening clears the fix; re-marking a fixed ticket keeps its original fix time
+    const isFixed = status === 'fixed';
+    const wasFixed = existing.status === 'fixed';
+    await new Promise((resolve, reject) => {
+      db.run(
+        `UPDATE remediation_tickets SET
+          assignee = ?, status = ?, due_date = ?, notes = ?,
+          fixed_at = CASE WHEN ? THEN COALESCE(fixed_at, CURRENT_TIMESTAMP) ELSE NULL END,
+          verified_at = CASE WHEN ? AND ? THEN verified_at ELSE NULL END,
+          updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?`,
+        [assignee?.trim() || null, status, due_date || existing.due_date, notes || null, isFixed, isFixed, wasFixed, id],
+        (err) => (err ? reject(err) : resolve())
+      );
+    });
+
+    const ticket = await getTicket(id);
+    if (isFixed && !ticket.verified_at) {
+      try {
+        await verifyTicket(ticket);
+      } catch (err) {
+        // The scheduled job tries again
+        console.error(`Error verifying remediation ticket ${id}:`, err);
+      }
+    }
+
+    res.json(await getTicket(id));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Check a fixed ticket against Fleet now instead of waiting for the scheduled job
+router.post('/remediation-tickets/:id/verify', requireRole('admin', 'maintainer'), async (req, res) => {
+  try {
+    const ticket = await getTicket(req.params.id);
+    if (!ticket) {
+      res.status(404).json({ error: 'Ticket not found' });
+      return;
+    }
+    if (ticket.status !== 'fixed') {
+      res.status(400).json({ error: 'Only fixed tickets can be verified' });
+      return;
+    }
+    if (!FLEET_API_TOKEN) {
+      res.status(503).json({ error: 'FLEET_API_TOKEN is not set, so tickets cannot be verified' });
+      return;
+    }
+
+    await verifyTicket(ticket);
+    res.json(await getTicket(ticket.id));
+  } catch (err) {
+    res.status(502).json({ error: err.message });
+  }
+});
+
+// Remove a ticket
+router.delete('/remediation-tickets/:id', requireRole('admin', 'maintainer'), (req, res) => {
+  db.run('DELETE FROM remediation_tickets WHERE id = ?', [req.params.id], function(err) {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json({ deleted: this.changes > 0 });
+  });
+});
+
+export { router as remediationRoutes };
\ No newline at end of file
@@ -0,0 +1,171 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireRole } from '../middleware/auth.js';
+import { getNextRun, parseCron } from '../cron.js';
+import { REPORT_TYPES, parseRecipients, runSchedule } from '../reports.js';
+import { parseTeamId } from '../teams.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+// Loose check that catches typos without rejecting unusual but valid addresses
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+const getSchedule = (id) => new Promise((resolve, reject) => {
+  db.get('SELECT * FROM report_schedules WHERE id = ?', [id], (err, row) => (err ? reject(err) : resolve(row)));
+});
+
+// Stored flags as booleans, plus when the schedule fires next
+const formatSchedule = (schedule) => {
+  let nextRunAt = null;
+  if (schedule.enabled) {
+    try {
+      nextRunAt = getNextRun(schedule.cron)?.toISOString() || null;
+    } catch (err) {
+      // Stored expressions are validated on save, so this only guards against hand edits
+    }
+  }
+  return {
+    ...schedule,
+    team_annotations: !!schedule.team_annotations,
+    enabled: !!schedule.enabled,
+    next_run_at: nextRunAt,
+  };
+};
+
+// Column order used by the insert and update statements
+const SCHEDULE_FIELDS = ['name', 'report_type', 'cron', 'recipients', 'team_id', 'team_annotations', 'enabled'];
+
+// Check and normalise a schedule from the request body; returns an error message when invalid
+const parseSchedule = (body) => {
+  const name = body.name?.trim();
+  const cron = body.cron?.trim().replace(/\s+/g, ' ');
+  const recipients = parseRecipients(body.recipients);
+
+  if (!name) return { error: 'name is required' };
+  if (!REPORT_TYPES[body.report_type]) return { error: `report_type must be one of: ${Object.keys(REPORT_TYPES).join(', ')}` };
+  try {
+    parseCron(cron);
+  } catch (err) {
+    return { error: err.message };
+  }
+  const invalidRecipient = recipients.find(recipient => !EMAIL_PATTERN.test(recipient));
+  if (invalidRecipient) return { error: `Invalid recipient "${invalidRecipient}"` };
+
+  return {
+    schedule: {
+      name,
+      report_type: body.report_type,
+      cron,
+      recipients: recipients.join(', '),
+      team_id: parseTeamId(body.team_id),
+      team_annotations: body.team_annotations ? 1 : 0,
+      enabled: body.enabled === false ? 0 : 1,
+    },
+  };
+};
+
+// Get every report schedule
+router.get('/report-schedules', requireRole('admin', 'maintainer'), (req, res) => {
+  db.all('SELECT * FROM report_schedules ORDER BY name', (err, rows) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json(rows.map(formatSchedule));
+  });
+});
+
+// Create a schedule
+router.post('/report-schedules', requireRole('admin', 'maintainer'), (req, res) => {
+  const { schedule, error } = parseSchedule(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  db.run(
+    `INSERT INTO report_schedules (name, report_type, cron, recipients, team_id, team_annotations, enabled, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [...SCHEDULE_FIELDS.map(field => schedule[field]), req.user.email],
+    async function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      try {
+        res.json(formatSchedule(await getSchedule(this.lastID)));
+      } catch (err) {
+        res.status(500).json({ error: err.message });
+      }
+    }
+  );
+});
+
+// Update a schedule's report, timing, recipients or scope
+router.put('/report-schedules/:id', requireRole('admin', 'maintainer'), (req, res) => {
+  const { schedule, error } = parseSchedule(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  db.run(
+    `UPDATE report_schedules
+      SET name = ?, report_type = ?, cron = ?, recipients = ?, team_id = ?, team_annotations = ?, enabled = ?,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+    [...SCHEDULE_FIELDS.map(field => schedule[field]), req.params.id],
+    async function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      if (this.changes === 0) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      try {
+        res.json(formatSchedule(await getSchedule(req.params.id)));
+      } catch (err) {
+        res.status(500).json({ error: err.message });
+      }
+    }
+  );
+});
+
+router.delete('/report-schedules/:id', requireRole('admin', 'maintainer'), (req, res) => {
+  db.run('DELETE FROM report_schedules WHERE id = ?', [req.params.id], function(err) {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json({ deleted: this.changes > 0 });
+  });
+});
+
+// Generate and send a schedule's report now, with the signed-in user's Fleet token
+router.post('/report-schedules/:id/run', requireRole('admin', 'maintainer'), async (req, res) => {
+  let schedule;
+  try {
+    schedule = await getSchedule(req.params.id);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+    return;
+  }
+  if (!schedule) {
+    res.status(404).json({ error: 'Schedule not found' });
+    return;
+  }
+
+  try {
+    const result = await runSchedule(req.token, schedule);
+    res.json({ ...result, schedule: formatSchedule(await getSchedule(schedule.id)) });
+  } catch (err) {
+    res.status(err.status ? 502 : 500).json({ error: err.message });
+  }
+});
+
+export { router as reportScheduleRoutes };
\ No newline at end of file
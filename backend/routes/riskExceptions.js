@@ -0,0 +1,150 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { loadExceptionHosts, saveException } from '../exceptions.js';
+import { clearRiskCache } from '../risk.js';
+import { parseTeamId } from '../teams.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+const getException = (id) => new Promise((resolve, reject) => {
+  db.get('SELECT * FROM risk_exceptions WHERE id = ?', [id], (err, row) => {
+    if (err) {
+      reject(err);
+      return;
+    }
+    if (!row) {
+      resolve(null);
+      return;
+    }
+    loadExceptionHosts([row]).then(([exception]) => resolve(exception), reject);
+  });
+});
+
+// Check and normalise an exception from the request body; returns an error message when invalid
+const parseException = (body) => {
+  const cve = body.cve?.trim() || null;
+  const name = body.name?.trim() || null;
+  const justification = body.justification?.trim();
+  const approver = body.approver?.trim();
+
+  if (!cve && !name) return { error: 'cve or name is required' };
+  if (!justification) return { error: 'justification is required' };
+  if (!approver) return { error: 'approver is required' };
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(body.expires_at || '')) return { error: 'expires_at must be a YYYY-MM-DD date' };
+
+  return {
+    exception: {
+      cve,
+      software_title_id: body.software_title_id || null,
+      name,
+      team_id: parseTeamId(body.team_id),
+      justification,
+      approver,
+      expires_at: body.expires_at,
+      hosts: (Array.isArray(body.hosts) ? body.hosts : [])
+        .filter(host => Number.isInteger(host?.id))
+        .map(host => ({ id: host.id, display_name: host.display_name || null })),
+    },
+  };
+};
+
+// Get risk exceptions, soonest expiry first
+// Filters: status (active, expiring, expired), days (expiring window, default 30), cve, software_title_id
+router.get('/risk-exceptions', requireAuth, (req, res) => {
+  const conditions = [];
+  const params = [];
+
+  if (req.query.status === 'active') {
+    conditions.push("expires_at >= date('now')");
+  } else if (req.query.status === 'expiring') {
+    const days = parseInt(req.query.days, 10) || 30;
+    conditions.push("expires_at >= date('now')", "expires_at <= date('now', ?)");
+    params.push(`+${days} days`);
+  } else if (req.query.status === 'expired') {
+    conditions.push("expires_at < date('now')");
+  }
+
+  ['cve', 'software_title_id'].forEach(key => {
+    if (req.query[key]) {
+      conditions.push(`${key} = ?`);
+      params.push(req.query[key]);
+    }
+  });
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  db.all(`SELECT * FROM risk_exceptions ${where} ORDER BY expires_at, id`, params, async (err, rows) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    try {
+      res.json(await loadExceptionHosts(rows));
+    } catch (err) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+});
+
+// Record an exception for a CVE, a software title, or a CVE in one title
+router.post('/risk-exceptions', requireRole('admin', 'maintainer'), async (req, res) => {
+  const { exception, error } = parseException(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    const id = await saveException(null, exception, req.user);
+    clearRiskCache();
+    res.json(await getException(id));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Update an exception's scope, justification, approver or expiry
+router.put('/risk-exceptions/:id', requireRole('admin', 'maintainer'), async (req, res) => {
+  const { exception, error } = parseException(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    if (!(await getException(req.params.id))) {
+      res.status(404).json({ error: 'Exception not found' });
+      return;
+    }
+
+    await saveException(req.params.id, exception, req.user);
+    clearRiskCache();
+    res.json(await getException(req.params.id));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Remove an exception and its host list
+router.delete('/risk-exceptions/:id', requireRole('admin', 'maintainer'), (req, res) => {
+  db.run('DELETE FROM risk_exception_hosts WHERE exception_id = ?', [req.params.id], (err) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    db.run('DELETE FROM risk_exceptions WHERE id = ?', [req.params.id], function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      clearRiskCache();
+      res.json({ deleted: this.changes > 0 });
+    });
+  });
+});
+
+export { router as riskExceptionRoutes };
\ No newline at end of file
@@ -0,0 +1,106 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { takeSnapshot, pruneSnapshots, diffSnapshotTitles } from '../snapshots.js';
+import { SNAPSHOT_INTERVAL_HOURS, SNAPSHOT_RETENTION_DAYS } from '../config.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+// Get inventory snapshots, oldest first
+// Filters: days (only snapshots taken in the last N days)
+router.get('/snapshots', requireAuth, (req, res) => {
+  const days = parseInt(req.query.days, 10);
+  const [where, params] = days > 0
+    ? ["WHERE taken_at >= datetime('now', ?)", [`-${days} days`]]
+    : ['', []];
+
+  db.all(`SELECT * FROM inventory_snapshots ${where} ORDER BY taken_at`, params, (err, rows) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json({
+      snapshots: rows,
+      interval_hours: SNAPSHOT_INTERVAL_HOURS,
+      retention_days: SNAPSHOT_RETENTION_DAYS,
+    });
+  });
+});
+
+// Compare the last snapshots taken on or before two dates
+// Query: from, to (ISO dates)
+router.get('/snapshots/diff', requireAuth, (req, res) => {
+  const { from, to } = req.query;
+  if (!from || !to) {
+    res.status(400).json({ error: 'from and to dates are required' });
+    return;
+  }
+
+  const findSnapshot = (date, callback) => db.get(
+    'SELECT * FROM inventory_snapshots WHERE date(taken_at) <= date(?) ORDER BY taken_at DESC LIMIT 1',
+    [date],
+    callback
+  );
+  const loadTitles = (snapshotId, callback) => db.all(
+    'SELECT * FROM snapshot_software_titles WHERE snapshot_id = ? ORDER BY name',
+    [snapshotId],
+    callback
+  );
+
+  findSnapshot(from, (err, fromSnapshot) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    findSnapshot(to, (err, toSnapshot) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      if (!fromSnapshot || !toSnapshot) {
+        res.status(404).json({ error: `No snapshot taken on or before ${!fromSnapshot ? from : to}` });
+        return;
+      }
+
+      loadTitles(fromSnapshot.id, (err, fromTitles) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+        loadTitles(toSnapshot.id, (err, toTitles) => {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+          res.json({
+            from: fromSnapshot,
+            to: toSnapshot,
+            ...diffSnapshotTitles(fromTitles, toTitles),
+          });
+        });
+      });
+    });
+  });
+});
+
+// Take a snapshot now using the caller's Fleet session
+router.post('/snapshots', requireRole('admin'), async (req, res) => {
+  try {
+    const snapshotId = await takeSnapshot(req.token);
+    await pruneSnapshots();
+
+    db.get('SELECT * FROM inventory_snapshots WHERE id = ?', [snapshotId], (err, row) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      res.json(row);
+    });
+  } catch (err) {
+    console.error('Error taking inventory snapshot:', err);
+    res.status(502).json({ error: err.message });
+  }
+});
+
+export { router as snapshotRoutes };
\ No newline at end of file
@@ -0,0 +1,116 @@
+import express from 'express';
+import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+
+const router = express.Router();
+const db = getDatabase();
+
+// Get the comment thread for a software title, oldest first
+router.get('/software-comments/:software_title_id', requireAuth, (req, res) => {
+  const { software_title_id } = req.params;
+
+  db.all(
+    'SELECT * FROM software_comments WHERE software_title_id = ? ORDER BY created_at, id',
+    [software_title_id],
+    (err, rows) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      res.json(rows);
+    }
+  );
+});
+
+// Add a comment, optionally as a reply to another comment on the same title
+router.post('/software-comments', requireRole('admin', 'maintainer'), (req, res) => {
+  const { software_title_id, parent_id, body } = req.body;
+
+  if (!software_title_id || !body?.trim()) {
+    res.status(400).json({ error: 'software_title_id and body are required' });
+    return;
+  }
+
+  const insertComment = () => {
+    db.run(
+      `INSERT INTO software_comments (software_title_id, parent_id, body, author_id, author_name, author_email)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      [software_title_id, parent_id || null, body.trim(), req.user.id, req.user.name, req.user.email],
+      function(err) {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+
+        db.get('SELECT * FROM software_comments WHERE id = ?', [this.lastID], (err, row) => {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+          res.json(row);
+        });
+      }
+    );
+  };
+
+  if (!parent_id) {
+    insertComment();
+    return;
+  }
+
+  db.get(
+    'SELECT software_title_id FROM software_comments WHERE id = ?',
+    [parent_id],
+    (err, parent) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      if (!parent || parent.software_title_id !== Number(software_title_id)) {
+        res.status(400).json({ error: 'parent_id must reference a comment on the same software title' });
+        return;
+      }
+      insertComment();
+    }
+  );
+});
+
+// Delete a comment and its replies; only the author or a global admin may do this
+router.delete('/software-comments/:id', requireRole('admin', 'maintainer'), (req, res) => {
+  const { id } = req.params;
+
+  db.get('SELECT * FROM software_comments WHERE id = ?', [id], (err, comment) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    if (!comment) {
+      res.json({ deleted: false });
+      return;
+    }
+    if (comment.author_id !== req.user.id && req.user.global_role !== 'admin') {
+      res.status(403).json({ error: 'Only the author or an admin can delete this comment' });
+      return;
+    }
+
+    // Replies are removed explicitly since SQLite foreign keys are off by default
+    db.run(
+      `WITH RECURSIVE thread(id) AS (
+        SELECT id FROM software_comments WHERE id = ?
+        UNION ALL
+        SELECT c.id FROM software_comments c JOIN thread t ON c.parent_id = t.id
+      )
+      DELETE FROM software_comments WHERE id IN (SELECT id FROM thread)`,
+      [id],
+      function(err) {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+        res.json({ deleted: this.changes > 0 });
+      }
+    );
+  });
+});
+
+export { router as softwareCommentsRoutes };
\ No newline at end of file
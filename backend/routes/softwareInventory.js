@@ -0,0 +1,34 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { getInventory } from '../inventory.js';
+import { parseTeamId } from '../teams.js';
+
+const router = express.Router();
+
+// Get Fleet software titles joined with vendor, license, open source flag and remark
+// Filters: query, vulnerable, open_source, category, spdx_id, team_id, page, per_page (omit page for every title)
+// team_id scopes the Fleet titles; team_annotations=true also applies that team's open source flags and remarks
+router.get('/software-inventory', requireAuth, async (req, res) => {
+  const { query, vulnerable, open_source, category, spdx_id } = req.query;
+  const teamId = parseTeamId(req.query.team_id);
+  const page = parseInt(req.query.page, 10);
+
+  try {
+    res.json(await getInventory(req.token, {
+      query,
+      vulnerable: vulnerable === 'true',
+      openSource: open_source === 'true',
+      category,
+      spdxId: spdx_id,
+      teamId,
+      annotationTeamId: req.query.team_annotations === 'true' ? teamId : null,
+      page: Number.isNaN(page) ? undefined : page,
+      perPage: parseInt(req.query.per_page, 10) || 20,
+    }));
+  } catch (err) {
+    console.error('Error building software inventory:', err);
+    res.status(502).json({ error: err.message });
+  }
+});
+
+export { router as softwareInventoryRoutes };
\ No newline at end of file
@@ -1,12 +1,25 @@
 import express from 'express';
 import { getDatabase } from '../database.js';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { recordAudit } from '../audit.js';
+import { parseTeamId } from '../teams.js';
 
 const router = express.Router();
 const db = getDatabase();
 
-// Get all software remarks
-router.get('/software-remarks', (req, res) => {
-  db.all('SELECT * FROM software_remarks', (err, rows) => {
+// Get all software remarks; with team_id, that team's remarks replace the global ones
+router.get('/software-remarks', requireAuth, (req, res) => {
+  const teamId = parseTeamId(req.query.team_id);
+
+  const sql = teamId === null
+    ? 'SELECT *, NULL AS team_id FROM software_remarks'
+    : `SELECT id, software_title_id, remark, created_at, updated_at, NULL AS team_id FROM software_remarks
+        WHERE software_title_id NOT IN (SELECT software_title_id FROM team_software_remarks WHERE team_id = ?)
+      UNION ALL
+      SELECT id, software_title_id, remark, created_at, updated_at, team_id FROM team_software_remarks
+        WHERE team_id = ?`;
+
+  db.all(sql, teamId === null ? [] : [teamId, teamId], (err, rows) => {
     if (err) {
       res.status(500).json({ error: err.message });
       return;
@@ -15,26 +28,93 @@ router.get('/software-remarks', (req, res) => {
   });
 });
 
-// Add or update a software remark
-router.post('/software-remarks', (req, res) => {
-  const { software_title_id, remark } = req.body;
+// Add or update a software remark; with team_id it only applies to that team
+router.post('/software-remarks', requireRole('admin', 'maintainer'), (req, res) => {
+  const { software_title_id, remark, name } = req.body;
+  const teamId = parseTeamId(req.body.team_id);
   
   if (!software_title_id) {
     res.status(400).json({ error: 'software_title_id is required' });
     return;
   }
 
-  db.run(
-    'INSERT OR REPLACE INTO software_remarks (software_title_id, remark, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)',
-    [software_title_id, remark],
-    function(err) {
+  const existingSql = teamId === null
+    ? 'SELECT * FROM software_remarks WHERE software_title_id = ?'
+    : 'SELECT * FROM team_software_remarks WHERE software_title_id = ? AND team_id = ?';
+  const upsertSql = teamId === null
+    ? 'INSERT OR REPLACE INTO software_remarks (software_title_id, remark, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)'
+    : `INSERT INTO team_software_remarks (software_title_id, remark, team_id) VALUES (?, ?, ?)
+        ON CONFLICT(team_id, software_title_id) DO UPDATE SET
+          remark = excluded.remark, updated_at = CURRENT_TIMESTAMP`;
+  const scopeParams = teamId === null ? [] : [teamId];
+
+  db.get(existingSql, [software_title_id, ...scopeParams], (err, existing) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    db.run(upsertSql, [software_title_id, remark, ...scopeParams], function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+      // REPLACE gives the global row a new id, while an upsert that updates leaves lastID unset
+      const id = teamId === null ? this.lastID : existing?.id ?? this.lastID;
+
+      if ((existing?.remark || '') === (remark || '')) {
+        res.json({ id, software_title_id, remark, team_id: teamId });
+        return;
+      }
+
+      db.run(
+        `INSERT INTO software_remark_history (software_title_id, team_id, version, remark, author_id, author_email)
+          SELECT ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?
+          FROM software_remark_history WHERE software_title_id = ? AND team_id IS ?`,
+        [software_title_id, teamId, remark, req.user.id, req.user.email, software_title_id, teamId],
+        (err) => {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+
+          recordAudit({
+            entityType: 'remark',
+            action: existing ? 'update' : 'create',
+            softwareTitleId: software_title_id,
+            softwareName: name,
+            oldValue: existing?.remark,
+            newValue: remark,
+            user: req.user,
+            teamId,
+          }, (err) => {
+            if (err) {
+              console.error('Error recording audit entry:', err);
+            }
+            res.json({ id, software_title_id, remark, team_id: teamId });
+          });
+        }
+      );
+    });
+  });
+});
+
+// Get every saved version of a software title's remark, newest first; team_id selects a team's remark
+router.get('/software-remarks/:software_title_id/history', requireAuth, (req, res) => {
+  const { software_title_id } = req.params;
+  const teamId = parseTeamId(req.query.team_id);
+
+  db.all(
+    'SELECT * FROM software_remark_history WHERE software_title_id = ? AND team_id IS ? ORDER BY version DESC',
+    [software_title_id, teamId],
+    (err, rows) => {
       if (err) {
         res.status(500).json({ error: err.message });
         return;
       }
-      res.json({ id: this.lastID, software_title_id, remark });
+      res.json(rows);
     }
   );
 });
 
-export default router; 
\ No newline at end of file
+export default router;
\ No newline at end of file
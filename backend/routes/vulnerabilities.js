@@ -0,0 +1,63 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { fetchFleet } from '../fleet.js';
+import { parseTeamId } from '../teams.js';
+import { getSeverity } from '../vulnerabilities.js';
+
+const router = express.Router();
+
+const ORDER_KEYS = ['cve', 'cvss_score', 'epss_probability', 'hosts_count', 'cve_published'];
+
+// List CVEs across the fleet with their affected software versions and host counts
+// Filters: query, severity, known_exploit, team_id, order_key, order_direction, page, per_page
+router.get('/vulnerabilities', requireAuth, async (req, res) => {
+  const { query, severity } = req.query;
+  const teamId = parseTeamId(req.query.team_id);
+  const page = parseInt(req.query.page, 10);
+  const perPage = parseInt(req.query.per_page, 10) || 20;
+  const isPaged = !Number.isNaN(page);
+
+  // Fleet can't filter by score, so a severity band fetches every matching CVE and paginates here
+  const hasLocalFilter = !!severity;
+
+  try {
+    const params = new URLSearchParams({
+      order_key: ORDER_KEYS.includes(req.query.order_key) ? req.query.order_key : 'hosts_count',
+      order_direction: req.query.order_direction === 'asc' ? 'asc' : 'desc',
+      exploit: req.query.known_exploit === 'true' ? 'true' : 'false',
+    });
+    if (isPaged && !hasLocalFilter) {
+      params.append('page', page.toString());
+      params.append('per_page', perPage.toString());
+    }
+    if (query) {
+      params.append('query', query);
+    }
+    if (teamId !== null) {
+      params.append('team_id', teamId.toString());
+    }
+
+    const data = await fetchFleet(req.token, `/api/latest/fleet/vulnerabilities?${params.toString()}`);
+
+    let vulnerabilities = (data.vulnerabilities || []).map(vulnerability => ({
+      ...vulnerability,
+      severity: getSeverity(vulnerability.cvss_score),
+    }));
+    let count = data.count || 0;
+
+    if (hasLocalFilter) {
+      vulnerabilities = vulnerabilities.filter(vulnerability => vulnerability.severity === severity);
+      count = vulnerabilities.length;
+      if (isPaged) {
+        vulnerabilities = vulnerabilities.slice(page * perPage, (page + 1) * perPage);
+      }
+    }
+
+    res.json({ vulnerabilities, count });
+  } catch (err) {
+    console.error('Error listing vulnerabilities:', err);
+    res.status(502).json({ error: err.message });
+  }
+});
+
+export { router as vulnerabilityRoutes };
\ No newline at end of file
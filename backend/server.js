@@ -3,9 +3,28 @@ import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { createProxyMiddleware } from 'http-proxy-middleware';
+import { FLEET_URL } from './config.js';
 import { initializeDatabase } from './database.js';
 import { openSourceRoutes } from './routes/openSource.js';
+import { licenseRoutes } from './routes/licenses.js';
+import { policyRoutes } from './routes/policies.js';
 import softwareRemarksRoutes from './routes/softwareRemarks.js';
+import { softwareCommentsRoutes } from './routes/softwareComments.js';
+import { auditRoutes } from './routes/audit.js';
+import { softwareInventoryRoutes } from './routes/softwareInventory.js';
+import { snapshotRoutes } from './routes/snapshots.js';
+import { vulnerabilityRoutes } from './routes/vulnerabilities.js';
+import { hostRiskRoutes } from './routes/hostRisk.js';
+import { remediationRoutes } from './routes/remediation.js';
+import { riskExceptionRoutes } from './routes/riskExceptions.js';
+import { baselineRoutes } from './routes/baselines.js';
+import { reportScheduleRoutes } from './routes/reportSchedules.js';
+import { exportRoutes } from './routes/exports.js';
+import { exportTemplateRoutes } from './routes/exportTemplates.js';
+import { entitlementRoutes } from './routes/entitlements.js';
+import { startSnapshotJob } from './snapshots.js';
+import { startRemediationVerifyJob } from './remediation.js';
+import { startReportScheduler } from './reports.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -13,9 +32,6 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = 3001;
 
-// Initialize database
-initializeDatabase();
-
 // Middleware
 app.use(cors({
   origin: 'https://svreport.luminousindia.com',
@@ -28,11 +44,26 @@ app.use(express.json());
 
 // API Routes (local)
 app.use('/api', openSourceRoutes);
+app.use('/api', licenseRoutes);
+app.use('/api', policyRoutes);
 app.use('/api', softwareRemarksRoutes);
+app.use('/api', softwareCommentsRoutes);
+app.use('/api', auditRoutes);
+app.use('/api', snapshotRoutes);
+app.use('/api', softwareInventoryRoutes);
+app.use('/api', vulnerabilityRoutes);
+app.use('/api', hostRiskRoutes);
+app.use('/api', remediationRoutes);
+app.use('/api', riskExceptionRoutes);
+app.use('/api', baselineRoutes);
+app.use('/api', reportScheduleRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', exportTemplateRoutes);
+app.use('/api', entitlementRoutes);
 
 // Proxy middleware for external API
 const proxyOptions = {
-  target: 'https://svscan.luminousindia.com',
+  target: FLEET_URL,
   changeOrigin: true,
   secure: true,
   timeout: 30000,
@@ -113,6 +144,17 @@ app.use((err, req, res, next) => {
   });
 });
 
-app.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
-});
\ No newline at end of file
+// Only accept requests once the schema is current
+initializeDatabase()
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`Server is running on port ${PORT}`);
+    });
+    startSnapshotJob();
+    startRemediationVerifyJob();
+    startReportScheduler();
+  })
+  .catch((err) => {
+    console.error('Database migration failed:', err.message);
+    process.exit(1);
+  });
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { getDatabase, withTransaction } from './database.js';
+import { fetchFleet } from './fleet.js';
+import { FLEET_API_TOKEN, SNAPSHOT_INTERVAL_HOURS, SNAPSHOT_RETENTION_DAYS } from './config.js';
+import { compareVersions } from './versions.js';
+
+const db = getDatabase();
+
+const isVulnerable = (title) => (title.versions || []).some(version => version.vulnerabilities?.length);
+
+const saveSnapshot = (summary, titles) => withTransaction(async (run) => {
+  const { lastID: snapshotId } = await run(
+    `INSERT INTO inventory_snapshots
+      (total_hosts, online_count, offline_count, mia_count, new_count, software_title_count, vulnerable_title_count)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      summary.totals_hosts_count || 0,
+      summary.online_count || 0,
+      summary.offline_count || 0,
+      summary.mia_count || 0,
+      summary.new_count || 0,
+      titles.length,
+      titles.filter(isVulnerable).length,
+    ]
+  );
+
+  for (const title of titles) {
+    await run(
+      `INSERT INTO snapshot_software_titles
+        (snapshot_id, software_title_id, name, source, hosts_count, versions, vulnerable)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        snapshotId,
+        title.id,
+        title.name,
+        title.source || null,
+        title.hosts_count || 0,
+        (title.versions || []).map(version => version.version).join(', '),
+        isVulnerable(title) ? 1 : 0,
+      ]
+    );
+  }
+  return snapshotId;
+});
+
+// Pull host counts and the software inventory from Fleet into a new snapshot
+export const takeSnapshot = async (token) => {
+  const [summary, titlesData] = await Promise.all([
+    fetchFleet(token, '/api/latest/fleet/host_summary'),
+    fetchFleet(token, '/api/latest/fleet/software/titles?order_key=hosts_count&order_direction=desc'),
+  ]);
+
+  return saveSnapshot(summary, titlesData.software_titles || []);
+};
+
+// Drop snapshots older than the retention window
+export const pruneSnapshots = (retentionDays = SNAPSHOT_RETENTION_DAYS) => new Promise((resolve, reject) => {
+  const cutoff = `-${retentionDays} days`;
+  db.serialize(() => {
+    db.run(
+      `DELETE FROM snapshot_software_titles WHERE snapshot_id IN
+        (SELECT id FROM inventory_snapshots WHERE taken_at < datetime('now', ?))`,
+      [cutoff]
+    );
+    db.run("DELETE FROM inventory_snapshots WHERE taken_at < datetime('now', ?)", [cutoff], function(err) {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(this.changes);
+    });
+  });
+});
+
+const runScheduledSnapshot = async () => {
+  try {
+    const snapshotId = await takeSnapshot(FLEET_API_TOKEN);
+    const pruned = await pruneSnapshots();
+    console.log(`Took inventory snapshot ${snapshotId}${pruned ? `, pruned ${pruned} old snapshot(s)` : ''}`);
+  } catch (err) {
+    console.error('Error taking inventory snapshot:', err);
+  }
+};
+
+// Snapshot on a timer; a restart only snapshots early if the last one is overdue
+export const startSnapshotJob = () => {
+  if (!FLEET_API_TOKEN) {
+    console.warn('FLEET_API_TOKEN is not set; scheduled inventory snapshots are disabled');
+    return;
+  }
+
+  const intervalMs = SNAPSHOT_INTERVAL_HOURS * 60 * 60 * 1000;
+
+  db.get("SELECT (julianday('now') - julianday(MAX(taken_at))) * 86400000 AS age_ms FROM inventory_snapshots", (err, row) => {
+    if (err) {
+      console.error('Error reading last snapshot time:', err);
+    } else if (row.age_ms === null || row.age_ms >= intervalMs) {
+      runScheduledSnapshot();
+    }
+  });
+
+  setInterval(runScheduledSnapshot, intervalMs);
+};
+
+const splitVersions = (versions) => (versions ? versions.split(', ').filter(Boolean) : []);
+
+const highestVersion = (versions) => [...versions].sort(compareVersions).pop();
+
+// Work out what changed between the software title rows of two snapshots
+export const diffSnapshotTitles = (fromTitles, toTitles) => {
+  const before = new Map(fromTitles.map(title => [title.software_title_id, title]));
+  const after = new Map(toTitles.map(title => [title.software_title_id, title]));
+
+  const added = toTitles.filter(title => !before.has(title.software_title_id));
+  const removed = fromTitles.filter(title => !after.has(title.software_title_id));
+  const versionChanges = [];
+  const hostCountChanges = [];
+
+  toTitles.forEach(title => {
+    const previous = before.get(title.software_title_id);
+    if (!previous) {
+      return;
+    }
+
+    const fromVersions = splitVersions(previous.versions);
+    const toVersions = splitVersions(title.versions);
+    const addedVersions = toVersions.filter(version => !fromVersions.includes(version));
+    const removedVersions = fromVersions.filter(version => !toVersions.includes(version));
+
+    if (addedVersions.length || removedVersions.length) {
+      const fromHighest = highestVersion(fromVersions);
+      const toHighest = highestVersion(toVersions);
+      const direction = !fromHighest || !toHighest ? 'changed'
+        : compareVersions(toHighest, fromHighest) > 0 ? 'upgrade'
+        : compareVersions(toHighest, fromHighest) < 0 ? 'downgrade'
+        : 'changed';
+
+      versionChanges.push({
+        software_title_id: title.software_title_id,
+        name: title.name,
+        direction,
+        from_versions: fromVersions,
+        to_versions: toVersions,
+        added_versions: addedVersions,
+        removed_versions: removedVersions,
+      });
+    }
+
+    if (title.hosts_count !== previous.hosts_count) {
+      hostCountChanges.push({
+        software_title_id: title.software_title_id,
+        name: title.name,
+        from_hosts: previous.hosts_count,
+        to_hosts: title.hosts_count,
+        delta: title.hosts_count - previous.hosts_count,
+      });
+    }
+  });
+
+  hostCountChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return { added, removed, version_changes: versionChanges, host_count_changes: hostCountChanges };
+};
@@ -0,0 +1,5 @@
+// Fleet team ids arrive as query strings or JSON numbers; anything else means the global scope
+export const parseTeamId = (value) => {
+  const teamId = parseInt(value, 10);
+  return Number.isNaN(teamId) ? null : teamId;
+};
@@ -0,0 +1,77 @@
+// Words that mark a pre-release, ranked in release order; a pre-release sorts before its release
+const PRERELEASE_RANKS = new Map([
+  ['dev', 0], ['snapshot', 0], ['nightly', 0], ['canary', 0],
+  ['alpha', 1], ['a', 1],
+  ['beta', 2], ['b', 2],
+  ['pre', 3], ['preview', 3],
+  ['rc', 4],
+]);
+
+const isPrerelease = (token) => PRERELEASE_RANKS.has(token);
+
+// Split a version into an epoch and numeric/word tokens: "v2:1.8.0_391-rc1+build5"
+// becomes epoch 2 and [1, 8, 0, 391, 'rc', 1]; build metadata after "+" is dropped
+const parseVersion = (version) => {
+  let value = String(version ?? '').trim().replace(/^v(?=\d)/i, '');
+  let epoch = 0;
+  const epochMatch = value.match(/^(\d+):(.+)$/);
+  if (epochMatch) {
+    epoch = Number(epochMatch[1]);
+    value = epochMatch[2];
+  }
+  const tokens = (value.split('+')[0].match(/\d+|[a-z]+/gi) || [])
+    .map(token => (/^\d/.test(token) ? Number(token) : token.toLowerCase()));
+  return { epoch, tokens };
+};
+
+// Order versions across semver, dotted vendor schemes (Windows and Chrome builds, Java
+// updates), Debian epochs and revisions, and alpha/beta/rc pre-releases; negative when a < b
+export const compareVersions = (a, b) => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (left.epoch !== right.epoch) return Math.sign(left.epoch - right.epoch);
+
+  const length = Math.max(left.tokens.length, right.tokens.length);
+  for (let i = 0; i < length; i++) {
+    // A missing number is zero, so "1" equals "1.0" and "1.0b3" sorts before both
+    const x = left.tokens[i] ?? (typeof right.tokens[i] === 'number' ? 0 : undefined);
+    const y = right.tokens[i] ?? (typeof left.tokens[i] === 'number' ? 0 : undefined);
+    if (x === y) continue;
+
+    // "1.0" is newer than "1.0rc1" but older than "1.0-r2"
+    if (x === undefined) return isPrerelease(y) ? 1 : -1;
+    if (y === undefined) return isPrerelease(x) ? -1 : 1;
+
+    if (typeof x === 'number' && typeof y === 'number') return Math.sign(x - y);
+    if (typeof x === 'number') return 1;
+    if (typeof y === 'number') return -1;
+
+    if (isPrerelease(x) && isPrerelease(y)) {
+      // "a" and "alpha" are the same stage
+      if (PRERELEASE_RANKS.get(x) === PRERELEASE_RANKS.get(y)) continue;
+      return Math.sign(PRERELEASE_RANKS.get(x) - PRERELEASE_RANKS.get(y));
+    }
+    if (isPrerelease(x) || isPrerelease(y)) return isPrerelease(x) ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+};
+
+// How much of a title's install base is on the baseline version or newer. Hosts with
+// several versions installed count once per version, as in Fleet's per-version counts.
+export const summarizeBaseline = (versions, baselineVersion) => {
+  const sorted = [...versions].sort((a, b) => compareVersions(b.version, a.version));
+  const outdated = sorted.filter(version => compareVersions(version.version, baselineVersion) < 0);
+  const hostsCount = sorted.reduce((total, version) => total + (version.hosts_count || 0), 0);
+  const outdatedHostsCount = outdated.reduce((total, version) => total + (version.hosts_count || 0), 0);
+
+  return {
+    latest_version: sorted[0]?.version ?? null,
+    hosts_count: hostsCount,
+    outdated_hosts_count: outdatedHostsCount,
+    compliance_percent: hostsCount > 0
+      ? Math.round(((hostsCount - outdatedHostsCount) / hostsCount) * 1000) / 10
+      : null,
+    outdated_versions: outdated.map(({ id, version, hosts_count }) => ({ id, version, hosts_count: hosts_count || 0 })),
+  };
+};
@@ -0,0 +1,12 @@
+// CVSS v3 severity bands; Fleet Free returns no score, which falls under 'unknown'
+const SEVERITY_BANDS = [
+  { value: 'critical', min: 9 },
+  { value: 'high', min: 7 },
+  { value: 'medium', min: 4 },
+  { value: 'low', min: 0 },
+];
+
+export const getSeverity = (score) => {
+  if (score === null || score === undefined) return 'unknown';
+  return SEVERITY_BANDS.find(band => score >= band.min).value;
+};
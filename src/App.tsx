@@ -1,6 +1,7 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { TeamProvider } from './contexts/TeamContext';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Layout } from './components/Layout';
 import { LoginPage } from './pages/LoginPage';
@@ -10,6 +11,17 @@ import { SoftwareListPage } from './pages/SoftwareListPage';
 import { SoftwareDetailsPage } from './pages/SoftwareDetailsPage';
 import { OpenSourceSoftwarePage } from './pages/OpenSourceSoftwarePage';
 import { VersionDetailsPage } from './pages/VersionDetailsPage';
+import { ActivityPage } from './pages/ActivityPage';
+import { PolicyViolationsPage } from './pages/PolicyViolationsPage';
+import { TrendsPage } from './pages/TrendsPage';
+import { WhatChangedPage } from './pages/WhatChangedPage';
+import { VulnerabilitiesPage } from './pages/VulnerabilitiesPage';
+import { VulnerabilityDetailsPage } from './pages/VulnerabilityDetailsPage';
+import { RemediationPage } from './pages/RemediationPage';
+import { ExceptionsPage } from './pages/ExceptionsPage';
+import { OutdatedSoftwarePage } from './pages/OutdatedSoftwarePage';
+import { LicenseCompliancePage } from './pages/LicenseCompliancePage';
+import { ReportSchedulesPage } from './pages/ReportSchedulesPage';
 
 function App() {
   return (
@@ -22,16 +34,29 @@ function App() {
             path="/*"
             element={
               <ProtectedRoute>
-                <Layout>
-                  <Routes>
-                    <Route path="/home" element={<HomePage />} />
-                    <Route path="/host/:id" element={<HostDetailsPage />} />
-                    <Route path="/software" element={<SoftwareListPage />} />
-                    <Route path="/software/open-source" element={<OpenSourceSoftwarePage />} />
-                    <Route path="/software/:id" element={<SoftwareDetailsPage />} />
-                    <Route path="/software/versions/:id" element={<VersionDetailsPage />} />
-                  </Routes>
-                </Layout>
+                <TeamProvider>
+                  <Layout>
+                    <Routes>
+                      <Route path="/home" element={<HomePage />} />
+                      <Route path="/host/:id" element={<HostDetailsPage />} />
+                      <Route path="/software" element={<SoftwareListPage />} />
+                      <Route path="/software/open-source" element={<OpenSourceSoftwarePage />} />
+                      <Route path="/software/:id" element={<SoftwareDetailsPage />} />
+                      <Route path="/software/versions/:id" element={<VersionDetailsPage />} />
+                      <Route path="/software/policy-violations" element={<PolicyViolationsPage />} />
+                      <Route path="/software/outdated" element={<OutdatedSoftwarePage />} />
+                      <Route path="/software/license-compliance" element={<LicenseCompliancePage />} />
+                      <Route path="/vulnerabilities" element={<VulnerabilitiesPage />} />
+                      <Route path="/vulnerabilities/:cve" element={<VulnerabilityDetailsPage />} />
+                      <Route path="/remediation" element={<RemediationPage />} />
+                      <Route path="/exceptions" element={<ExceptionsPage />} />
+                      <Route path="/trends" element={<TrendsPage />} />
+                      <Route path="/trends/changes" element={<WhatChangedPage />} />
+                      <Route path="/activity" element={<ActivityPage />} />
+                      <Route path="/reports" element={<ReportSchedulesPage />} />
+                    </Routes>
+                  </Layout>
+                </TeamProvider>
               </ProtectedRoute>
             }
           />
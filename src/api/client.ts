@@ -0,0 +1,107 @@
+// Thin wrapper around fetch for the Fleet proxy and the local /api routes
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  params?: Record<string, QueryValue>;
+  signal?: AbortSignal;
+}
+
+// Fleet reports failures as { message, errors: [{ name, reason }] }; local routes as { error }
+interface ErrorBody {
+  message?: string;
+  error?: string;
+  errors?: Array<{ name?: string; reason?: string }>;
+}
+
+export class ApiError extends Error {
+  status: number;
+  errors: string[];
+
+  constructor(status: number, message: string, errors: string[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const buildQuery = (params?: Record<string, QueryValue>) => {
+  const search = new URLSearchParams();
+  Object.entries(params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      search.append(key, String(value));
+    }
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+};
+
+const toApiError = async (response: Response) => {
+  const body: ErrorBody = await response.json().catch(() => ({}));
+  const errors = (body.errors || [])
+    .map(item => item.reason || item.name || '')
+    .filter(Boolean);
+  const message = body.error || errors[0] || body.message || `HTTP ${response.status}: ${response.statusText}`;
+  return new ApiError(response.status, message, errors);
+};
+
+export interface ApiClient {
+  get<T>(path: string, options?: RequestOptions): Promise<T>;
+  post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T>;
+  put<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T>;
+  delete<T>(path: string, options?: RequestOptions): Promise<T>;
+  // GET that hands back the raw response, for reading large downloads as a stream
+  stream(path: string, options?: RequestOptions): Promise<Response>;
+}
+
+// onUnauthorized runs on any 401 so a stale token logs the user out from every page the same way
+export const createApiClient = (token: string | null, onUnauthorized?: () => void): ApiClient => {
+  const send = async (method: string, path: string, body: unknown, options: RequestOptions = {}) => {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(`${path}${buildQuery(options.params)}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: options.signal,
+    });
+
+    if (response.status === 401 && token) {
+      onUnauthorized?.();
+    }
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    return response;
+  };
+
+  const request = async <T>(method: string, path: string, body: unknown, options: RequestOptions = {}): Promise<T> => {
+    const response = await send(method, path, body, options);
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json();
+  };
+
+  return {
+    get: (path, options) => request('GET', path, undefined, options),
+    post: (path, body, options) => request('POST', path, body, options),
+    put: (path, body, options) => request('PUT', path, body, options),
+    delete: (path, options) => request('DELETE', path, undefined, options),
+    stream: (path, options) => send('GET', path, undefined, options),
+  };
+};
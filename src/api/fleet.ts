@@ -0,0 +1,51 @@
+import { ApiClient, QueryValue } from './client';
+import {
+  CountResponse,
+  HostDetails,
+  HostSoftwareResponse,
+  HostsResponse,
+  HostSummary,
+  SoftwareTitle,
+  SoftwareTitlesResponse,
+  VersionDetails,
+} from './types';
+
+// Typed Fleet endpoints, reached through the /api/latest/fleet proxy
+
+type Params = Record<string, QueryValue>;
+
+const FLEET = '/api/latest/fleet';
+
+export const getHostSummary = (api: ApiClient, params: Params, signal?: AbortSignal) =>
+  api.get<HostSummary>(`${FLEET}/host_summary`, { params, signal });
+
+export const countHosts = (api: ApiClient, params: Params, signal?: AbortSignal) =>
+  api.get<CountResponse>(`${FLEET}/hosts/count`, { params, signal });
+
+// Fleet lists a label's members under /labels/:id/hosts instead of taking label_id on /hosts
+export const listHosts = (api: ApiClient, { label_id, ...params }: Params, signal?: AbortSignal) =>
+  api.get<HostsResponse>(label_id ? `${FLEET}/labels/${label_id}/hosts` : `${FLEET}/hosts`, { params, signal });
+
+export const getHost = async (api: ApiClient, id: number | string, signal?: AbortSignal) => {
+  const data = await api.get<{ host: HostDetails }>(`${FLEET}/hosts/${id}`, {
+    params: { exclude_software: true },
+    signal,
+  });
+  return data.host;
+};
+
+export const listHostSoftware = (api: ApiClient, id: number | string, params: Params, signal?: AbortSignal) =>
+  api.get<HostSoftwareResponse>(`${FLEET}/hosts/${id}/software`, { params, signal });
+
+export const listSoftwareTitles = (api: ApiClient, params: Params, signal?: AbortSignal) =>
+  api.get<SoftwareTitlesResponse>(`${FLEET}/software/titles`, { params, signal });
+
+export const getSoftwareTitle = async (api: ApiClient, id: number | string, params: Params, signal?: AbortSignal) => {
+  const data = await api.get<{ software_title: SoftwareTitle }>(`${FLEET}/software/titles/${id}`, { params, signal });
+  return data.software_title;
+};
+
+export const getSoftwareVersion = async (api: ApiClient, id: number | string, params: Params, signal?: AbortSignal) => {
+  const data = await api.get<{ software: VersionDetails }>(`${FLEET}/software/versions/${id}`, { params, signal });
+  return data.software;
+};
@@ -0,0 +1,94 @@
+// App-level cache of GET responses keyed by path and query string
+
+export interface QueryState<T = unknown> {
+  data?: T;
+  error?: unknown;
+  // 0 until the first successful load, and again after invalidate()
+  updatedAt: number;
+  isFetching: boolean;
+  // Bumped by invalidate(), so mounted queries refetch even when their first load was dropped
+  version: number;
+}
+
+export interface QueryCache {
+  getState<T>(key: string): QueryState<T> | undefined;
+  fetch<T>(key: string, fetcher: () => Promise<T>, staleTime?: number): Promise<T>;
+  subscribe(key: string, listener: () => void): () => void;
+  invalidate(...prefixes: string[]): void;
+}
+
+export const createQueryCache = (): QueryCache => {
+  const states = new Map<string, QueryState>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  // States are replaced rather than mutated so subscribers can compare snapshots by reference
+  const setState = (key: string, update: Partial<QueryState>) => {
+    const previous = states.get(key) || { updatedAt: 0, isFetching: false, version: 0 };
+    states.set(key, { ...previous, ...update });
+    listeners.get(key)?.forEach(listener => listener());
+  };
+
+  const fetch = <T>(key: string, fetcher: () => Promise<T>, staleTime = 0): Promise<T> => {
+    // Concurrent callers for the same key share one request
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const current = states.get(key) as QueryState<T> | undefined;
+    if (current?.updatedAt && Date.now() - current.updatedAt < staleTime) {
+      return Promise.resolve(current.data as T);
+    }
+
+    setState(key, { isFetching: true });
+    // A request superseded by invalidate() must not overwrite the entry with pre-mutation data
+    const isCurrent = () => inFlight.get(key) === request;
+    const request: Promise<T> = fetcher()
+      .then(data => {
+        if (isCurrent()) {
+          setState(key, { data, error: undefined, updatedAt: Date.now(), isFetching: false });
+        }
+        return data;
+      })
+      .catch(error => {
+        // Keep the last good data so a failed revalidation doesn't blank the page
+        if (isCurrent()) {
+          setState(key, { error, isFetching: false });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (isCurrent()) {
+          inFlight.delete(key);
+        }
+      });
+
+    inFlight.set(key, request);
+    return request;
+  };
+
+  const subscribe = (key: string, listener: () => void) => {
+    const keyListeners = listeners.get(key) || new Set();
+    keyListeners.add(listener);
+    listeners.set(key, keyListeners);
+    return () => {
+      keyListeners.delete(listener);
+    };
+  };
+
+  // Marks every entry under the given path prefixes stale; mounted queries refetch, others on next use
+  const invalidate = (...prefixes: string[]) => {
+    [...states.keys()]
+      .filter(key => prefixes.some(prefix => key.startsWith(prefix)))
+      .forEach(key => {
+        inFlight.delete(key);
+        setState(key, { updatedAt: 0, isFetching: false, version: (states.get(key)?.version || 0) + 1 });
+      });
+  };
+
+  return {
+    getState: <T>(key: string) => states.get(key) as QueryState<T> | undefined,
+    fetch,
+    subscribe,
+    invalidate,
+  };
+};
@@ -0,0 +1,233 @@
+import { Severity } from '../utils/vulnerabilities';
+
+// Response shapes shared by the pages; only the fields the app reads are listed
+
+export interface Host {
+  id: number;
+  display_name: string;
+  status: string;
+  issues: { total_issues_count: number };
+  gigs_disk_space_available: number;
+  os_version: string;
+  osquery_version: string;
+  primary_ip: string;
+  detail_updated_at: string;
+  last_restarted_at: string;
+  hostname: string;
+  uuid: string;
+  hardware_serial: string;
+  hardware_vendor: string;
+  hardware_model: string;
+  // Bytes
+  memory: number;
+  cpu_brand: string;
+  cpu_logical_cores: number;
+  platform: string;
+  public_ip: string;
+  primary_mac: string;
+  team_name: string | null;
+}
+
+export interface HostDetails extends Host {
+  uptime: number;
+}
+
+export interface HostSummary {
+  totals_hosts_count: number;
+  online_count: number;
+  offline_count: number;
+  mia_count: number;
+  missing_30_days_count: number;
+  new_count: number;
+  all_linux_count: number;
+}
+
+export interface Team {
+  id: number;
+  name: string;
+}
+
+export interface Label {
+  id: number;
+  name: string;
+  label_type: string;
+}
+
+export interface OsVersion {
+  os_version_id: number;
+  name: string;
+  hosts_count: number;
+}
+
+export interface InstalledVersion {
+  version: string;
+  last_opened_at: string | null;
+  vulnerabilities: string[];
+  installed_paths: string[];
+}
+
+export interface HostSoftware {
+  id: number;
+  name: string;
+  source: string;
+  status: string | null;
+  installed_versions: InstalledVersion[];
+  software_package: unknown | null;
+  app_store_app: unknown | null;
+}
+
+export interface SoftwareVersion {
+  id: number;
+  version: string;
+  vulnerabilities: string[] | null;
+  hosts_count?: number;
+}
+
+export interface SoftwareTitle {
+  id: number;
+  name: string;
+  source: string;
+  hosts_count: number;
+  versions_count: number;
+  versions: SoftwareVersion[];
+}
+
+export interface Vulnerability {
+  cve: string;
+  cvss_score: number;
+  details_link: string;
+}
+
+// Software version affected by a CVE, as listed by Fleet's vulnerabilities endpoints
+export interface AffectedSoftware {
+  id: number;
+  name: string;
+  version: string;
+  source: string;
+  hosts_count: number;
+  resolved_in_version: string | null;
+}
+
+export interface AffectedOsVersion {
+  os_version_id: number;
+  name: string;
+  hosts_count?: number;
+  resolved_in_version: string | null;
+}
+
+// CVE-level record; scores, EPSS and the CISA KEV flag need Fleet Premium
+export interface FleetVulnerability {
+  cve: string;
+  details_link: string;
+  hosts_count: number;
+  hosts_count_updated_at: string | null;
+  cvss_score: number | null;
+  epss_probability: number | null;
+  cisa_known_exploit: boolean | null;
+  cve_published: string | null;
+  cve_description: string | null;
+  software: AffectedSoftware[] | null;
+  os_versions: AffectedOsVersion[] | null;
+}
+
+// Fleet vulnerability with the severity band added by /api/vulnerabilities
+export interface VulnerabilityListItem extends FleetVulnerability {
+  severity: Severity;
+}
+
+export interface VersionDetails {
+  id: number;
+  name: string;
+  version: string;
+  source: string;
+  browser: string;
+  generated_cpe: string;
+  vulnerabilities: Vulnerability[] | null;
+}
+
+// Fleet software title joined with local data by /api/software-inventory
+export interface InventoryTitle extends SoftwareTitle {
+  vendor: string;
+  open_source: boolean;
+  spdx_id: string | null;
+  license_category: string;
+  remark: string | null;
+  vulnerabilities_count: number;
+}
+
+export interface HostsResponse {
+  hosts: Host[];
+}
+
+export interface CountResponse {
+  count: number;
+}
+
+export interface HostSoftwareResponse {
+  software: HostSoftware[];
+  count: number;
+}
+
+export interface SoftwareTitlesResponse<T extends SoftwareTitle = SoftwareTitle> {
+  software_titles: T[];
+  count: number;
+}
+
+export interface TeamsResponse {
+  teams: Team[];
+}
+
+export interface LabelsResponse {
+  labels: Label[];
+}
+
+export interface OsVersionsResponse {
+  os_versions: OsVersion[];
+}
+
+export interface VulnerabilityResponse {
+  vulnerability: FleetVulnerability;
+  software: AffectedSoftware[] | null;
+  os_versions: AffectedOsVersion[] | null;
+}
+
+// Risk score computed by /api/host-risk from a host's CVEs
+export interface HostRiskSummary {
+  risk_score: number;
+  vulnerabilities_count: number;
+  known_exploited_count: number;
+  critical_count: number;
+  // CVEs left out of the score by an active risk exception
+  excepted_count: number;
+}
+
+export interface RankedHost extends Host, HostRiskSummary {
+  top_cves: string[];
+}
+
+export interface HostRiskResponse {
+  hosts: RankedHost[];
+  count: number;
+  generated_at: string | null;
+}
+
+// One CVE's contribution to a host's risk score
+export interface RiskVulnerability {
+  cve: string;
+  cvss_score: number | null;
+  epss_probability: number | null;
+  cisa_known_exploit: boolean;
+  software_name: string;
+  version: string;
+  score: number;
+}
+
+export interface HostRiskDetails extends HostRiskSummary {
+  host_id: number;
+  vulnerabilities: RiskVulnerability[];
+}
+
+export interface VulnerabilitiesResponse {
+  vulnerabilities: VulnerabilityListItem[];
+  count: number;
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { QueryValue, buildQuery } from './client';
+
+interface QueryOptions {
+  // How long a response is served without revalidating; cached data is shown either way
+  staleTime?: number;
+  enabled?: boolean;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+// Cached GET through the shared client: returns cached data at once and revalidates it in the background
+export const useApiQuery = <T>(
+  path: string,
+  params?: Record<string, QueryValue>,
+  { staleTime = DEFAULT_STALE_TIME, enabled = true }: QueryOptions = {}
+) => {
+  const { api, queryCache } = useAuth();
+  const key = `${path}${buildQuery(params)}`;
+
+  const subscribe = useCallback((listener: () => void) => queryCache.subscribe(key, listener), [queryCache, key]);
+  const state = useSyncExternalStore(subscribe, () => queryCache.getState<T>(key));
+
+  const load = useCallback(
+    (maxAge: number) => queryCache.fetch(key, () => api.get<T>(path, { params }), maxAge),
+    [queryCache, api, key]
+  );
+
+  // Refetch on mount, when the key changes and after each invalidation
+  const version = state?.version || 0;
+  useEffect(() => {
+    if (enabled) {
+      load(staleTime).catch(() => undefined);
+    }
+  }, [load, enabled, version]);
+
+  return {
+    data: state?.data,
+    error: state?.error,
+    isLoading: enabled && state?.data === undefined && !state?.error,
+    isFetching: !!state?.isFetching,
+    refetch: () => {
+      load(0).catch(() => undefined);
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { QueryValue } from './client';
+import { ExportProgress, downloadStream } from '../utils/export';
+
+// Download a CSV or JSON export streamed by one of the /api/exports routes, tracking rows received
+// so far. cancel() aborts the request, which rejects start() with an AbortError.
+export const useStreamExport = () => {
+  const { api } = useAuth();
+  const [controller, setController] = useState<AbortController | null>(null);
+  const [progress, setProgress] = useState<ExportProgress>({ rows: 0, total: null });
+
+  const start = async (path: string, params: Record<string, QueryValue>, filename: string, format: 'csv' | 'json') => {
+    const nextController = new AbortController();
+    setController(nextController);
+    setProgress({ rows: 0, total: null });
+    try {
+      const response = await api.stream(path, { params: { ...params, format }, signal: nextController.signal });
+      await downloadStream(response, filename, format, setProgress);
+    } finally {
+      setController(null);
+    }
+  };
+
+  return {
+    start,
+    cancel: () => controller?.abort(),
+    isExporting: controller !== null,
+    progress,
+  };
+};
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare, Reply, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isAbortError, getErrorMessage } from '../api/client';
+
+interface Comment {
+  id: number;
+  software_title_id: number;
+  parent_id: number | null;
+  body: string;
+  author_id: number | null;
+  author_name: string | null;
+  author_email: string | null;
+  created_at: string;
+}
+
+interface CommentThreadProps {
+  softwareTitleId: number;
+}
+
+const formatDate = (dateString: string) => {
+  if (!dateString) return 'Never';
+  try {
+    // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+    return new Date(`${dateString.replace(' ', 'T')}Z`).toLocaleString();
+  } catch {
+    return 'Invalid Date';
+  }
+};
+
+export const CommentThread: React.FC<CommentThreadProps> = ({ softwareTitleId }) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api, user } = useAuth();
+  const canComment = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchComments(controller.signal);
+    return () => controller.abort();
+  }, [softwareTitleId]);
+
+  const fetchComments = async (signal?: AbortSignal) => {
+    try {
+      setComments(await api.get<Comment[]>(`/api/software-comments/${softwareTitleId}`, { signal }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching comments:', error);
+      setError(getErrorMessage(error, 'Failed to fetch comments'));
+    }
+  };
+
+  const submitComment = async (body: string, parentId: number | null) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const created = await api.post<Comment>('/api/software-comments', {
+        software_title_id: softwareTitleId,
+        parent_id: parentId,
+        body,
+      });
+      setComments(prev => [...prev, created]);
+      if (parentId === null) {
+        setNewComment('');
+      } else {
+        setReplyTo(null);
+        setReplyText('');
+      }
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      setError(getErrorMessage(error, 'Failed to add comment'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deleteComment = async (commentId: number) => {
+    try {
+      await api.delete(`/api/software-comments/${commentId}`);
+      // The server removes replies too, so refetch rather than pruning locally
+      fetchComments();
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      setError(getErrorMessage(error, 'Failed to delete comment'));
+    }
+  };
+
+  const repliesByParent = new Map<number | null, Comment[]>();
+  comments.forEach(comment => {
+    const siblings = repliesByParent.get(comment.parent_id) || [];
+    siblings.push(comment);
+    repliesByParent.set(comment.parent_id, siblings);
+  });
+
+  const renderComments = (parentId: number | null, depth: number): React.ReactNode => {
+    const thread = repliesByParent.get(parentId) || [];
+    return thread.map(comment => (
+      <div key={comment.id} className={depth > 0 ? 'ml-6 pl-4 border-l-2 border-gray-100' : ''}>
+        <div className="py-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">{comment.author_name || comment.author_email || 'Unknown'}</span>
+              <span className="ml-2 text-gray-500">{formatDate(comment.created_at)}</span>
+            </div>
+            <div className="flex items-center space-x-3">
+              {canComment && (
+                <button
+                  onClick={() => {
+                    setReplyTo(comment.id);
+                    setReplyText('');
+                  }}
+                  className="flex items-center text-xs text-gray-500 hover:text-blue-600 transition-colors duration-200"
+                >
+                  <Reply className="h-3 w-3 mr-1" />
+                  Reply
+                </button>
+              )}
+              {(comment.author_id === user?.id || user?.global_role === 'admin') && canComment && (
+                <button
+                  onClick={() => deleteComment(comment.id)}
+                  className="flex items-center text-xs text-gray-500 hover:text-red-600 transition-colors duration-200"
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+          <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+          {replyTo === comment.id && (
+            <div className="mt-2 space-y-2">
+              <textarea
+                rows={2}
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Write a reply..."
+              />
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => setReplyTo(null)}
+                  className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => submitComment(replyText, comment.id)}
+                  disabled={isSubmitting || !replyText.trim()}
+                  className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  Reply
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+        {renderComments(comment.id, depth + 1)}
+      </div>
+    ));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Discussion</h3>
+        <p className="text-sm text-gray-600">Comments about this software</p>
+      </div>
+
+      <div className="px-6 py-2 divide-y divide-gray-100">
+        {error && <p className="py-3 text-sm text-red-600">{error}</p>}
+        {comments.length === 0 ? (
+          <div className="text-center py-8">
+            <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No comments yet</p>
+          </div>
+        ) : (
+          renderComments(null, 0)
+        )}
+      </div>
+
+      {canComment && (
+        <div className="px-6 py-4 border-t border-gray-200 space-y-2">
+          <textarea
+            rows={3}
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Add a comment..."
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={() => submitComment(newComment, null)}
+              disabled={isSubmitting || !newComment.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isSubmitting ? 'Posting...' : 'Comment'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
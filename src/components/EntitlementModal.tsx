@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { useApiQuery } from '../api/useApiQuery';
+import { SoftwareTitlesResponse } from '../api/types';
+import { EntitlementChanges, LicenseEntitlement } from '../utils/entitlements';
+
+interface EntitlementModalProps {
+  // Omitted when adding an entitlement, which then asks for the title
+  entitlement?: LicenseEntitlement;
+  isSaving: boolean;
+  onSave: (changes: EntitlementChanges) => void;
+  onClose: () => void;
+}
+
+export const EntitlementModal: React.FC<EntitlementModalProps> = ({ entitlement, isSaving, onSave, onClose }) => {
+  const [title, setTitle] = useState<{ id: number; name: string } | null>(
+    entitlement ? { id: entitlement.software_title_id, name: entitlement.name } : null
+  );
+  const [seats, setSeats] = useState(entitlement ? String(entitlement.seats) : '');
+  const [contractEnd, setContractEnd] = useState(entitlement?.contract_end || '');
+  const [costPerSeat, setCostPerSeat] = useState(entitlement?.cost_per_seat?.toString() ?? '');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Seats cover every team, so titles are searched across all of them
+  const titlesQuery = useApiQuery<SoftwareTitlesResponse>('/api/latest/fleet/software/titles', {
+    query: debouncedSearchTerm,
+    order_key: 'hosts_count',
+    order_direction: 'desc',
+    page: 0,
+    per_page: 20,
+  }, { enabled: !entitlement });
+  const titles = titlesQuery.data?.software_titles || [];
+
+  const seatCount = Number(seats);
+  const cost = Number(costPerSeat);
+  const isValid = !!title
+    && seats.trim() !== '' && Number.isInteger(seatCount) && seatCount >= 0
+    && (costPerSeat.trim() === '' || (Number.isFinite(cost) && cost >= 0));
+
+  const handleSave = () => {
+    if (!title) return;
+
+    onSave({
+      software_title_id: title.id,
+      name: title.name,
+      seats: seatCount,
+      contract_end: contractEnd || null,
+      cost_per_seat: costPerSeat.trim() === '' ? null : cost,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">{entitlement ? 'License Entitlement' : 'Add License Entitlement'}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        {entitlement ? (
+          <p className="text-sm text-gray-600 mb-4">{entitlement.name}</p>
+        ) : (
+          <div className="mb-4">
+            <span className="block text-sm font-medium text-gray-700 mb-2">Software</span>
+            <div className="relative mb-2">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Search software titles..."
+              />
+            </div>
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {titlesQuery.isLoading ? (
+                <div className="px-3 py-2 text-sm text-gray-500">Loading titles...</div>
+              ) : titles.length === 0 ? (
+                <div className="px-3 py-2 text-sm text-gray-500">No titles found.</div>
+              ) : (
+                titles.map(item => (
+                  <label key={item.id} className="flex items-center justify-between px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                    <span className="flex items-center">
+                      <input
+                        type="radio"
+                        name="entitlement-title"
+                        checked={title?.id === item.id}
+                        onChange={() => setTitle({ id: item.id, name: item.name })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 mr-2"
+                      />
+                      {item.name}
+                    </span>
+                    <span className="text-xs text-gray-500">{item.hosts_count} hosts</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+        <div className="mb-4">
+          <label htmlFor="entitlement-seats" className="block text-sm font-medium text-gray-700 mb-2">
+            Purchased Seats
+          </label>
+          <input
+            id="entitlement-seats"
+            type="number"
+            min={0}
+            step={1}
+            value={seats}
+            onChange={(e) => setSeats(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="mb-4">
+          <label htmlFor="entitlement-contract-end" className="block text-sm font-medium text-gray-700 mb-2">
+            Contract End
+          </label>
+          <input
+            id="entitlement-contract-end"
+            type="date"
+            value={contractEnd}
+            onChange={(e) => setContractEnd(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="mb-6">
+          <label htmlFor="entitlement-cost" className="block text-sm font-medium text-gray-700 mb-2">
+            Cost per Seat
+          </label>
+          <input
+            id="entitlement-cost"
+            type="number"
+            min={0}
+            step="0.01"
+            value={costPerSeat}
+            onChange={(e) => setCostPerSeat(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Optional"
+          />
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isValid}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
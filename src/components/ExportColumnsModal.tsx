@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { ColumnChoice, ColumnSelection, ExportSheet, ExportTemplate } from '../utils/export';
+
+interface ExportColumnsModalProps {
+  sheets: ExportSheet[];
+  selection: ColumnSelection;
+  // The saved template the selection came from, if any
+  template?: ExportTemplate;
+  isSaving: boolean;
+  error: string | null;
+  onApply: (selection: ColumnSelection) => void;
+  // Updates the template when the name is unchanged, otherwise saves a new one
+  onSaveTemplate: (name: string, selection: ColumnSelection) => void;
+  onDeleteTemplate: (template: ExportTemplate) => void;
+  onClose: () => void;
+}
+
+interface ColumnRow {
+  key: string;
+  header: string;
+  defaultHeader: string;
+  included: boolean;
+}
+
+// Picked columns first in their chosen order, then the rest of the sheet's columns unticked
+const toRows = (sheet: ExportSheet, choices?: ColumnChoice[]): ColumnRow[] => {
+  const picked = (choices || []).flatMap(choice => {
+    const column = sheet.columns.find(item => item.key === choice.key);
+    return column ? [{ key: column.key, header: choice.header, defaultHeader: column.header, included: true }] : [];
+  });
+  if (picked.length === 0) {
+    return sheet.columns.map(column => ({
+      key: column.key,
+      header: column.header,
+      defaultHeader: column.header,
+      included: !column.optional,
+    }));
+  }
+
+  return [
+    ...picked,
+    ...sheet.columns
+      .filter(column => !picked.some(row => row.key === column.key))
+      .map(column => ({ key: column.key, header: column.header, defaultHeader: column.header, included: false })),
+  ];
+};
+
+export const ExportColumnsModal: React.FC<ExportColumnsModalProps> = ({
+  sheets,
+  selection,
+  template,
+  isSaving,
+  error,
+  onApply,
+  onSaveTemplate,
+  onDeleteTemplate,
+  onClose,
+}) => {
+  const [rowsBySheet, setRowsBySheet] = useState<Record<string, ColumnRow[]>>(() =>
+    Object.fromEntries(sheets.map(sheet => [sheet.name, toRows(sheet, selection[sheet.name])]))
+  );
+  const [templateName, setTemplateName] = useState(template?.name || '');
+
+  const updateRows = (sheetName: string, update: (rows: ColumnRow[]) => ColumnRow[]) => {
+    setRowsBySheet(prev => ({ ...prev, [sheetName]: update(prev[sheetName]) }));
+  };
+
+  const updateRow = (sheetName: string, index: number, changes: Partial<ColumnRow>) => {
+    updateRows(sheetName, rows => rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row)));
+  };
+
+  const moveRow = (sheetName: string, index: number, offset: number) => {
+    updateRows(sheetName, rows => {
+      const next = [...rows];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const toSelection = (): ColumnSelection => Object.fromEntries(
+    Object.entries(rowsBySheet).map(([sheetName, rows]) => [
+      sheetName,
+      rows
+        .filter(row => row.included)
+        .map(row => ({ key: row.key, header: row.header.trim() || row.defaultHeader })),
+    ])
+  );
+
+  // Every sheet needs at least one column
+  const isValid = Object.values(rowsBySheet).every(rows => rows.some(row => row.included));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Export Columns</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">Tick the columns to export, rename them and use the arrows to reorder.</p>
+        <div className="max-h-96 overflow-y-auto mb-4 space-y-4">
+          {sheets.map(sheet => (
+            <div key={sheet.name}>
+              {sheets.length > 1 && (
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{sheet.name}</h4>
+              )}
+              <div className="space-y-1">
+                {rowsBySheet[sheet.name].map((row, index, rows) => (
+                  <div key={row.key} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={row.included}
+                      onChange={(e) => updateRow(sheet.name, index, { included: e.target.checked })}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      aria-label={`Include ${row.defaultHeader}`}
+                    />
+                    <input
+                      type="text"
+                      value={row.header}
+                      onChange={(e) => updateRow(sheet.name, index, { header: e.target.value })}
+                      disabled={!row.included}
+                      placeholder={row.defaultHeader}
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-400"
+                    />
+                    <button
+                      onClick={() => moveRow(sheet.name, index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move up"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => moveRow(sheet.name, index, 1)}
+                      disabled={index === rows.length - 1}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move down"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mb-4">
+          <label htmlFor="export-template-name" className="block text-sm font-medium text-gray-700 mb-2">
+            Template name
+          </label>
+          <div className="flex items-center space-x-2">
+            <input
+              id="export-template-name"
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Audit columns"
+            />
+            <button
+              onClick={() => onSaveTemplate(templateName.trim(), toSelection())}
+              disabled={isSaving || !isValid || !templateName.trim()}
+              className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isSaving ? 'Saving...' : template && template.name === templateName.trim() ? 'Update Template' : 'Save Template'}
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Templates are only visible to you.</p>
+          {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+        </div>
+        <div className="flex items-center justify-between">
+          <div>
+            {template && (
+              <button
+                onClick={() => onDeleteTemplate(template)}
+                disabled={isSaving}
+                className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Delete Template
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(toSelection())}
+              disabled={!isValid}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Download, SlidersHorizontal } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../api/client';
+import { useApiQuery } from '../api/useApiQuery';
+import { ExportColumnsModal } from './ExportColumnsModal';
+import { ColumnSelection, EXPORT_FORMATS, ExportFormat, ExportSheet, ExportTemplate } from '../utils/export';
+
+interface ExportMenuProps {
+  // selection is empty while the default columns are picked
+  onExport: (format: ExportFormat, selection: ColumnSelection) => void | Promise<void>;
+  label?: string;
+  icon?: React.ComponentType<{ className?: string }>;
+  // Button colours and sizing, matching the page's other header buttons
+  className?: string;
+  disabled?: boolean;
+  isExporting?: boolean;
+  // Limits the formats offered, e.g. to the ones a streamed export can produce
+  formats?: ExportFormat[];
+  // Give both to offer the column chooser and the user's saved templates for this export
+  exportKey?: string;
+  sheets?: ExportSheet[];
+}
+
+const DEFAULT_CLASS_NAME = 'px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700';
+
+// Export button that asks for a format before exporting, and optionally which columns to include
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  label = 'Export',
+  icon: Icon = Download,
+  className = DEFAULT_CLASS_NAME,
+  disabled = false,
+  isExporting = false,
+  formats,
+  exportKey,
+  sheets,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showColumnsModal, setShowColumnsModal] = useState(false);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  // Columns applied from the chooser without saving them as a template
+  const [customSelection, setCustomSelection] = useState<ColumnSelection | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const { api, queryCache } = useAuth();
+  const canChooseColumns = !!exportKey && !!sheets;
+  // Every template the user has, shared by all export buttons through the query cache
+  const templatesQuery = useApiQuery<ExportTemplate[]>('/api/export-templates', {}, { enabled: canChooseColumns });
+  const templates = (templatesQuery.data || []).filter(template => template.export_key === exportKey);
+  const activeTemplate = templates.find(template => template.id === templateId);
+  const selection = customSelection || activeTemplate?.columns || {};
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSelect = (format: ExportFormat) => {
+    setIsOpen(false);
+    Promise.resolve(onExport(format, selection)).catch(error => console.error('Error exporting:', error));
+  };
+
+  const chooseTemplate = (id: number | null) => {
+    setTemplateId(id);
+    setCustomSelection(null);
+    setIsOpen(false);
+  };
+
+  const openColumnsModal = () => {
+    setSaveError(null);
+    setShowColumnsModal(true);
+    setIsOpen(false);
+  };
+
+  const handleApply = (columns: ColumnSelection) => {
+    setCustomSelection(columns);
+    setShowColumnsModal(false);
+  };
+
+  const handleSaveTemplate = async (name: string, columns: ColumnSelection) => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const template = activeTemplate && activeTemplate.name === name
+        ? await api.put<ExportTemplate>(`/api/export-templates/${activeTemplate.id}`, { name, columns })
+        : await api.post<ExportTemplate>('/api/export-templates', { export_key: exportKey, name, columns });
+      queryCache.invalidate('/api/export-templates');
+      chooseTemplate(template.id);
+      setShowColumnsModal(false);
+    } catch (error) {
+      console.error('Error saving export template:', error);
+      setSaveError(getErrorMessage(error, 'Failed to save export template'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: ExportTemplate) => {
+    if (!window.confirm(`Delete the export template "${template.name}"?`)) return;
+
+    setIsSaving(true);
+    try {
+      await api.delete(`/api/export-templates/${template.id}`);
+      queryCache.invalidate('/api/export-templates');
+      chooseTemplate(null);
+      setShowColumnsModal(false);
+    } catch (error) {
+      console.error('Error deleting export template:', error);
+      setSaveError(getErrorMessage(error, 'Failed to delete export template'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const menuItemClassName = 'flex items-center w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100';
+  const sectionClassName = 'px-4 pt-2 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const checkMark = (isActive: boolean) => (
+    <Check className={`h-4 w-4 mr-2 flex-shrink-0 text-blue-600 ${isActive ? '' : 'invisible'}`} />
+  );
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled || isExporting}
+        className={`flex items-center disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 ${className}`}
+      >
+        {isExporting ? (
+          <>
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
+            Exporting...
+          </>
+        ) : (
+          <>
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+            <ChevronDown className="h-4 w-4 ml-2" />
+          </>
+        )}
+      </button>
+      {isOpen && (
+        <div className={`absolute right-0 mt-2 ${canChooseColumns ? 'w-60' : 'w-44'} bg-white rounded-md shadow-lg border border-gray-200 py-1 z-20`}>
+          {canChooseColumns && (
+            <>
+              <div className={sectionClassName}>Columns</div>
+              <button onClick={() => chooseTemplate(null)} className={menuItemClassName}>
+                {checkMark(templateId === null && !customSelection)}
+                Default columns
+              </button>
+              {templates.map(template => (
+                <button key={template.id} onClick={() => chooseTemplate(template.id)} className={menuItemClassName}>
+                  {checkMark(template.id === templateId && !customSelection)}
+                  <span className="truncate">{template.name}</span>
+                </button>
+              ))}
+              {customSelection && (
+                <div className="flex items-center px-4 py-2 text-sm text-gray-700">
+                  {checkMark(true)}
+                  Custom (not saved)
+                </div>
+              )}
+              <button onClick={openColumnsModal} className="flex items-center w-full px-4 py-2 text-left text-sm text-blue-600 hover:bg-gray-100">
+                <SlidersHorizontal className="h-4 w-4 mr-2 flex-shrink-0" />
+                Choose columns...
+              </button>
+              <div className="border-t border-gray-200 my-1"></div>
+              <div className={sectionClassName}>Format</div>
+            </>
+          )}
+          {EXPORT_FORMATS.filter(format => !formats || formats.includes(format.value)).map(format => (
+            <button
+              key={format.value}
+              onClick={() => handleSelect(format.value)}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {showColumnsModal && sheets && (
+        <ExportColumnsModal
+          sheets={sheets}
+          selection={selection}
+          template={activeTemplate}
+          isSaving={isSaving}
+          error={saveError}
+          onApply={handleApply}
+          onSaveTemplate={handleSaveTemplate}
+          onDeleteTemplate={handleDeleteTemplate}
+          onClose={() => setShowColumnsModal(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ExportProgress as Progress } from '../utils/export';
+
+interface ExportProgressProps {
+  label: string;
+  progress: Progress;
+  onCancel: () => void;
+}
+
+// Progress bar for an export streamed from the server; without a total it only counts rows
+export const ExportProgress: React.FC<ExportProgressProps> = ({ label, progress, onCancel }) => {
+  const percent = progress.total
+    ? Math.min(100, Math.round((progress.rows / progress.total) * 100))
+    : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+          {label}
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="text-sm text-gray-500">
+            {progress.rows.toLocaleString()}
+            {progress.total !== null && ` of ${progress.total.toLocaleString()}`} rows
+            {percent !== null && ` (${percent}%)`}
+          </span>
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-1 text-sm text-gray-500 hover:text-red-600"
+          >
+            <X className="h-4 w-4" />
+            <span>Cancel</span>
+          </button>
+        </div>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+        <div
+          className={`h-2 rounded-full bg-blue-600 transition-all duration-200 ${percent === null ? 'animate-pulse w-full' : ''}`}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { useTeam } from '../contexts/TeamContext';
+import { ExportMenu } from './ExportMenu';
+import { useApiQuery } from '../api/useApiQuery';
+import { SoftwareTitlesResponse } from '../api/types';
+import { ColumnChoice, ColumnSelection, ExportColumnOption, ExportFormat } from '../utils/export';
+
+// Same keys and columns as the backend's host software export
+const HOST_SOFTWARE_COLUMNS: ExportColumnOption[] = [
+  { key: 'host', header: 'Host' },
+  { key: 'software', header: 'Software' },
+  { key: 'version', header: 'Version' },
+  { key: 'source', header: 'Source' },
+  { key: 'installed_path', header: 'Install Path' },
+  { key: 'last_opened_at', header: 'Last Opened' },
+  { key: 'host_id', header: 'Host ID', optional: true },
+  { key: 'hostname', header: 'Hostname', optional: true },
+  { key: 'hardware_serial', header: 'Serial Number', optional: true },
+  { key: 'team_name', header: 'Team', optional: true },
+  { key: 'software_title_id', header: 'Software Title ID', optional: true },
+  { key: 'vendor', header: 'Vendor', optional: true },
+  { key: 'open_source', header: 'Open Source', optional: true },
+  { key: 'vulnerabilities', header: 'Vulnerabilities', optional: true },
+];
+
+const SHEET_NAME = 'Host Software';
+
+type SoftwareScope = 'all' | 'open_source' | 'titles';
+
+export interface HostSoftwareExportOptions {
+  format: 'csv' | 'json';
+  columns?: ColumnChoice[];
+  open_source: boolean;
+  // Empty for every title
+  software_title_ids: number[];
+}
+
+interface HostSoftwareExportModalProps {
+  onExport: (options: HostSoftwareExportOptions) => void;
+  onClose: () => void;
+}
+
+// Options for the host-by-software export; the team comes from the layout's team selector
+export const HostSoftwareExportModal: React.FC<HostSoftwareExportModalProps> = ({ onExport, onClose }) => {
+  const { teamId } = useTeam();
+  const [scope, setScope] = useState<SoftwareScope>('all');
+  const [selectedTitles, setSelectedTitles] = useState<Array<{ id: number; name: string }>>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const titlesQuery = useApiQuery<SoftwareTitlesResponse>('/api/latest/fleet/software/titles', {
+    query: debouncedSearchTerm,
+    team_id: teamId,
+    order_key: 'hosts_count',
+    order_direction: 'desc',
+    page: 0,
+    per_page: 20,
+  }, { enabled: scope === 'titles' });
+  const titles = titlesQuery.data?.software_titles || [];
+
+  const toggleTitle = (title: { id: number; name: string }) => {
+    setSelectedTitles(prev => (prev.some(item => item.id === title.id)
+      ? prev.filter(item => item.id !== title.id)
+      : [...prev, title]));
+  };
+
+  const handleExport = (format: ExportFormat, selection: ColumnSelection) => {
+    if (format !== 'csv' && format !== 'json') return;
+
+    onExport({
+      format,
+      columns: selection[SHEET_NAME],
+      open_source: scope === 'open_source',
+      software_title_ids: scope === 'titles' ? selectedTitles.map(title => title.id) : [],
+    });
+  };
+
+  const scopeOptions: Array<{ value: SoftwareScope; label: string }> = [
+    { value: 'all', label: 'All software' },
+    { value: 'open_source', label: 'Open source software' },
+    { value: 'titles', label: 'Selected titles' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Host Software Export</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          One row for each host, installed version and install path, with when the software was last opened.
+        </p>
+        <div className="mb-4">
+          <span className="block text-sm font-medium text-gray-700 mb-2">Software</span>
+          <div className="space-y-2">
+            {scopeOptions.map(option => (
+              <label key={option.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="host-software-scope"
+                  checked={scope === option.value}
+                  onChange={() => setScope(option.value)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500 mr-2"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        {scope === 'titles' && (
+          <div className="mb-4">
+            {selectedTitles.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {selectedTitles.map(title => (
+                  <span
+                    key={title.id}
+                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                  >
+                    {title.name}
+                    <button onClick={() => toggleTitle(title)} className="ml-1 hover:text-blue-600">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="relative mb-2">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Search software titles..."
+              />
+            </div>
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {titlesQuery.isLoading ? (
+                <div className="px-3 py-2 text-sm text-gray-500">Loading titles...</div>
+              ) : titles.length === 0 ? (
+                <div className="px-3 py-2 text-sm text-gray-500">No titles found.</div>
+              ) : (
+                titles.map(title => (
+                  <label key={title.id} className="flex items-center justify-between px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                    <span className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedTitles.some(item => item.id === title.id)}
+                        onChange={() => toggleTitle({ id: title.id, name: title.name })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+                      />
+                      {title.name}
+                    </span>
+                    <span className="text-xs text-gray-500">{title.hosts_count} hosts</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <ExportMenu
+            onExport={handleExport}
+            disabled={scope === 'titles' && selectedTitles.length === 0}
+            formats={['csv', 'json']}
+            exportKey="host-software-matrix"
+            sheets={[{ name: SHEET_NAME, columns: HOST_SOFTWARE_COLUMNS }]}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
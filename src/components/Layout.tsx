@@ -1,7 +1,8 @@
 import React, { ReactNode } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, Home, Monitor, Package, Shield } from 'lucide-react';
+import { useTeam } from '../contexts/TeamContext';
+import { LogOut, Home, Monitor, Package, Shield, Ban, ArrowDownCircle, BadgeCheck, ShieldAlert, Wrench, ShieldCheck, TrendingUp, History, CalendarClock } from 'lucide-react';
 
 interface LayoutProps {
   children: ReactNode;
@@ -9,6 +10,7 @@ interface LayoutProps {
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { user, logout } = useAuth();
+  const { teams, teamId, setTeamId } = useTeam();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -21,8 +23,21 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
     { name: 'Dashboard', href: '/home', icon: Home },
     { name: 'Software', href: '/software', icon: Package },
     { name: 'Open Source', href: '/software/open-source', icon: Shield },
+    { name: 'Policy Violations', href: '/software/policy-violations', icon: Ban },
+    { name: 'Outdated Software', href: '/software/outdated', icon: ArrowDownCircle },
+    { name: 'License Compliance', href: '/software/license-compliance', icon: BadgeCheck },
+    { name: 'Vulnerabilities', href: '/vulnerabilities', icon: ShieldAlert },
+    { name: 'Remediation', href: '/remediation', icon: Wrench },
+    { name: 'Exceptions', href: '/exceptions', icon: ShieldCheck },
+    { name: 'Trends', href: '/trends', icon: TrendingUp },
+    { name: 'Activity', href: '/activity', icon: History },
+    { name: 'Reports', href: '/reports', icon: CalendarClock },
   ];
 
+  // Team-only users have no global role; show their team role instead
+  const roleLabel = user?.global_role
+    ?? (user?.teams.length ? `team ${user.teams[0].role}` : 'no role');
+
   const isActive = (href: string) => {
     return location.pathname === href || (href !== '/home' && location.pathname.startsWith(href));
   };
@@ -59,11 +74,23 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              {teams.length > 0 && (
+                <select
+                  value={teamId ?? ''}
+                  onChange={(e) => setTeamId(e.target.value ? Number(e.target.value) : null)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">All teams</option>
+                  {teams.map(team => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              )}
               <div className="text-sm text-gray-700">
                 <span className="font-medium">{user?.name}</span>
                 <span className="mx-2">•</span>
                 <span className="capitalize bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs">
-                  {user?.global_role}
+                  {roleLabel.replace('_', ' ')}
                 </span>
               </div>
               <button
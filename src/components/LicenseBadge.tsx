@@ -0,0 +1,21 @@
+import React from 'react';
+import { LicenseClassification, getCategoryInfo, formatLicense } from '../utils/licenses';
+
+interface LicenseBadgeProps {
+  license: LicenseClassification | undefined;
+}
+
+export const LicenseBadge: React.FC<LicenseBadgeProps> = ({ license }) => {
+  const category = getCategoryInfo(license?.category);
+
+  return (
+    <div className="flex items-center space-x-2 max-w-[180px]">
+      <span className="text-sm text-gray-900 truncate" title={formatLicense(license)}>
+        {formatLicense(license)}
+      </span>
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${category.className}`}>
+        {category.label}
+      </span>
+    </div>
+  );
+};
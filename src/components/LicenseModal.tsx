@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { LicenseCategory, LicenseClassification, LICENSE_CATEGORIES, COMMON_SPDX_LICENSES } from '../utils/licenses';
+
+interface LicenseModalProps {
+  softwareName: string;
+  license: LicenseClassification | undefined;
+  isSaving: boolean;
+  onSave: (spdxId: string, category: LicenseCategory) => void;
+  onClose: () => void;
+}
+
+export const LicenseModal: React.FC<LicenseModalProps> = ({ softwareName, license, isSaving, onSave, onClose }) => {
+  const [spdxId, setSpdxId] = useState(license?.spdx_id || '');
+  const [category, setCategory] = useState<LicenseCategory>(license?.category || 'unknown');
+
+  const handleSpdxChange = (value: string) => {
+    setSpdxId(value);
+    // Pre-select the usual category for well-known licenses
+    const knownCategory = COMMON_SPDX_LICENSES[value.trim()];
+    if (knownCategory) {
+      setCategory(knownCategory);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Classify License</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{softwareName}</p>
+        <div className="mb-4">
+          <label htmlFor="spdx-id" className="block text-sm font-medium text-gray-700 mb-2">
+            SPDX Identifier
+          </label>
+          <input
+            id="spdx-id"
+            type="text"
+            list="spdx-licenses"
+            value={spdxId}
+            onChange={(e) => handleSpdxChange(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="e.g. MIT, GPL-3.0-only, Apache-2.0"
+          />
+          <datalist id="spdx-licenses">
+            {Object.keys(COMMON_SPDX_LICENSES).map(id => (
+              <option key={id} value={id} />
+            ))}
+          </datalist>
+        </div>
+        <div className="mb-4">
+          <label htmlFor="license-category" className="block text-sm font-medium text-gray-700 mb-2">
+            Category
+          </label>
+          <select
+            id="license-category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value as LicenseCategory)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {LICENSE_CATEGORIES.map(item => (
+              <option key={item.value} value={item.value}>{item.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(spdxId.trim(), category)}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
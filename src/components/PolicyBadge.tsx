@@ -0,0 +1,33 @@
+import React from 'react';
+import { CheckCircle, Ban, HelpCircle } from 'lucide-react';
+import { SoftwarePolicy, getPolicyStatusInfo } from '../utils/policies';
+
+interface PolicyBadgeProps {
+  policy: SoftwarePolicy | undefined;
+}
+
+const statusIcons = {
+  approved: CheckCircle,
+  needs_review: HelpCircle,
+  banned: Ban,
+};
+
+export const PolicyBadge: React.FC<PolicyBadgeProps> = ({ policy }) => {
+  if (!policy) {
+    return <span className="text-sm text-gray-500">No policy</span>;
+  }
+
+  const info = getPolicyStatusInfo(policy.status);
+  const Icon = statusIcons[policy.status];
+  const source = policy.name_pattern ? `Matches "${policy.name_pattern}"` : 'Set for this title';
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${info.className}`}
+      title={policy.reason ? `${source}: ${policy.reason}` : source}
+    >
+      <Icon className="h-3 w-3 mr-1" />
+      {info.label}
+    </span>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { PolicyStatus, SoftwarePolicy, POLICY_STATUSES } from '../utils/policies';
+
+interface PolicyModalProps {
+  softwareName: string;
+  titlePolicy: SoftwarePolicy | undefined;
+  patternPolicy: SoftwarePolicy | undefined;
+  isSaving: boolean;
+  onSave: (status: PolicyStatus | '', reason: string) => void;
+  onClose: () => void;
+}
+
+export const PolicyModal: React.FC<PolicyModalProps> = ({ softwareName, titlePolicy, patternPolicy, isSaving, onSave, onClose }) => {
+  const [status, setStatus] = useState<PolicyStatus | ''>(titlePolicy?.status || '');
+  const [reason, setReason] = useState(titlePolicy?.reason || '');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Software Policy</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{softwareName}</p>
+        <div className="mb-4">
+          <label htmlFor="policy-status" className="block text-sm font-medium text-gray-700 mb-2">
+            Status
+          </label>
+          <select
+            id="policy-status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as PolicyStatus | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">
+              {patternPolicy ? `Inherit from pattern "${patternPolicy.name_pattern}"` : 'No policy'}
+            </option>
+            {POLICY_STATUSES.map(item => (
+              <option key={item.value} value={item.value}>{item.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="mb-4">
+          <label htmlFor="policy-reason" className="block text-sm font-medium text-gray-700 mb-2">
+            Reason
+          </label>
+          <textarea
+            id="policy-reason"
+            rows={3}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            disabled={!status}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+            placeholder="Why is this software approved, banned or under review?"
+          />
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(status, reason)}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { RemediationTicket, TicketChanges, TicketStatus, TICKET_STATUSES } from '../utils/remediation';
+
+interface RemediationTicketModalProps {
+  title: string;
+  // Omitted when opening a ticket; the backend sets status and the SLA due date
+  ticket?: RemediationTicket;
+  isSaving: boolean;
+  onSave: (changes: TicketChanges) => void;
+  onClose: () => void;
+}
+
+export const RemediationTicketModal: React.FC<RemediationTicketModalProps> = ({ title, ticket, isSaving, onSave, onClose }) => {
+  const [assignee, setAssignee] = useState(ticket?.assignee || '');
+  const [status, setStatus] = useState<TicketStatus>(ticket?.status || 'open');
+  const [dueDate, setDueDate] = useState(ticket?.due_date || '');
+  const [notes, setNotes] = useState(ticket?.notes || '');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">{ticket ? 'Remediation Ticket' : 'Track Remediation'}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{title}</p>
+        <div className="mb-4">
+          <label htmlFor="ticket-assignee" className="block text-sm font-medium text-gray-700 mb-2">
+            Assignee
+          </label>
+          <input
+            id="ticket-assignee"
+            type="text"
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Who owns the fix?"
+          />
+        </div>
+        {ticket && (
+          <div className="mb-4">
+            <label htmlFor="ticket-status" className="block text-sm font-medium text-gray-700 mb-2">
+              Status
+            </label>
+            <select
+              id="ticket-status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as TicketStatus)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {TICKET_STATUSES.map(item => (
+                <option key={item.value} value={item.value}>{item.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="mb-4">
+          <label htmlFor="ticket-due-date" className="block text-sm font-medium text-gray-700 mb-2">
+            Due Date
+          </label>
+          <input
+            id="ticket-due-date"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          {!ticket && (
+            <p className="mt-1 text-xs text-gray-500">Leave empty to use the SLA for the vulnerability's severity</p>
+          )}
+        </div>
+        <div className="mb-4">
+          <label htmlFor="ticket-notes" className="block text-sm font-medium text-gray-700 mb-2">
+            Notes
+          </label>
+          <textarea
+            id="ticket-notes"
+            rows={3}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Patch plan, change ticket, reason for accepting the risk..."
+          />
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ assignee, status, due_date: dueDate, notes })}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useTeam } from '../contexts/TeamContext';
+import { CRON_PRESETS, REPORT_TYPES, ReportSchedule, ReportType, ScheduleChanges } from '../utils/reportSchedules';
+
+interface ReportScheduleModalProps {
+  // Omitted when creating a schedule
+  schedule?: ReportSchedule;
+  isSaving: boolean;
+  onSave: (changes: ScheduleChanges) => void;
+  onClose: () => void;
+}
+
+export const ReportScheduleModal: React.FC<ReportScheduleModalProps> = ({ schedule, isSaving, onSave, onClose }) => {
+  const { teams, teamId, teamAnnotations } = useTeam();
+  const [name, setName] = useState(schedule?.name || '');
+  const [reportType, setReportType] = useState<ReportType>(schedule?.report_type || 'software');
+  const [cron, setCron] = useState(schedule?.cron || CRON_PRESETS[2].cron);
+  const [recipients, setRecipients] = useState(schedule?.recipients || '');
+  const [scheduleTeamId, setScheduleTeamId] = useState(schedule ? schedule.team_id : teamId);
+  const [useTeamAnnotations, setUseTeamAnnotations] = useState(schedule ? schedule.team_annotations : teamAnnotations);
+  const [enabled, setEnabled] = useState(schedule?.enabled ?? true);
+
+  const handleSave = () => {
+    onSave({
+      name,
+      report_type: reportType,
+      cron,
+      recipients,
+      team_id: scheduleTeamId,
+      team_annotations: scheduleTeamId !== null && useTeamAnnotations,
+      enabled,
+    });
+  };
+
+  const isValid = !!name.trim() && cron.trim().split(/\s+/).length === 5;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">{schedule ? 'Report Schedule' : 'Add Report Schedule'}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="mb-4">
+          <label htmlFor="schedule-name" className="block text-sm font-medium text-gray-700 mb-2">
+            Name
+          </label>
+          <input
+            id="schedule-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Weekly software inventory"
+          />
+        </div>
+        <div className="mb-4">
+          <label htmlFor="schedule-report-type" className="block text-sm font-medium text-gray-700 mb-2">
+            Report
+          </label>
+          <select
+            id="schedule-report-type"
+            value={reportType}
+            onChange={(e) => setReportType(e.target.value as ReportType)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {REPORT_TYPES.map(item => (
+              <option key={item.value} value={item.value}>{item.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="mb-4">
+          <label htmlFor="schedule-cron" className="block text-sm font-medium text-gray-700 mb-2">
+            Schedule (cron)
+          </label>
+          <input
+            id="schedule-cron"
+            type="text"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="minute hour day-of-month month day-of-week"
+          />
+          <div className="mt-2 flex flex-wrap gap-2">
+            {CRON_PRESETS.map(preset => (
+              <button
+                key={preset.cron}
+                type="button"
+                onClick={() => setCron(preset.cron)}
+                className={`px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors duration-200 ${
+                  cron === preset.cron ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Times are in the server's time zone.</p>
+        </div>
+        <div className="mb-4">
+          <label htmlFor="schedule-recipients" className="block text-sm font-medium text-gray-700 mb-2">
+            Recipients
+          </label>
+          <textarea
+            id="schedule-recipients"
+            rows={2}
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="security@example.com, it-ops@example.com"
+          />
+          <p className="mt-1 text-xs text-gray-500">Leave empty to only write the report to disk.</p>
+        </div>
+        {teams.length > 0 && (
+          <div className="mb-4">
+            <label htmlFor="schedule-team" className="block text-sm font-medium text-gray-700 mb-2">
+              Team
+            </label>
+            <select
+              id="schedule-team"
+              value={scheduleTeamId ?? ''}
+              onChange={(e) => setScheduleTeamId(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All teams</option>
+              {teams.map(team => (
+                <option key={team.id} value={team.id}>{team.name}</option>
+              ))}
+            </select>
+            {scheduleTeamId !== null && reportType !== 'hosts' && (
+              <label className="mt-2 flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useTeamAnnotations}
+                  onChange={(e) => setUseTeamAnnotations(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+                />
+                Use the team's open source flags and remarks
+              </label>
+            )}
+          </div>
+        )}
+        <div className="mb-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+            />
+            Enabled
+          </label>
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isValid}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { getRiskLevelInfo } from '../utils/risk';
+
+interface RiskBadgeProps {
+  score: number | undefined;
+}
+
+export const RiskBadge: React.FC<RiskBadgeProps> = ({ score }) => {
+  if (score === undefined) {
+    return <span className="text-sm text-gray-500">—</span>;
+  }
+
+  const info = getRiskLevelInfo(score);
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${info.className}`}
+      title={`${info.label} risk`}
+    >
+      {score}
+    </span>
+  );
+};
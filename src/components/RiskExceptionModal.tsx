@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useTeam } from '../contexts/TeamContext';
+import { QueryValue } from '../api/client';
+import { HostsResponse } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+import { ExceptionChanges, ExceptionHost, RiskException } from '../utils/exceptions';
+
+interface RiskExceptionModalProps {
+  title: string;
+  // Omitted when recording a new exception
+  exception?: RiskException;
+  // Fleet host filter listing the hosts that have the software, for picking specific hosts
+  hostParams: Record<string, QueryValue>;
+  isSaving: boolean;
+  onSave: (changes: ExceptionChanges) => void;
+  onClose: () => void;
+}
+
+// Scope select values: every host, one team, or a list of hosts
+const scopeOf = (teamId: number | null, hosts: ExceptionHost[]) => {
+  if (hosts.length > 0) return 'hosts';
+  return teamId === null ? 'all' : `team:${teamId}`;
+};
+
+export const RiskExceptionModal: React.FC<RiskExceptionModalProps> = ({ title, exception, hostParams, isSaving, onSave, onClose }) => {
+  const { teams, teamId } = useTeam();
+  const [scope, setScope] = useState(exception ? scopeOf(exception.team_id, exception.hosts) : scopeOf(teamId, []));
+  const [selectedHosts, setSelectedHosts] = useState<ExceptionHost[]>(exception?.hosts || []);
+  const [justification, setJustification] = useState(exception?.justification || '');
+  const [approver, setApprover] = useState(exception?.approver || '');
+  const [expiresAt, setExpiresAt] = useState(exception?.expires_at || '');
+
+  const hostsQuery = useApiQuery<HostsResponse>(
+    '/api/latest/fleet/hosts',
+    { ...hostParams, team_id: teamId, per_page: 100 },
+    { enabled: scope === 'hosts' }
+  );
+  // Hosts picked earlier stay listed even when the software has since been removed from them
+  const hostOptions = [
+    ...selectedHosts,
+    ...(hostsQuery.data?.hosts || [])
+      .filter(host => !selectedHosts.some(selected => selected.id === host.id))
+      .map(host => ({ id: host.id, display_name: host.display_name })),
+  ];
+
+  const toggleHost = (host: ExceptionHost) => {
+    setSelectedHosts(prev => prev.some(selected => selected.id === host.id)
+      ? prev.filter(selected => selected.id !== host.id)
+      : [...prev, host]);
+  };
+
+  const handleSave = () => {
+    const hosts = scope === 'hosts' ? selectedHosts : [];
+    const scopeTeamId = scope.startsWith('team:') ? Number(scope.slice('team:'.length)) : null;
+    onSave({ team_id: scopeTeamId, hosts, justification, approver, expires_at: expiresAt });
+  };
+
+  const isValid = !!justification.trim() && !!approver.trim() && !!expiresAt
+    && (scope !== 'hosts' || selectedHosts.length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">{exception ? 'Risk Exception' : 'Add Risk Exception'}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors duration-200"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{title}</p>
+        <div className="mb-4">
+          <label htmlFor="exception-scope" className="block text-sm font-medium text-gray-700 mb-2">
+            Applies To
+          </label>
+          <select
+            id="exception-scope"
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All hosts</option>
+            {teams.map(team => (
+              <option key={team.id} value={`team:${team.id}`}>{team.name}</option>
+            ))}
+            <option value="hosts">Specific hosts</option>
+          </select>
+          {scope === 'hosts' && (
+            <div className="mt-2 max-h-40 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {hostsQuery.isLoading ? (
+                <p className="px-3 py-2 text-sm text-gray-500">Loading hosts...</p>
+              ) : hostOptions.length === 0 ? (
+                <p className="px-3 py-2 text-sm text-gray-500">No hosts have this software</p>
+              ) : hostOptions.map(host => (
+                <label key={host.id} className="flex items-center px-3 py-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedHosts.some(selected => selected.id === host.id)}
+                    onChange={() => toggleHost(host)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+                  />
+                  {host.display_name || `Host #${host.id}`}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="mb-4">
+          <label htmlFor="exception-justification" className="block text-sm font-medium text-gray-700 mb-2">
+            Justification
+          </label>
+          <textarea
+            id="exception-justification"
+            rows={3}
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Compensating controls, why the risk is accepted..."
+          />
+        </div>
+        <div className="mb-4">
+          <label htmlFor="exception-approver" className="block text-sm font-medium text-gray-700 mb-2">
+            Approver
+          </label>
+          <input
+            id="exception-approver"
+            type="text"
+            value={approver}
+            onChange={(e) => setApprover(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Who signed off on the risk?"
+          />
+        </div>
+        <div className="mb-4">
+          <label htmlFor="exception-expires-at" className="block text-sm font-medium text-gray-700 mb-2">
+            Expires
+          </label>
+          <input
+            id="exception-expires-at"
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isValid}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Severity, formatCvss, getSeverityInfo } from '../utils/vulnerabilities';
+
+interface SeverityBadgeProps {
+  severity: Severity | undefined;
+  score: number | null | undefined;
+}
+
+export const SeverityBadge: React.FC<SeverityBadgeProps> = ({ severity, score }) => {
+  const info = getSeverityInfo(severity);
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${info.className}`}
+      title={`CVSS ${info.range}`}
+    >
+      {info.label}
+      {score !== null && score !== undefined && <span className="ml-1">{formatCvss(score)}</span>}
+    </span>
+  );
+};
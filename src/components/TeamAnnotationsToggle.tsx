@@ -0,0 +1,21 @@
+import React from 'react';
+import { useTeam } from '../contexts/TeamContext';
+
+// Switches open source flags and remarks between the global values and the selected team's
+export const TeamAnnotationsToggle: React.FC = () => {
+  const { selectedTeam, teamId, teamAnnotations, setTeamAnnotations } = useTeam();
+
+  if (teamId === null) return null;
+
+  return (
+    <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+      <input
+        type="checkbox"
+        checked={teamAnnotations}
+        onChange={(e) => setTeamAnnotations(e.target.checked)}
+        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+      />
+      Flags and remarks for {selectedTeam?.name || `team ${teamId}`}
+    </label>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+
+export interface TrendSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+interface TrendChartProps {
+  title: string;
+  labels: string[];
+  series: TrendSeries[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 40 };
+
+export const TrendChart: React.FC<TrendChartProps> = ({ title, labels, series }) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(1, ...series.flatMap(item => item.values));
+
+  const x = (index: number) =>
+    PADDING.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  // Label the first, middle and last points so long ranges stay readable
+  const labelIndexes = Array.from(new Set([0, Math.floor((labels.length - 1) / 2), labels.length - 1]))
+    .filter(index => index >= 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+        <div className="flex items-center space-x-4">
+          {series.map(item => (
+            <div key={item.name} className="flex items-center text-sm text-gray-600">
+              <span className="inline-block h-3 w-3 rounded-full mr-2" style={{ backgroundColor: item.color }} />
+              {item.name}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {labels.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">No snapshots in this range</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          {[0, 0.5, 1].map(fraction => (
+            <g key={fraction}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(maxValue * fraction)}
+                y2={y(maxValue * fraction)}
+                stroke="#e5e7eb"
+              />
+              <text x={PADDING.left - 6} y={y(maxValue * fraction) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+                {Math.round(maxValue * fraction)}
+              </text>
+            </g>
+          ))}
+
+          {labelIndexes.map(index => (
+            <text key={index} x={x(index)} y={HEIGHT - 6} textAnchor="middle" fontSize="10" fill="#6b7280">
+              {labels[index]}
+            </text>
+          ))}
+
+          {series.map(item => (
+            <g key={item.name}>
+              <polyline
+                fill="none"
+                stroke={item.color}
+                strokeWidth="2"
+                points={item.values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+              />
+              {item.values.map((value, index) => (
+                <circle key={index} cx={x(index)} cy={y(value)} r="3" fill={item.color}>
+                  <title>{`${labels[index]}: ${value} ${item.name.toLowerCase()}`}</title>
+                </circle>
+              ))}
+            </g>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
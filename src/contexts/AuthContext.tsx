@@ -1,12 +1,61 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import { ApiClient, ApiError, createApiClient } from '../api/client';
+import { QueryCache, createQueryCache } from '../api/queryCache';
+
+export type UserRole = 'admin' | 'maintainer' | 'observer' | 'observer_plus' | 'gitops';
+
+interface UserTeam {
+  id: number;
+  name: string;
+  role: UserRole;
+}
 
 interface User {
   id: number;
   name: string;
   email: string;
-  global_role: 'admin' | 'maintainer' | 'observer';
+  global_role: UserRole | null;
+  teams: UserTeam[];
+}
+
+// Shape of the user object returned by Fleet's login and /me endpoints
+interface FleetUser {
+  id: number;
+  name: string;
+  email: string;
+  global_role: UserRole | null;
+  teams?: Array<{ id: number; name: string; role: UserRole }>;
 }
 
+const toUser = (fleetUser: FleetUser): User => ({
+  id: fleetUser.id,
+  name: fleetUser.name || fleetUser.email,
+  email: fleetUser.email,
+  global_role: fleetUser.global_role ?? null,
+  teams: (fleetUser.teams || []).map(team => ({ id: team.id, name: team.name, role: team.role })),
+});
+
+// The last known user, or null when it is missing or was saved in an older shape (e.g. without
+// teams), so stale local data never decides what the UI allows
+const readStoredUser = (storedUser: string | null): User | null => {
+  if (!storedUser) return null;
+  try {
+    const parsed = JSON.parse(storedUser);
+    const isUser = typeof parsed?.id === 'number' && parsed.id > 0
+      && typeof parsed.email === 'string'
+      && (parsed.global_role === null || typeof parsed.global_role === 'string')
+      && Array.isArray(parsed.teams);
+    return isUser ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const clearStoredAuth = () => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('auth_user');
+};
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
@@ -14,6 +63,10 @@ interface AuthContextType {
   logout: () => void;
   isAuthenticated: boolean;
   isLoading: boolean;
+  // Client bound to the current token; a 401 from any request logs the user out
+  api: ApiClient;
+  // Response cache for useApiQuery; replaced with the token so users never see each other's data
+  queryCache: QueryCache;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -34,21 +87,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [queryCache, setQueryCache] = useState(createQueryCache);
 
   useEffect(() => {
-    const initAuth = () => {
+    const initAuth = async () => {
+      const storedToken = localStorage.getItem('auth_token');
+      const storedUser = localStorage.getItem('auth_user');
+
       try {
-        const storedToken = localStorage.getItem('auth_token');
-        const storedUser = localStorage.getItem('auth_user');
-        
-        if (storedToken && storedUser) {
-          setToken(storedToken);
-          setUser(JSON.parse(storedUser));
+        if (!storedToken) {
+          return;
         }
+
+        // Re-validate the stored token so role changes and revoked sessions take effect on reload
+        const data = await createApiClient(storedToken).get<{ user: FleetUser }>('/api/latest/fleet/me');
+        const currentUser = toUser(data.user);
+        setToken(storedToken);
+        setUser(currentUser);
+        localStorage.setItem('auth_user', JSON.stringify(currentUser));
       } catch (error) {
-        console.error('Error loading auth data:', error);
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('auth_user');
+        if (!(error instanceof ApiError)) {
+          console.error('Error loading auth data:', error);
+        }
+        // Only a rejected token signs the user out; anything else, including a network
+        // failure, means Fleet is unreachable, so fall back to the last known user
+        if (!(error instanceof ApiError && (error.status === 401 || error.status === 403))) {
+          const lastUser = readStoredUser(storedUser);
+          if (lastUser) {
+            setToken(storedToken);
+            setUser(lastUser);
+            return;
+          }
+        }
+        clearStoredAuth();
       } finally {
         setIsLoading(false);
       }
@@ -59,42 +130,45 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const login = async (email: string, password: string) => {
     try {
-      const response = await fetch('/api/v1/fleet/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || 'Login failed');
-      }
-
-      const data = await response.json();
+      const data = await createApiClient(null)
+        .post<{ token?: string; user?: FleetUser }>('/api/v1/fleet/login', { email, password });
       
       if (!data.token) {
         throw new Error('Invalid response format');
       }
-      
+
+      // Older Fleet versions omit the user from the login response, so ask /me instead
+      let fleetUser: FleetUser | undefined = data.user;
+      if (!fleetUser) {
+        const meData = await createApiClient(data.token).get<{ user: FleetUser }>('/api/latest/fleet/me');
+        fleetUser = meData.user;
+      }
+
+      if (!fleetUser) {
+        throw new Error('Invalid response format');
+      }
+
+      const currentUser = toUser(fleetUser);
+      setQueryCache(createQueryCache());
       setToken(data.token);
-      setUser({ id: 0, name: email, email, global_role: 'admin' });
+      setUser(currentUser);
       
       localStorage.setItem('auth_token', data.token);
-      localStorage.setItem('auth_user', JSON.stringify({ id: 0, name: email, email, global_role: 'admin' }));
+      localStorage.setItem('auth_user', JSON.stringify(currentUser));
     } catch (error) {
       console.error('Login error:', error);
       throw error;
     }
   };
 
-  const logout = () => {
+  const logout = useCallback(() => {
     setUser(null);
     setToken(null);
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
-  };
+    setQueryCache(createQueryCache());
+    clearStoredAuth();
+  }, []);
+
+  const api = useMemo(() => createApiClient(token, logout), [token, logout]);
 
   const value = {
     user,
@@ -103,6 +177,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     isAuthenticated: !!user && !!token,
     isLoading,
+    api,
+    queryCache,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Team, TeamsResponse } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+
+interface TeamContextType {
+  // Empty on Fleet Free, where the teams endpoint is unavailable
+  teams: Team[];
+  teamId: number | null;
+  selectedTeam: Team | undefined;
+  setTeamId: (teamId: number | null) => void;
+  // When set, open source flags and remarks are read and saved for the selected team instead of globally
+  teamAnnotations: boolean;
+  setTeamAnnotations: (enabled: boolean) => void;
+  annotationTeamId: number | null;
+}
+
+const TeamContext = createContext<TeamContextType | undefined>(undefined);
+
+export const useTeam = () => {
+  const context = useContext(TeamContext);
+  if (context === undefined) {
+    throw new Error('useTeam must be used within a TeamProvider');
+  }
+  return context;
+};
+
+interface TeamProviderProps {
+  children: ReactNode;
+}
+
+export const TeamProvider: React.FC<TeamProviderProps> = ({ children }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [lastTeamId, setLastTeamId] = useState<string | null>(null);
+  const [teamAnnotations, setTeamAnnotations] = useState(false);
+  const teams = useApiQuery<TeamsResponse>('/api/latest/fleet/teams').data?.teams || [];
+
+  // The selected team lives in the URL so links are shareable; in-app links don't carry it,
+  // so the last selection sticks and is written back into the URL until it is cleared
+  const urlTeamId = searchParams.get('team_id');
+  const teamParam = urlTeamId ?? lastTeamId;
+  const teamId = teamParam ? Number(teamParam) : null;
+
+  useEffect(() => {
+    if (urlTeamId !== null) {
+      setLastTeamId(urlTeamId);
+    } else if (lastTeamId !== null) {
+      setSearchParams(prev => {
+        const next = new URLSearchParams(prev);
+        next.set('team_id', lastTeamId);
+        return next;
+      }, { replace: true });
+    }
+  }, [urlTeamId, lastTeamId, setSearchParams]);
+
+  const setTeamId = (nextTeamId: number | null) => {
+    setLastTeamId(nextTeamId === null ? null : nextTeamId.toString());
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (nextTeamId === null) {
+        next.delete('team_id');
+      } else {
+        next.set('team_id', nextTeamId.toString());
+      }
+      // Page numbers belong to the previous team's results
+      next.delete('page');
+      return next;
+    });
+  };
+
+  const value = {
+    teams,
+    teamId,
+    selectedTeam: teams.find(team => team.id === teamId),
+    setTeamId,
+    teamAnnotations,
+    setTeamAnnotations,
+    annotationTeamId: teamAnnotations ? teamId : null,
+  };
+
+  return <TeamContext.Provider value={value}>{children}</TeamContext.Provider>;
+};
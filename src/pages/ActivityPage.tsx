@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Search, History, AlertCircle, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { isAbortError, getErrorMessage } from '../api/client';
+
+interface AuditEntry {
+  id: number;
+  entity_type: 'open_source' | 'remark' | 'license' | 'baseline' | 'entitlement';
+  action: 'create' | 'update' | 'delete';
+  software_title_id: number;
+  software_name: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  user_id: number | null;
+  user_email: string | null;
+  // Set for team-specific open source flags and remarks
+  team_id: number | null;
+  created_at: string;
+}
+
+interface AuditResponse {
+  entries: AuditEntry[];
+  count: number;
+}
+
+const entityLabels: Record<AuditEntry['entity_type'], string> = {
+  open_source: 'Open Source',
+  remark: 'Remark',
+  license: 'License',
+  baseline: 'Baseline',
+  entitlement: 'Entitlement',
+};
+
+export const ActivityPage: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [entityType, setEntityType] = useState('');
+  const [userSearch, setUserSearch] = useState('');
+  const [debouncedUserSearch, setDebouncedUserSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api } = useAuth();
+  const { teams } = useTeam();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const itemsPerPage = 50;
+
+  const softwareTitleId = searchParams.get('software_title_id');
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedUserSearch(userSearch);
+      setCurrentPage(0); // Reset to first page on search
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [userSearch]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchAuditLog(controller.signal);
+    return () => controller.abort();
+  }, [currentPage, entityType, debouncedUserSearch, fromDate, toDate, softwareTitleId]);
+
+  const fetchAuditLog = async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await api.get<AuditResponse>('/api/audit', {
+        params: {
+          page: currentPage,
+          per_page: itemsPerPage,
+          software_title_id: softwareTitleId,
+          entity_type: entityType,
+          user_email: debouncedUserSearch,
+          from: fromDate,
+          to: toDate,
+        },
+        signal,
+      });
+      setEntries(data.entries || []);
+      setTotalCount(data.count || 0);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching audit log:', error);
+      setError(getErrorMessage(error, 'Failed to fetch activity'));
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const describeChange = (entry: AuditEntry) => {
+    if (entry.entity_type === 'open_source') {
+      return entry.new_value === 'true' ? 'Marked as open source' : 'Removed from open source';
+    }
+    if (entry.entity_type === 'license') {
+      return entry.action === 'create' ? 'Classified license' : 'Changed license';
+    }
+    if (entry.entity_type === 'baseline') {
+      if (entry.action === 'delete') return 'Cleared baseline version';
+      return entry.action === 'create' ? 'Set baseline version' : 'Changed baseline version';
+    }
+    if (entry.entity_type === 'entitlement') {
+      if (entry.action === 'delete') return 'Removed license entitlement';
+      return entry.action === 'create' ? 'Added license entitlement' : 'Changed license entitlement';
+    }
+    if (entry.action === 'create') {
+      return 'Added remark';
+    }
+    return entry.new_value ? 'Changed remark' : 'Cleared remark';
+  };
+
+  const formatDate = (dateString: string) => {
+    if (!dateString) return 'Never';
+    try {
+      // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+      return new Date(`${dateString.replace(' ', 'T')}Z`).toLocaleString();
+    } catch {
+      return 'Invalid Date';
+    }
+  };
+
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Activity</h3>
+          <p className="text-gray-600 mb-4">{error}</p>
+          <button
+            onClick={() => fetchAuditLog()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Activity</h1>
+        <p className="text-gray-600">Who changed open source flags, licenses and remarks, and when</p>
+      </div>
+
+      {/* Filter Indicator */}
+      {softwareTitleId && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium text-gray-500">Filtered by software:</span>
+              <span className="text-sm font-medium text-gray-900">
+                {entries[0]?.software_name || `#${softwareTitleId}`}
+              </span>
+            </div>
+            <button
+              onClick={() => navigate('/activity')}
+              className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
+            >
+              <X className="h-4 w-4" />
+              <span>Clear filter</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Filter by user email..."
+            value={userSearch}
+            onChange={(e) => setUserSearch(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={entityType}
+          onChange={(e) => {
+            setEntityType(e.target.value);
+            setCurrentPage(0);
+          }}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All changes</option>
+          <option value="open_source">Open source flags</option>
+          <option value="remark">Remarks</option>
+          <option value="license">Licenses</option>
+          <option value="baseline">Baseline versions</option>
+          <option value="entitlement">License entitlements</option>
+        </select>
+        <input
+          type="date"
+          value={fromDate}
+          onChange={(e) => {
+            setFromDate(e.target.value);
+            setCurrentPage(0);
+          }}
+          className="px-4 py-3 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          title="From date"
+        />
+        <input
+          type="date"
+          value={toDate}
+          onChange={(e) => {
+            setToDate(e.target.value);
+            setCurrentPage(0);
+          }}
+          className="px-4 py-3 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          title="To date"
+        />
+      </div>
+
+      {/* Activity Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-3 text-gray-600">Loading activity...</span>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Software</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Old Value</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">New Value</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50 transition-colors duration-200">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(entry.created_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {entry.user_email || 'Unknown'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <button
+                          onClick={() => navigate(`/software/${entry.software_title_id}`)}
+                          className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200 max-w-[150px] truncate"
+                          title={entry.software_name || undefined}
+                        >
+                          {entry.software_name || `#${entry.software_title_id}`}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          entry.entity_type === 'open_source'
+                            ? 'bg-emerald-100 text-emerald-800'
+                            : entry.entity_type === 'license'
+                            ? 'bg-purple-100 text-purple-800'
+                            : entry.entity_type === 'baseline'
+                            ? 'bg-amber-100 text-amber-800'
+                            : entry.entity_type === 'entitlement'
+                            ? 'bg-teal-100 text-teal-800'
+                            : 'bg-blue-100 text-blue-800'
+                        }`}>
+                          {entityLabels[entry.entity_type] || entry.entity_type}
+                        </span>
+                        {entry.team_id !== null && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {teams.find(team => team.id === entry.team_id)?.name || `Team ${entry.team_id}`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {describeChange(entry)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="max-w-[200px] truncate text-sm text-gray-500" title={entry.old_value || ''}>
+                          {entry.old_value || '—'}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="max-w-[200px] truncate text-sm text-gray-900" title={entry.new_value || ''}>
+                          {entry.new_value || '—'}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {entries.length === 0 && (
+              <div className="text-center py-12">
+                <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No activity found matching your criteria.</p>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Pagination Controls */}
+        {totalPages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-700">
+                Showing {currentPage * itemsPerPage + 1} to {Math.min((currentPage + 1) * itemsPerPage, totalCount)} of {totalCount} results
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setCurrentPage(prev => Math.max(0, prev - 1))}
+                  disabled={currentPage === 0}
+                  className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </button>
+                <span className="text-sm text-gray-700">
+                  Page {currentPage + 1} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setCurrentPage(prev => Math.min(totalPages - 1, prev + 1))}
+                  disabled={currentPage === totalPages - 1}
+                  className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, ShieldCheck, AlertCircle, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { RiskExceptionModal } from '../components/RiskExceptionModal';
+import { ExportMenu } from '../components/ExportMenu';
+import { ColumnSelection, ExportColumn, ExportFormat, exportRows, selectColumns } from '../utils/export';
+import { getErrorMessage } from '../api/client';
+import { useApiQuery } from '../api/useApiQuery';
+import {
+  ExceptionChanges,
+  ExceptionStatus,
+  EXCEPTION_STATUSES,
+  EXPIRING_WITHIN_DAYS,
+  RiskException,
+  describeExceptionTarget,
+  formatExpiryDate,
+  getExceptionStatus,
+  getExceptionStatusInfo,
+} from '../utils/exceptions';
+
+// Review windows offered for the expiring report
+const EXPIRING_WINDOWS = [7, 30, 60, 90];
+
+export const ExceptionsPage: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ExceptionStatus | ''>('expiring');
+  const [expiringDays, setExpiringDays] = useState(EXPIRING_WITHIN_DAYS);
+  const [editingException, setEditingException] = useState<RiskException | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api, queryCache, user } = useAuth();
+  const { teams } = useTeam();
+  const navigate = useNavigate();
+  const canManage = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  const exceptionsQuery = useApiQuery<RiskException[]>('/api/risk-exceptions', {
+    status: statusFilter,
+    days: statusFilter === 'expiring' ? expiringDays : undefined,
+  });
+  const exceptions = exceptionsQuery.data || [];
+  const loadError = exceptionsQuery.data === undefined && exceptionsQuery.error
+    ? getErrorMessage(exceptionsQuery.error, 'Failed to fetch risk exceptions')
+    : null;
+
+  const describeScope = (exception: RiskException) => {
+    if (exception.hosts.length > 0) {
+      return exception.hosts.map(host => host.display_name || `Host #${host.id}`).join(', ');
+    }
+    if (exception.team_id !== null) {
+      return teams.find(team => team.id === exception.team_id)?.name || `Team #${exception.team_id}`;
+    }
+    return 'All hosts';
+  };
+
+  const search = searchTerm.toLowerCase();
+  const filteredExceptions = exceptions.filter(exception =>
+    [describeExceptionTarget(exception), exception.approver, exception.justification]
+      .some(value => value.toLowerCase().includes(search))
+  );
+
+  const handleSave = async (changes: ExceptionChanges) => {
+    if (!editingException) return;
+
+    setIsSaving(true);
+    try {
+      await api.put(`/api/risk-exceptions/${editingException.id}`, {
+        cve: editingException.cve,
+        software_title_id: editingException.software_title_id,
+        name: editingException.name,
+        ...changes,
+      });
+      queryCache.invalidate('/api/risk-exceptions', '/api/host-risk');
+      setEditingException(null);
+    } catch (error) {
+      console.error('Error updating risk exception:', error);
+      setError(getErrorMessage(error, 'Failed to update risk exception'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (exception: RiskException) => {
+    if (!window.confirm(`Delete the risk exception for ${describeExceptionTarget(exception)}?`)) return;
+
+    try {
+      await api.delete(`/api/risk-exceptions/${exception.id}`);
+      queryCache.invalidate('/api/risk-exceptions', '/api/host-risk');
+    } catch (error) {
+      console.error('Error deleting risk exception:', error);
+      setError(getErrorMessage(error, 'Failed to delete risk exception'));
+    }
+  };
+
+  const exportColumns: ExportColumn<RiskException>[] = [
+    { key: 'cve', header: 'CVE', value: exception => exception.cve || '' },
+    { key: 'name', header: 'Software', value: exception => exception.name || '' },
+    { key: 'scope', header: 'Applies To', value: describeScope },
+    { key: 'justification', header: 'Justification', value: exception => exception.justification },
+    { key: 'approver', header: 'Approver', value: exception => exception.approver },
+    { key: 'expires_at', header: 'Expires', value: exception => exception.expires_at },
+    { key: 'status', header: 'Status', value: exception => getExceptionStatusInfo(getExceptionStatus(exception, expiringDays)).label },
+    { key: 'created_by', header: 'Created By', value: exception => exception.created_by || '' },
+    { key: 'created_at', header: 'Created At', value: exception => exception.created_at, optional: true },
+    { key: 'updated_at', header: 'Updated At', value: exception => exception.updated_at, optional: true },
+  ];
+
+  const handleExport = (format: ExportFormat, selection: ColumnSelection) => {
+    const columns = selectColumns(exportColumns, selection['Risk Exceptions']);
+
+    return statusFilter === 'expiring'
+      ? exportRows('Expiring Risk Exceptions', filteredExceptions, columns, 'expiring-risk-exceptions', format)
+      : exportRows('Risk Exceptions', filteredExceptions, columns, 'risk-exceptions', format);
+  };
+
+  if (exceptionsQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading risk exceptions...</span>
+      </div>
+    );
+  }
+
+  if (error || loadError) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Exceptions</h3>
+          <p className="text-gray-600 mb-4">{error || loadError}</p>
+          <button
+            onClick={() => {
+              setError(null);
+              exceptionsQuery.refetch();
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Risk Exceptions</h1>
+          <p className="text-gray-600">Accepted risks, who approved them, and when they need another look</p>
+        </div>
+        <ExportMenu
+          onExport={handleExport}
+          disabled={filteredExceptions.length === 0}
+          exportKey="risk-exceptions"
+          sheets={[{ name: 'Risk Exceptions', columns: exportColumns }]}
+        />
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by CVE, software, approver or justification..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ExceptionStatus | '')}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All exceptions</option>
+          {EXCEPTION_STATUSES.map(item => (
+            <option key={item.value} value={item.value}>{item.label}</option>
+          ))}
+        </select>
+        {statusFilter === 'expiring' && (
+          <select
+            value={expiringDays}
+            onChange={(e) => setExpiringDays(Number(e.target.value))}
+            className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {EXPIRING_WINDOWS.map(days => (
+              <option key={days} value={days}>Within {days} days</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Exceptions Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exception</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Justification</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approver</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                {canManage && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredExceptions.map(exception => {
+                const statusInfo = getExceptionStatusInfo(getExceptionStatus(exception, expiringDays));
+                return (
+                  <tr key={exception.id} className="hover:bg-gray-50 transition-colors duration-200">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(exception.cve
+                          ? `/vulnerabilities/${exception.cve}`
+                          : `/software/${exception.software_title_id}`)}
+                        disabled={!exception.cve && !exception.software_title_id}
+                        className="text-sm font-medium text-gray-900 hover:text-blue-600 disabled:hover:text-gray-900 transition-colors duration-200"
+                      >
+                        {describeExceptionTarget(exception)}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="max-w-[200px] truncate text-sm text-gray-900" title={describeScope(exception)}>
+                        {describeScope(exception)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="max-w-[250px] truncate text-sm text-gray-500" title={exception.justification}>
+                        {exception.justification}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{exception.approver}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatExpiryDate(exception.expires_at)}</div>
+                      <span className={`mt-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusInfo.className}`}>
+                        {statusInfo.label}
+                      </span>
+                    </td>
+                    {canManage && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-3">
+                          <button
+                            onClick={() => setEditingException(exception)}
+                            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            {getExceptionStatus(exception) === 'active' ? 'Edit' : 'Renew'}
+                          </button>
+                          <button
+                            onClick={() => handleDelete(exception)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Delete exception"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredExceptions.length === 0 && (
+          <div className="text-center py-12">
+            <ShieldCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {exceptions.length === 0
+                ? statusFilter === 'expiring'
+                  ? `No exceptions expire within ${expiringDays} days.`
+                  : 'No risk exceptions found. Add one from a software title, version or vulnerability.'
+                : 'No exceptions match your criteria.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Edit Modal */}
+      {editingException && (
+        <RiskExceptionModal
+          title={describeExceptionTarget(editingException)}
+          exception={editingException}
+          hostParams={editingException.software_title_id ? { software_title_id: editingException.software_title_id } : {}}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onClose={() => setEditingException(null)}
+        />
+      )}
+    </div>
+  );
+};
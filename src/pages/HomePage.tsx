@@ -1,36 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { Search, Download, Monitor, CheckCircle, XCircle, HardDrive, Calendar, RotateCcw, AlertCircle, X } from 'lucide-react';
+import { Search, Monitor, CheckCircle, XCircle, HardDrive, Calendar, RotateCcw, AlertCircle, X, ShieldAlert } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { exportToCSV } from '../utils/csvExport';
-
-interface Host {
-  id: number;
-  display_name: string;
-  status: string;
-  issues: { total_issues_count: number };
-  gigs_disk_space_available: number;
-  os_version: string;
-  osquery_version: string;
-  primary_ip: string;
-  detail_updated_at: string;
-  last_restarted_at: string;
-}
-
-interface HostsResponse {
-  hosts: Host[];
-  count: number;
-}
-
-interface HostSummary {
-  totals_hosts_count: number;
-  online_count: number;
-  offline_count: number;
-  mia_count: number;
-  missing_30_days_count: number;
-  new_count: number;
-  all_linux_count: number;
-}
+import { useTeam } from '../contexts/TeamContext';
+import { ColumnSelection, ExportColumn, ExportFormat, exportRows, selectColumns } from '../utils/export';
+import { isAbortError, getErrorMessage } from '../api/client';
+import { countHosts, getHostSummary, getSoftwareTitle, getSoftwareVersion, listHosts } from '../api/fleet';
+import { Host, HostRiskResponse, LabelsResponse, OsVersionsResponse, RankedHost } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+import { useStreamExport } from '../api/useStreamExport';
+import { RiskBadge } from '../components/RiskBadge';
+import { ExportMenu } from '../components/ExportMenu';
+import { ExportProgress } from '../components/ExportProgress';
 
 interface SoftwareDetails {
   id: number;
@@ -38,9 +19,52 @@ interface SoftwareDetails {
   version?: string;
 }
 
+const HOST_STATUSES = [
+  { value: 'online', label: 'Online' },
+  { value: 'offline', label: 'Offline' },
+  { value: 'mia', label: 'MIA' },
+  { value: 'new', label: 'New' },
+];
+
+// Table columns and the Fleet order_key each one sorts by; risk_score is ranked by /api/host-risk instead
+const HOST_COLUMNS = [
+  { key: 'display_name', label: 'Host' },
+  { key: 'status', label: 'Status' },
+  { key: 'issues', label: 'Issues' },
+  { key: 'risk_score', label: 'Risk' },
+  { key: 'gigs_disk_space_available', label: 'Disk Space' },
+  { key: 'os_version', label: 'OS' },
+  { key: 'osquery_version', label: 'Osquery' },
+  { key: 'primary_ip', label: 'Private IP' },
+  { key: 'detail_updated_at', label: 'Last Fetched' },
+  { key: 'last_restarted_at', label: 'Last Restarted' },
+];
+
+const BYTES_PER_GB = 1024 ** 3;
+
+type RiskyHost = RankedHost & { rank: number };
+
+const RISKY_HOST_COLUMNS: ExportColumn<RiskyHost>[] = [
+  { key: 'rank', header: 'Rank', value: host => host.rank },
+  { key: 'display_name', header: 'Host', value: host => host.display_name },
+  { key: 'risk_score', header: 'Risk Score', value: host => host.risk_score },
+  { key: 'vulnerabilities_count', header: 'CVEs', value: host => host.vulnerabilities_count },
+  { key: 'known_exploited_count', header: 'Known Exploited', value: host => host.known_exploited_count },
+  { key: 'critical_count', header: 'Critical CVEs', value: host => host.critical_count },
+  { key: 'top_cves', header: 'Top CVEs', value: host => host.top_cves.join(', ') },
+  { key: 'status', header: 'Status', value: host => host.status },
+  { key: 'os_version', header: 'OS', value: host => host.os_version },
+  { key: 'primary_ip', header: 'Private IP', value: host => host.primary_ip },
+  { key: 'excepted_count', header: 'Excepted CVEs', value: host => host.excepted_count, optional: true },
+  { key: 'hostname', header: 'Hostname', value: host => host.hostname, optional: true },
+  { key: 'hardware_serial', header: 'Serial Number', value: host => host.hardware_serial, optional: true },
+];
+
+// URL parameters owned by the filter bar; the software filters are cleared separately
+const HOST_FILTER_PARAMS = ['query', 'status', 'os_version_id', 'label_id'];
+
 export const HomePage: React.FC = () => {
   const [allHosts, setAllHosts] = useState<Host[]>([]);
-  const [currentPage, setCurrentPage] = useState(0);
   const [totalCount, setTotalCount] = useState(0);
   const [onlineCount, setOnlineCount] = useState(0);
   const [offlineCount, setOfflineCount] = useState(0);
@@ -49,20 +73,88 @@ export const HomePage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [softwareDetails, setSoftwareDetails] = useState<SoftwareDetails | null>(null);
   
-  const { token } = useAuth();
+  const { token, api } = useAuth();
+  const streamExport = useStreamExport();
+  const { teamId } = useTeam();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const hostsPerPage = 50;
 
+  // Search, filters, sort and page all live in the URL so a filtered view can be shared
   const softwareTitleId = searchParams.get('software_title_id');
   const softwareVersionId = searchParams.get('software_version_id');
+  const query = searchParams.get('query') || '';
+  const statusFilter = searchParams.get('status') || '';
+  const osVersionId = searchParams.get('os_version_id') || '';
+  const labelId = searchParams.get('label_id') || '';
+  const orderKey = searchParams.get('order_key') || 'display_name';
+  const orderDirection = searchParams.get('order_direction') === 'desc' ? 'desc' : 'asc';
+  const currentPage = Number(searchParams.get('page')) || 0;
+  const viewKey = searchParams.toString();
+
+  const softwareFilter = softwareTitleId
+    ? { software_title_id: softwareTitleId }
+    : { software_version_id: softwareVersionId };
+  const hostFilters = {
+    ...softwareFilter,
+    query,
+    status: statusFilter,
+    os_version_id: osVersionId,
+    label_id: labelId,
+  };
+  const hasFilters = Object.values(hostFilters).some(Boolean);
+  // The team selected in the layout scopes every request but isn't a filter of its own
+  const teamScope = { team_id: teamId };
+
+  // Risk scores for every host in scope, cached server-side since scoring reads each host's software
+  const riskQuery = useApiQuery<HostRiskResponse>('/api/host-risk', teamScope);
+  const riskScores = new Map((riskQuery.data?.hosts || []).map(host => [host.id, host.risk_score]));
+
+  // Filter options
+  const labels = useApiQuery<LabelsResponse>('/api/latest/fleet/labels').data?.labels || [];
+  const osVersions = useApiQuery<OsVersionsResponse>('/api/latest/fleet/os_versions').data?.os_versions || [];
+
+  // Empty values are removed; any change other than paging goes back to the first page
+  const updateParams = (updates: Record<string, string>, replace = false) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (!('page' in updates)) {
+        next.delete('page');
+      }
+      return next;
+    }, { replace });
+  };
 
+  // The search box is debounced before it reaches the URL, and follows the URL on back/forward
   useEffect(() => {
+    setSearchTerm(query);
+  }, [query]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchTerm !== query) {
+        updateParams({ query: searchTerm }, true);
+      }
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
     if (token) {
-      fetchHostSummary();
-      fetchAllHosts();
+      fetchHostSummary(controller.signal);
+      fetchAllHosts(controller.signal);
       if (softwareTitleId || softwareVersionId) {
-        fetchSoftwareDetails();
+        fetchSoftwareDetails(controller.signal);
       } else {
         setSoftwareDetails(null);
       }
@@ -70,134 +162,56 @@ export const HomePage: React.FC = () => {
       setError('Authentication required');
       setIsLoading(false);
     }
-  }, [token, softwareTitleId, softwareVersionId, currentPage]);
 
-  const fetchHostSummary = async () => {
+    // Drop responses for a page or filter the user has already moved away from
+    return () => controller.abort();
+  }, [token, viewKey]);
+
+  const fetchHostSummary = async (signal?: AbortSignal) => {
     try {
-      let countResponse;
-      if (softwareTitleId) {
-        countResponse = await fetch(
-          `/api/latest/fleet/hosts/count?software_title_id=${softwareTitleId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-      } else if (softwareVersionId) {
-        countResponse = await fetch(
-          `/api/latest/fleet/hosts/count?software_version_id=${softwareVersionId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-      } else {
-        countResponse = await fetch(
-          '/api/latest/fleet/host_summary',
-          {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-      }
-      
-      if (!countResponse.ok) {
-        throw new Error(`HTTP ${countResponse.status}: ${countResponse.statusText}`);
-      }
-      
-      const data = await countResponse.json();
-      
-      if (softwareTitleId || softwareVersionId) {
+      if (hasFilters) {
+        const data = await countHosts(api, { ...teamScope, ...hostFilters }, signal);
         setTotalCount(data.count || 0);
         // For filtered views, we don't have online/offline counts
         setOnlineCount(0);
         setOfflineCount(0);
       } else {
+        const data = await getHostSummary(api, teamScope, signal);
         setTotalCount(data.totals_hosts_count);
         setOnlineCount(data.online_count);
         setOfflineCount(data.offline_count);
       }
     } catch (error) {
-      console.error('Error fetching host summary:', error);
+      if (!isAbortError(error)) {
+        console.error('Error fetching host summary:', error);
+      }
     }
   };
 
-  const fetchAllHosts = async () => {
+  const fetchAllHosts = async (signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const params = new URLSearchParams({
-        page: currentPage.toString(),
-        per_page: hostsPerPage.toString(),
-        device_mapping: 'true',
-        order_key: 'display_name',
-        order_direction: 'asc'
-      });
-
-      if (softwareTitleId) {
-        params.append('software_title_id', softwareTitleId);
-      }
-      if (softwareVersionId) {
-        params.append('software_version_id', softwareVersionId);
-      }
-
       // First get the total count
-      let countResponse;
-      if (softwareTitleId) {
-        countResponse = await fetch(
-          `/api/latest/fleet/hosts/count?software_title_id=${softwareTitleId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-      } else if (softwareVersionId) {
-        countResponse = await fetch(
-          `/api/latest/fleet/hosts/count?software_version_id=${softwareVersionId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-      }
-
-      if (countResponse && !countResponse.ok) {
-        throw new Error(`HTTP ${countResponse.status}: ${countResponse.statusText}`);
-      }
-
-      if (countResponse) {
-        const countData = await countResponse.json();
+      if (hasFilters) {
+        const countData = await countHosts(api, { ...teamScope, ...hostFilters }, signal);
         setTotalCount(countData.count || 0);
       }
 
-      // Then get the paginated hosts
-      const response = await fetch(
-        `/api/latest/fleet/hosts?${params.toString()}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
-      }
-      
-      const data: HostsResponse = await response.json();
+      // Then get the paginated hosts; Fleet can't sort by risk, so that order comes from the backend
+      const params = {
+        page: currentPage,
+        per_page: hostsPerPage,
+        device_mapping: true,
+        order_key: orderKey,
+        order_direction: orderDirection,
+        ...teamScope,
+        ...hostFilters,
+      };
+      const data = orderKey === 'risk_score'
+        ? await api.get<HostRiskResponse>('/api/host-risk', { params, signal })
+        : await listHosts(api, params, signal);
       
       if (!data || !Array.isArray(data.hosts)) {
         throw new Error('Invalid response format: hosts array is missing');
@@ -205,121 +219,151 @@ export const HomePage: React.FC = () => {
 
       setAllHosts(data.hosts || []);
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Failed to fetch hosts');
+      if (isAbortError(error)) return;
+      setError(getErrorMessage(error, 'Failed to fetch hosts'));
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
-  const fetchSoftwareDetails = async () => {
+  const fetchSoftwareDetails = async (signal?: AbortSignal) => {
     try {
-      let response;
       if (softwareVersionId) {
-        response = await fetch(
-          `/api/latest/fleet/software/versions/${softwareVersionId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        const version = await getSoftwareVersion(api, softwareVersionId, teamScope, signal);
+        setSoftwareDetails({
+          id: version.id,
+          name: version.name,
+          version: version.version
+        });
       } else if (softwareTitleId) {
-        response = await fetch(
-          `/api/latest/fleet/software/titles/${softwareTitleId}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-      }
-
-      if (response && !response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      if (response) {
-        const data = await response.json();
-        if (softwareVersionId) {
-          setSoftwareDetails({
-            id: data.software_version.id,
-            name: data.software_version.name,
-            version: data.software_version.version
-          });
-        } else {
-          setSoftwareDetails({
-            id: data.software_title.id,
-            name: data.software_title.name
-          });
-        }
+        const title = await getSoftwareTitle(api, softwareTitleId, teamScope, signal);
+        setSoftwareDetails({
+          id: title.id,
+          name: title.name
+        });
       }
     } catch (error) {
-      console.error('Error fetching software details:', error);
+      if (!isAbortError(error)) {
+        console.error('Error fetching software details:', error);
+      }
     }
   };
 
-  // Filter hosts based on search term
-  const filteredHosts = allHosts.filter(host =>
-    host.display_name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    updateParams({ page: page ? page.toString() : '' });
+  };
+
+  const handleSort = (key: string) => {
+    updateParams({
+      order_key: key,
+      order_direction: orderKey === key && orderDirection === 'asc' ? 'desc' : 'asc',
+    });
   };
 
-  const handleExport = async () => {
+  const clearFilters = () => {
+    setSearchTerm('');
+    updateParams(Object.fromEntries(HOST_FILTER_PARAMS.map(key => [key, ''])));
+  };
+
+  // Same keys and columns as the backend's streamed hosts export; optional ones are only
+  // offered in the column chooser
+  const hostColumns: ExportColumn<Host>[] = [
+    { key: 'display_name', header: 'Host', value: host => host.display_name },
+    { key: 'status', header: 'Status', value: host => host.status },
+    { key: 'issues', header: 'Issues', value: host => host.issues?.total_issues_count || 0 },
+    { key: 'risk_score', header: 'Risk Score', value: host => riskScores.get(host.id) ?? '' },
+    { key: 'disk_space', header: 'Disk Space (GB)', value: host => host.gigs_disk_space_available || 0 },
+    { key: 'os_version', header: 'OS', value: host => host.os_version },
+    { key: 'osquery_version', header: 'Osquery', value: host => host.osquery_version },
+    { key: 'primary_ip', header: 'Private IP', value: host => host.primary_ip },
+    { key: 'detail_updated_at', header: 'Last Fetched', value: host => host.detail_updated_at },
+    { key: 'last_restarted_at', header: 'Last Restarted', value: host => host.last_restarted_at },
+    { key: 'hostname', header: 'Hostname', value: host => host.hostname, optional: true },
+    { key: 'uuid', header: 'UUID', value: host => host.uuid, optional: true },
+    { key: 'hardware_serial', header: 'Serial Number', value: host => host.hardware_serial, optional: true },
+    { key: 'hardware_vendor', header: 'Hardware Vendor', value: host => host.hardware_vendor, optional: true },
+    { key: 'hardware_model', header: 'Hardware Model', value: host => host.hardware_model, optional: true },
+    { key: 'cpu_brand', header: 'CPU', value: host => host.cpu_brand, optional: true },
+    { key: 'cpu_logical_cores', header: 'CPU Cores', value: host => host.cpu_logical_cores, optional: true },
+    {
+      key: 'memory',
+      header: 'Memory (GB)',
+      value: host => (host.memory ? Math.round((host.memory / BYTES_PER_GB) * 10) / 10 : ''),
+      optional: true,
+    },
+    { key: 'platform', header: 'Platform', value: host => host.platform, optional: true },
+    { key: 'public_ip', header: 'Public IP', value: host => host.public_ip, optional: true },
+    { key: 'primary_mac', header: 'MAC Address', value: host => host.primary_mac, optional: true },
+    { key: 'team_name', header: 'Team', value: host => host.team_name, optional: true },
+  ];
+
+  // CSV and JSON are paged through Fleet by the backend and streamed down, so large fleets
+  // don't have to be held in the browser; the other formats are built here from one response
+  const handleStreamExport = async (format: 'csv' | 'json', selection: ColumnSelection) => {
     try {
-      const params = new URLSearchParams({
-        device_mapping: 'true',
-        order_key: 'display_name',
-        order_direction: 'asc'
-      });
+      await streamExport.start('/api/exports/hosts', {
+        columns: selection.Hosts && JSON.stringify(selection.Hosts),
+        order_key: orderKey,
+        order_direction: orderDirection,
+        ...teamScope,
+        ...hostFilters,
+      }, 'hosts-report', format);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error exporting hosts:', error);
+      setError(getErrorMessage(error, 'Failed to export hosts'));
+    }
+  };
 
-      if (softwareTitleId) {
-        params.append('software_title_id', softwareTitleId);
-      }
-      if (softwareVersionId) {
-        params.append('software_version_id', softwareVersionId);
-      }
+  const handleExport = async (format: ExportFormat, selection: ColumnSelection) => {
+    // The stream pages through Fleet, which can't sort by risk, so a risk-ordered table is
+    // exported from the backend's ranking in every format
+    if ((format === 'csv' || format === 'json') && orderKey !== 'risk_score') {
+      await handleStreamExport(format, selection);
+      return;
+    }
 
-      const response = await fetch(
-        `/api/latest/fleet/hosts?${params.toString()}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data: HostsResponse = await response.json();
+    try {
+      const params = {
+        device_mapping: true,
+        order_key: orderKey,
+        order_direction: orderDirection,
+        ...teamScope,
+        ...hostFilters,
+      };
+      const data = orderKey === 'risk_score'
+        ? await api.get<HostRiskResponse>('/api/host-risk', { params })
+        : await listHosts(api, params);
       
       if (!data || !Array.isArray(data.hosts)) {
         throw new Error('Invalid response format: hosts array is missing');
       }
 
-      const exportData = data.hosts.map(host => ({
-        Host: host.display_name,
-        Status: host.status,
-        Issues: host.issues?.total_issues_count || 0,
-        'Disk Space (GB)': host.gigs_disk_space_available || 0,
-        OS: host.os_version,
-        Osquery: host.osquery_version,
-        'Private IP': host.primary_ip,
-        'Last Fetched': host.detail_updated_at,
-        'Last Restarted': host.last_restarted_at
-      }));
-      
-      exportToCSV(exportData, 'hosts-report');
+      await exportRows('Hosts', data.hosts, selectColumns(hostColumns, selection.Hosts), 'hosts-report', format);
     } catch (error) {
       console.error('Error exporting hosts:', error);
-      setError(error instanceof Error ? error.message : 'Failed to export hosts');
+      setError(getErrorMessage(error, 'Failed to export hosts'));
+    }
+  };
+
+  // Hosts with known CVEs, riskiest first, for patch prioritization
+  const handleRiskExport = async (format: ExportFormat, selection: ColumnSelection) => {
+    try {
+      const data = await api.get<HostRiskResponse>('/api/host-risk', {
+        params: { ...teamScope, ...hostFilters },
+      });
+
+      const riskyHosts: RiskyHost[] = data.hosts
+        .filter(host => host.risk_score > 0)
+        .map((host, index) => ({ ...host, rank: index + 1 }));
+      const columns = selectColumns(RISKY_HOST_COLUMNS, selection['Top Risky Hosts']);
+
+      await exportRows('Top Risky Hosts', riskyHosts, columns, 'top-risky-hosts', format);
+    } catch (error) {
+      console.error('Error exporting risky hosts:', error);
+      setError(getErrorMessage(error, 'Failed to export risky hosts'));
     }
   };
 
@@ -332,15 +376,6 @@ export const HomePage: React.FC = () => {
     }
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-        <span className="ml-3 text-gray-600">Loading hosts...</span>
-      </div>
-    );
-  }
-
   if (error) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -349,7 +384,7 @@ export const HomePage: React.FC = () => {
           <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Hosts</h3>
           <p className="text-gray-600 mb-4">{error}</p>
           <button
-            onClick={fetchAllHosts}
+            onClick={() => fetchAllHosts()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
           >
             Retry
@@ -364,16 +399,36 @@ export const HomePage: React.FC = () => {
       {/* Header */}
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold text-gray-900">Fleet Dashboard</h1>
-        <button
-          onClick={handleExport}
-          disabled={allHosts.length === 0}
-          className="flex items-center px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-        >
-          <Download className="h-4 w-4 mr-2" />
-          Export CSV
-        </button>
+        <div className="flex items-center space-x-3">
+          <ExportMenu
+            onExport={handleRiskExport}
+            disabled={allHosts.length === 0}
+            label="Top Risky Hosts"
+            icon={ShieldAlert}
+            exportKey="top-risky-hosts"
+            sheets={[{ name: 'Top Risky Hosts', columns: RISKY_HOST_COLUMNS }]}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium text-gray-700 bg-white rounded-lg hover:bg-gray-50"
+          />
+          <ExportMenu
+            onExport={handleExport}
+            disabled={allHosts.length === 0}
+            isExporting={streamExport.isExporting}
+            exportKey="hosts"
+            sheets={[{ name: 'Hosts', columns: hostColumns }]}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700"
+          />
+        </div>
       </div>
 
+      {/* Export Progress */}
+      {streamExport.isExporting && (
+        <ExportProgress
+          label="Exporting hosts..."
+          progress={streamExport.progress}
+          onCancel={streamExport.cancel}
+        />
+      )}
+
       {/* Filter Indicator */}
       {softwareDetails && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
@@ -386,7 +441,7 @@ export const HomePage: React.FC = () => {
               </span>
             </div>
             <button
-              onClick={() => navigate('/home')}
+              onClick={() => updateParams({ software_title_id: '', software_version_id: '' })}
               className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
             >
               <X className="h-4 w-4" />
@@ -405,14 +460,14 @@ export const HomePage: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">
-                {softwareTitleId || softwareVersionId ? 'Filtered Hosts' : 'Total Hosts'}
+                {hasFilters ? 'Filtered Hosts' : 'Total Hosts'}
               </p>
               <p className="text-2xl font-bold text-gray-900">{totalCount}</p>
             </div>
           </div>
         </div>
 
-        {!softwareTitleId && !softwareVersionId && (
+        {!hasFilters && (
           <>
             <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
               <div className="flex items-center">
@@ -441,19 +496,57 @@ export const HomePage: React.FC = () => {
         )}
       </div>
 
-      {/* Search Bar */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-        <input
-          type="text"
-          placeholder="Search hosts by name..."
-          value={searchTerm}
-          onChange={(e) => {
-            setSearchTerm(e.target.value);
-            setCurrentPage(0); // Reset to first page on search
-          }}
-          className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-        />
+      {/* Filters */}
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search hosts by name, hostname, serial or IP..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => updateParams({ status: e.target.value })}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All statuses</option>
+          {HOST_STATUSES.map(item => (
+            <option key={item.value} value={item.value}>{item.label}</option>
+          ))}
+        </select>
+        <select
+          value={osVersionId}
+          onChange={(e) => updateParams({ os_version_id: e.target.value })}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All OS versions</option>
+          {osVersions.map(os => (
+            <option key={os.os_version_id} value={os.os_version_id}>{os.name}</option>
+          ))}
+        </select>
+        <select
+          value={labelId}
+          onChange={(e) => updateParams({ label_id: e.target.value })}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All labels</option>
+          {labels.map(label => (
+            <option key={label.id} value={label.id}>{label.name}</option>
+          ))}
+        </select>
+        {HOST_FILTER_PARAMS.some(key => searchParams.get(key)) && (
+          <button
+            onClick={clearFilters}
+            className="flex items-center justify-center px-4 py-3 text-sm text-gray-500 hover:text-gray-700"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </button>
+        )}
       </div>
 
       {/* Hosts Table */}
@@ -462,19 +555,21 @@ export const HomePage: React.FC = () => {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Host</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issues</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Disk Space</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">OS</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Osquery</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Private IP</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Fetched</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Restarted</th>
+                {HOST_COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
+                    onClick={() => handleSort(column.key)}
+                  >
+                    {column.label} {orderKey === column.key && (
+                      <span>{orderDirection === 'asc' ? '↑' : '↓'}</span>
+                    )}
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredHosts.map((host) => (
+              {!isLoading && allHosts.map((host) => (
                 <tr 
                   key={host.id}
                   onClick={() => navigate(`/host/${host.id}`)}
@@ -499,6 +594,9 @@ export const HomePage: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {host.issues?.total_issues_count || 0}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <RiskBadge score={riskScores.get(host.id)} />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center text-sm text-gray-900">
                       <HardDrive className="h-4 w-4 text-gray-400 mr-1" />
@@ -531,12 +629,20 @@ export const HomePage: React.FC = () => {
             </tbody>
           </table>
         </div>
+
+        {/* Loading stays inside the table so the filter bar keeps focus while results change */}
+        {isLoading && (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-3 text-gray-600">Loading hosts...</span>
+          </div>
+        )}
         
-        {filteredHosts.length === 0 && (
+        {!isLoading && allHosts.length === 0 && (
           <div className="text-center py-12">
             <Monitor className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <p className="text-gray-500">
-              {allHosts.length === 0 ? 'No hosts found.' : 'No hosts found matching your search.'}
+              {hasFilters ? 'No hosts found matching your filters.' : 'No hosts found.'}
             </p>
           </div>
         )}
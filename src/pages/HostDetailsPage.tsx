@@ -1,40 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Monitor, Package, Settings, Calendar, HardDrive, Cpu, MemoryStick, AlertCircle, Download } from 'lucide-react';
+import { ArrowLeft, Monitor, Package, Settings, Calendar, HardDrive, Cpu, MemoryStick, AlertCircle, ShieldAlert, Flame } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-
-interface HostDetails {
-  id: number;
-  display_name: string;
-  hostname: string;
-  uuid: string;
-  os_version: string;
-  uptime: number;
-  memory: number;
-  cpu_brand: string;
-  last_restarted_at: string;
-  detail_updated_at: string;
-  status: string;
-  primary_ip: string;
-  gigs_disk_space_available: number;
-}
-
-interface InstalledVersion {
-  version: string;
-  last_opened_at: string | null;
-  vulnerabilities: string[];
-  installed_paths: string[];
-}
-
-interface Software {
-  id: number;
-  name: string;
-  source: string;
-  status: string | null;
-  installed_versions: InstalledVersion[];
-  software_package: any | null;
-  app_store_app: any | null;
-}
+import { SoftwarePolicy, resolvePolicy } from '../utils/policies';
+import { PolicyBadge } from '../components/PolicyBadge';
+import { RiskBadge } from '../components/RiskBadge';
+import { ExportMenu } from '../components/ExportMenu';
+import { ColumnSelection, ExportColumn, ExportFormat, exportTables, selectColumns, toTable } from '../utils/export';
+import { formatCvss, formatEpss } from '../utils/vulnerabilities';
+import { isAbortError, getErrorMessage } from '../api/client';
+import { getHost, listHostSoftware } from '../api/fleet';
+import { HostDetails, HostRiskDetails, HostSoftware as Software, RiskVulnerability } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
 
 interface PaginationParams {
   page: number;
@@ -44,13 +21,38 @@ interface PaginationParams {
   vulnerable?: boolean;
 }
 
+const SOFTWARE_COLUMNS: ExportColumn<Software>[] = [
+  { key: 'name', header: 'Name', value: item => item.name },
+  { key: 'version', header: 'Version', value: item => item.installed_versions?.[0]?.version || 'N/A' },
+  { key: 'source', header: 'Source', value: item => item.source },
+  { key: 'vulnerabilities_count', header: 'Vulnerability Count', value: item => item.installed_versions?.[0]?.vulnerabilities?.length || 0 },
+  { key: 'last_opened_at', header: 'Last Opened', value: item => item.installed_versions?.[0]?.last_opened_at, optional: true },
+  { key: 'installed_paths', header: 'Install Paths', value: item => item.installed_versions?.[0]?.installed_paths?.join(', '), optional: true },
+];
+
+const VULNERABILITY_COLUMNS: ExportColumn<RiskVulnerability>[] = [
+  { key: 'cve', header: 'CVE', value: vulnerability => vulnerability.cve },
+  { key: 'software_name', header: 'Software', value: vulnerability => vulnerability.software_name },
+  { key: 'version', header: 'Version', value: vulnerability => vulnerability.version },
+  { key: 'cvss_score', header: 'CVSS', value: vulnerability => vulnerability.cvss_score },
+  { key: 'epss_probability', header: 'EPSS', value: vulnerability => formatEpss(vulnerability.epss_probability) },
+  { key: 'cisa_known_exploit', header: 'Known Exploited', value: vulnerability => vulnerability.cisa_known_exploit },
+  { key: 'score', header: 'Risk Score', value: vulnerability => vulnerability.score },
+];
+
+const EXPORT_SHEETS = [
+  { name: 'Software', columns: SOFTWARE_COLUMNS },
+  { name: 'Vulnerabilities', columns: VULNERABILITY_COLUMNS },
+];
+
 export const HostDetailsPage: React.FC = () => {
   const [host, setHost] = useState<HostDetails | null>(null);
   const [software, setSoftware] = useState<Software[]>([]);
-  const [activeTab, setActiveTab] = useState<'details' | 'software' | 'properties'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'software' | 'risk' | 'properties'>('details');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [totalCount, setTotalCount] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
   const [paginationParams, setPaginationParams] = useState<PaginationParams>({
     page: 0,
     per_page: 20,
@@ -60,120 +62,78 @@ export const HostDetailsPage: React.FC = () => {
   });
   
   const { id } = useParams<{ id: string }>();
-  const { token } = useAuth();
+  const { api } = useAuth();
   const navigate = useNavigate();
+  const policies = useApiQuery<SoftwarePolicy[]>('/api/policies').data || [];
+  const riskQuery = useApiQuery<HostRiskDetails>(`/api/host-risk/${id}`);
+  const risk = riskQuery.data;
 
   useEffect(() => {
+    const controller = new AbortController();
     if (id) {
-      fetchHostDetails();
+      fetchHostDetails(controller.signal);
       if (activeTab === 'software') {
-        fetchHostSoftware();
+        fetchHostSoftware(controller.signal);
       }
     }
+    return () => controller.abort();
   }, [id, activeTab, paginationParams]);
 
-  const fetchHostDetails = async () => {
+  const fetchHostDetails = async (signal?: AbortSignal) => {
+    if (!id) return;
+
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/latest/fleet/hosts/${id}?exclude_software=true`, {
-        headers: { 
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      setHost(data.host);
+      setHost(await getHost(api, id, signal));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching host details:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch host details');
+      setError(getErrorMessage(error, 'Failed to fetch host details'));
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
-  const fetchHostSoftware = async (exportAll: boolean = false) => {
+  const fetchHostSoftware = async (signal?: AbortSignal) => {
+    if (!id) return;
+
     try {
-      const params = new URLSearchParams();
-      
-      // Always include filters
-      params.append('order_key', paginationParams.order_key);
-      params.append('order_direction', paginationParams.order_direction);
-      if (paginationParams.vulnerable !== undefined) {
-        params.append('vulnerable', paginationParams.vulnerable.toString());
-      }
+      const data = await listHostSoftware(api, id, { ...paginationParams }, signal);
+      setSoftware(data.software || []);
+      setTotalCount(data.count || 0);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching host software:', error);
+    }
+  };
 
-      // Only include pagination params if not exporting
-      if (!exportAll) {
-        params.append('page', paginationParams.page.toString());
-        params.append('per_page', paginationParams.per_page.toString());
-      }
+  // Every installed title matching the filters, with the host's scored CVEs on a second sheet
+  const handleExport = async (format: ExportFormat, selection: ColumnSelection) => {
+    if (!id) return;
 
-      const response = await fetch(`/api/latest/fleet/hosts/${id}/software?${params.toString()}`, {
-        headers: { 
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+    setIsExporting(true);
+    try {
+      const data = await listHostSoftware(api, id, {
+        order_key: paginationParams.order_key,
+        order_direction: paginationParams.order_direction,
+        vulnerable: paginationParams.vulnerable,
       });
-      
-      if (response.ok) {
-        const data = await response.json();
-        setSoftware(data.software || []);
-        setTotalCount(data.count || 0);
 
-        // If this is an export request, trigger the download
-        if (exportAll) {
-          // Convert data to CSV format
-          const headers = ['Name', 'Version', 'Source', 'Vulnerability Count'];
-          const csvRows = [headers];
-
-          data.software.forEach((item: Software) => {
-            const version = item.installed_versions?.[0]?.version || 'N/A';
-            const vulnerabilityCount = item.installed_versions?.[0]?.vulnerabilities?.length || 0;
-            csvRows.push([
-              item.name,
-              version,
-              item.source,
-              vulnerabilityCount.toString()
-            ]);
-          });
-
-          // Convert to CSV string
-          const csvContent = csvRows.map(row => row.map(cell => {
-            // Escape quotes and wrap in quotes if contains comma or newline
-            const escaped = cell.toString().replace(/"/g, '""');
-            return cell.toString().includes(',') || cell.toString().includes('\n') 
-              ? `"${escaped}"` 
-              : escaped;
-          }).join(',')).join('\n');
-
-          // Create and trigger download
-          const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-          const url = window.URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `host-${id}-software-export.csv`;
-          document.body.appendChild(a);
-          a.click();
-          window.URL.revokeObjectURL(url);
-          document.body.removeChild(a);
-        }
-      }
+      await exportTables([
+        toTable('Software', selectColumns(SOFTWARE_COLUMNS, selection.Software), data.software || []),
+        toTable('Vulnerabilities', selectColumns(VULNERABILITY_COLUMNS, selection.Vulnerabilities), risk?.vulnerabilities || []),
+      ], `host-${id}-software-export`, format);
     } catch (error) {
-      console.error('Error fetching host software:', error);
+      console.error('Error exporting host software:', error);
+    } finally {
+      setIsExporting(false);
     }
   };
 
-  const handleExport = () => {
-    fetchHostSoftware(true);
-  };
-
   const handlePageChange = (newPage: number) => {
     setPaginationParams(prev => ({ ...prev, page: newPage }));
   };
@@ -226,7 +186,7 @@ export const HostDetailsPage: React.FC = () => {
           <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Host</h3>
           <p className="text-gray-600 mb-4">{error}</p>
           <button
-            onClick={fetchHostDetails}
+            onClick={() => fetchHostDetails()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
           >
             Retry
@@ -266,6 +226,12 @@ export const HostDetailsPage: React.FC = () => {
         }`}>
           {host.status}
         </span>
+        {risk && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>Risk</span>
+            <RiskBadge score={risk.risk_score} />
+          </div>
+        )}
       </div>
 
       {/* Tabs */}
@@ -274,6 +240,7 @@ export const HostDetailsPage: React.FC = () => {
           {[
             { id: 'details', name: 'Details', icon: Monitor },
             { id: 'software', name: 'Software', icon: Package },
+            { id: 'risk', name: 'Risk', icon: ShieldAlert },
             { id: 'properties', name: 'Properties', icon: Settings },
           ].map((tab) => {
             const Icon = tab.icon;
@@ -350,6 +317,115 @@ export const HostDetailsPage: React.FC = () => {
           </div>
         )}
 
+        {activeTab === 'risk' && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Vulnerability Risk</h3>
+              <p className="text-sm text-gray-600">
+                Each CVE adds its CVSS score, doubled when known exploited and raised by its EPSS probability
+              </p>
+            </div>
+            {riskQuery.isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                <span className="ml-3 text-gray-600">Scoring host...</span>
+              </div>
+            ) : !risk ? (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-red-600">{getErrorMessage(riskQuery.error, 'Failed to load risk score')}</span>
+                <button
+                  onClick={() => riskQuery.refetch()}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Retry
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-500">Risk Score</label>
+                    <div><RiskBadge score={risk.risk_score} /></div>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-500">CVEs</label>
+                    <p className="text-sm text-gray-900">
+                      {risk.vulnerabilities_count}
+                      {risk.excepted_count > 0 && (
+                        <button
+                          onClick={() => navigate('/exceptions')}
+                          className="ml-2 text-xs text-indigo-700 hover:text-indigo-900"
+                        >
+                          +{risk.excepted_count} excepted
+                        </button>
+                      )}
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-500">Known Exploited</label>
+                    <p className="text-sm text-gray-900">{risk.known_exploited_count}</p>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-500">Critical</label>
+                    <p className="text-sm text-gray-900">{risk.critical_count}</p>
+                  </div>
+                </div>
+                {risk.vulnerabilities.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CVE</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Software</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CVSS</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">EPSS</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CISA KEV</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contribution</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {risk.vulnerabilities.map(vulnerability => (
+                          <tr key={vulnerability.cve} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <button
+                                onClick={() => navigate(`/vulnerabilities/${vulnerability.cve}`)}
+                                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                              >
+                                {vulnerability.cve}
+                              </button>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {vulnerability.software_name} <span className="text-gray-500">{vulnerability.version}</span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCvss(vulnerability.cvss_score)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatEpss(vulnerability.epss_probability)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              {vulnerability.cisa_known_exploit ? (
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                  <Flame className="h-3 w-3 mr-1" />
+                                  Exploited
+                                </span>
+                              ) : (
+                                <span className="text-sm text-gray-500">No</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{vulnerability.score}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="text-center py-12">
+                    <ShieldAlert className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500">No known vulnerabilities on this host</p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {activeTab === 'software' && (
           <div className="space-y-4">
             <div className="flex justify-between items-center">
@@ -364,13 +440,14 @@ export const HostDetailsPage: React.FC = () => {
                     className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                   />
                 </div>
-                <button
-                  onClick={handleExport}
-                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  Export All
-                </button>
+                <ExportMenu
+                  onExport={handleExport}
+                  isExporting={isExporting}
+                  label="Export All"
+                  exportKey="host-software"
+                  sheets={EXPORT_SHEETS}
+                  className="px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                />
               </div>
             </div>
             <div className="overflow-x-auto">
@@ -388,6 +465,7 @@ export const HostDetailsPage: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vulnerabilities</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Policy</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
@@ -417,6 +495,9 @@ export const HostDetailsPage: React.FC = () => {
                           <span className="text-gray-500">0</span>
                         )}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <PolicyBadge policy={resolvePolicy(item.id, item.name, policies)} />
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, BadgeCheck, AlertCircle, AlertTriangle, Armchair, CalendarClock, Coins, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { EntitlementModal } from '../components/EntitlementModal';
+import { ExportMenu } from '../components/ExportMenu';
+import { ColumnSelection, ExportColumn, ExportFormat, exportRows, selectColumns } from '../utils/export';
+import { getErrorMessage } from '../api/client';
+import { useApiQuery } from '../api/useApiQuery';
+import {
+  COMPLIANCE_FLAGS,
+  CONTRACT_ENDING_WITHIN_DAYS,
+  ComplianceFlag,
+  EntitlementChanges,
+  LicenseCompliance,
+  formatContractEnd,
+  formatCost,
+  getComplianceFlagInfo,
+  getComplianceFlags,
+} from '../utils/entitlements';
+
+// Renewal windows offered for contracts ending soon
+const CONTRACT_WINDOWS = [30, 60, 90, 180];
+
+export const LicenseCompliancePage: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [flagFilter, setFlagFilter] = useState<ComplianceFlag | ''>('');
+  const [contractDays, setContractDays] = useState(CONTRACT_ENDING_WITHIN_DAYS);
+  const [showEntitlementModal, setShowEntitlementModal] = useState(false);
+  // null when adding an entitlement
+  const [editingEntitlement, setEditingEntitlement] = useState<LicenseCompliance | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api, queryCache, user } = useAuth();
+  const navigate = useNavigate();
+  const canManage = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  const complianceQuery = useApiQuery<LicenseCompliance[]>('/api/license-compliance');
+  const entitlements = complianceQuery.data || [];
+  const loadError = complianceQuery.data === undefined && complianceQuery.error
+    ? getErrorMessage(complianceQuery.error, 'Failed to fetch license compliance')
+    : null;
+
+  const flagsOf = (item: LicenseCompliance) => getComplianceFlags(item, contractDays);
+
+  const search = searchTerm.toLowerCase();
+  const filteredEntitlements = entitlements.filter(item =>
+    item.name.toLowerCase().includes(search) && (!flagFilter || flagsOf(item).includes(flagFilter))
+  );
+
+  const overDeployed = entitlements.filter(item => item.over_deployed_count > 0);
+  const unusedSeats = entitlements.reduce((total, item) => total + item.unused_seats, 0);
+  const unusedCost = entitlements.reduce((total, item) => total + (item.unused_cost || 0), 0);
+  const endingContracts = entitlements.filter(item => flagsOf(item).includes('contract_ending'));
+  const totalCost = entitlements.reduce((total, item) => total + (item.total_cost || 0), 0);
+
+  const openEntitlementModal = (entitlement: LicenseCompliance | null) => {
+    setEditingEntitlement(entitlement);
+    setShowEntitlementModal(true);
+  };
+
+  const handleSave = async ({ software_title_id, ...changes }: EntitlementChanges) => {
+    setIsSaving(true);
+    try {
+      await api.put(`/api/license-entitlements/${software_title_id}`, changes);
+      queryCache.invalidate('/api/license-compliance', '/api/license-entitlements');
+      setShowEntitlementModal(false);
+    } catch (error) {
+      console.error('Error saving license entitlement:', error);
+      setError(getErrorMessage(error, 'Failed to save license entitlement'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entitlement: LicenseCompliance) => {
+    if (!window.confirm(`Delete the license entitlement for ${entitlement.name}?`)) return;
+
+    try {
+      await api.delete(`/api/license-entitlements/${entitlement.software_title_id}`);
+      queryCache.invalidate('/api/license-compliance', '/api/license-entitlements');
+    } catch (error) {
+      console.error('Error deleting license entitlement:', error);
+      setError(getErrorMessage(error, 'Failed to delete license entitlement'));
+    }
+  };
+
+  const exportColumns: ExportColumn<LicenseCompliance>[] = [
+    { key: 'name', header: 'Software', value: item => item.name },
+    { key: 'seats', header: 'Purchased Seats', value: item => item.seats },
+    { key: 'installed_count', header: 'Installed', value: item => item.installed_count },
+    { key: 'utilization_percent', header: 'Utilization', value: item => (item.utilization_percent === null ? '' : `${item.utilization_percent}%`) },
+    { key: 'unused_seats', header: 'Unused Seats', value: item => item.unused_seats },
+    { key: 'over_deployed_count', header: 'Over-deployed', value: item => item.over_deployed_count },
+    { key: 'contract_end', header: 'Contract End', value: item => item.contract_end || '' },
+    { key: 'cost_per_seat', header: 'Cost per Seat', value: item => item.cost_per_seat },
+    { key: 'total_cost', header: 'Total Cost', value: item => item.total_cost },
+    { key: 'unused_cost', header: 'Unused Seat Cost', value: item => item.unused_cost },
+    { key: 'over_deployed_cost', header: 'Over-deployment Cost', value: item => item.over_deployed_cost },
+    { key: 'flags', header: 'Flags', value: item => flagsOf(item).map(flag => getComplianceFlagInfo(flag).label).join(', ') },
+    { key: 'software_title_id', header: 'Software Title ID', value: item => item.software_title_id, optional: true },
+    { key: 'updated_by', header: 'Updated By', value: item => item.updated_by || '', optional: true },
+    { key: 'updated_at', header: 'Updated At', value: item => item.updated_at, optional: true },
+  ];
+
+  const handleExport = (format: ExportFormat, selection: ColumnSelection) => {
+    const columns = selectColumns(exportColumns, selection['License Compliance']);
+    return exportRows('License Compliance', filteredEntitlements, columns, 'license-compliance', format);
+  };
+
+  if (complianceQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading license compliance...</span>
+      </div>
+    );
+  }
+
+  if (error || loadError) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading License Compliance</h3>
+          <p className="text-gray-600 mb-4">{error || loadError}</p>
+          <button
+            onClick={() => {
+              setError(null);
+              complianceQuery.refetch();
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">License Compliance</h1>
+          <p className="text-gray-600">Purchased seats against installs across every team</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {canManage && (
+            <button
+              onClick={() => openEntitlementModal(null)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Entitlement
+            </button>
+          )}
+          <ExportMenu
+            onExport={handleExport}
+            disabled={filteredEntitlements.length === 0}
+            exportKey="license-compliance"
+            sheets={[{ name: 'License Compliance', columns: exportColumns }]}
+          />
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <div className="flex items-center">
+            <div className="p-2 bg-red-100 rounded-lg">
+              <AlertTriangle className="h-6 w-6 text-red-600" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Over-deployed Titles</p>
+              <p className="text-2xl font-bold text-gray-900">{overDeployed.length}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <div className="flex items-center">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <Armchair className="h-6 w-6 text-blue-600" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Unused Seats</p>
+              <p className="text-2xl font-bold text-gray-900">{unusedSeats}</p>
+              {unusedCost > 0 && <p className="text-xs text-gray-500">{formatCost(unusedCost)} paid for</p>}
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <div className="flex items-center">
+            <div className="p-2 bg-amber-100 rounded-lg">
+              <CalendarClock className="h-6 w-6 text-amber-600" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Contracts Ending</p>
+              <p className="text-2xl font-bold text-gray-900">{endingContracts.length}</p>
+              <p className="text-xs text-gray-500">Within {contractDays} days</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <div className="flex items-center">
+            <div className="p-2 bg-emerald-100 rounded-lg">
+              <Coins className="h-6 w-6 text-emerald-600" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Total Seat Cost</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCost(totalCost)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search software..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={flagFilter}
+          onChange={(e) => setFlagFilter(e.target.value as ComplianceFlag | '')}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All entitlements</option>
+          {COMPLIANCE_FLAGS.map(item => (
+            <option key={item.value} value={item.value}>{item.label}</option>
+          ))}
+        </select>
+        <select
+          value={contractDays}
+          onChange={(e) => setContractDays(Number(e.target.value))}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          title="Flag contracts ending within"
+        >
+          {CONTRACT_WINDOWS.map(days => (
+            <option key={days} value={days}>Ending within {days} days</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Entitlements Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Software</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Seats</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Installed</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unused / Over</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contract End</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Flags</th>
+                {canManage && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredEntitlements.map(item => (
+                <tr key={item.software_title_id} className="hover:bg-gray-50 transition-colors duration-200">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => navigate(`/software/${item.software_title_id}`)}
+                      className="text-sm font-medium text-gray-900 hover:text-blue-600 transition-colors duration-200"
+                    >
+                      {item.name}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.seats}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{item.installed_count}</div>
+                    {item.utilization_percent !== null && (
+                      <div className="text-xs text-gray-500">{item.utilization_percent}% of seats</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {item.over_deployed_count > 0 ? (
+                      <span className="text-red-600">{item.over_deployed_count} over</span>
+                    ) : (
+                      <span className="text-gray-900">{item.unused_seats} unused</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{formatCost(item.total_cost)}</div>
+                    {item.cost_per_seat !== null && (
+                      <div className="text-xs text-gray-500">{formatCost(item.cost_per_seat)} per seat</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatContractEnd(item.contract_end)}</td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {flagsOf(item).map(flag => {
+                        const flagInfo = getComplianceFlagInfo(flag);
+                        return (
+                          <span
+                            key={flag}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${flagInfo.className}`}
+                          >
+                            {flagInfo.label}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </td>
+                  {canManage && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => openEntitlementModal(item)}
+                          className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(item)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Delete entitlement"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredEntitlements.length === 0 && (
+          <div className="text-center py-12">
+            <BadgeCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {entitlements.length === 0
+                ? 'No license entitlements recorded yet.'
+                : 'No entitlements match your criteria.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Entitlement Modal */}
+      {showEntitlementModal && (
+        <EntitlementModal
+          entitlement={editingEntitlement || undefined}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onClose={() => setShowEntitlementModal(false)}
+        />
+      )}
+    </div>
+  );
+};
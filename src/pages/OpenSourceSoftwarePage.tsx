@@ -1,296 +1,124 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, Download, Package, Shield, AlertTriangle, Users, AlertCircle, X, Edit3 } from 'lucide-react';
+import { Search, Package, Shield, AlertTriangle, Users, AlertCircle, X, Edit3 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { exportToCSV } from '../utils/csvExport';
+import { useTeam } from '../contexts/TeamContext';
+import { TeamAnnotationsToggle } from '../components/TeamAnnotationsToggle';
+import { ColumnSelection, ExportColumn, ExportFormat, exportRows, selectColumns } from '../utils/export';
+import { LicenseCategory, SoftwareLicense, LICENSE_CATEGORIES, formatLicense, getCategoryInfo } from '../utils/licenses';
+import { LicenseBadge } from '../components/LicenseBadge';
+import { LicenseModal } from '../components/LicenseModal';
+import { ExportMenu } from '../components/ExportMenu';
+import { getErrorMessage } from '../api/client';
+import { InventoryTitle as SoftwareTitle, SoftwareTitlesResponse } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
 
 interface OpenSourceSoftware {
   id: number;
   software_title_id: number;
   name: string;
-}
-
-interface SoftwareTitle {
-  id: number;
-  name: string;
-  hosts_count?: number;
-  versions_count?: number;
-  versions?: Array<{
-    id: number;
-    version: string;
-    vulnerabilities: string[] | null;
-    hosts_count: number;
-  }>;
-}
-
-interface VendorInfo {
-  [softwareId: number]: string;
+  spdx_id: string | null;
+  category: LicenseCategory;
 }
 
 export const OpenSourceSoftwarePage: React.FC = () => {
-  const [openSourceList, setOpenSourceList] = useState<OpenSourceSoftware[]>([]);
-  const [softwareDetails, setSoftwareDetails] = useState<Map<number, SoftwareTitle>>(new Map());
-  const [vendorInfo, setVendorInfo] = useState<VendorInfo>({});
   const [searchTerm, setSearchTerm] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
+  const [licenseCategoryFilter, setLicenseCategoryFilter] = useState<LicenseCategory | ''>('');
+  const [licenseModalSoftware, setLicenseModalSoftware] = useState<OpenSourceSoftware | null>(null);
+  const [isUpdatingLicense, setIsUpdatingLicense] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [remarks, setRemarks] = useState<{ [key: number]: string }>({});
   const [showRemarkModal, setShowRemarkModal] = useState(false);
   const [currentRemarkSoftwareId, setCurrentRemarkSoftwareId] = useState<number | null>(null);
   const [currentRemarkText, setCurrentRemarkText] = useState<string>('');
   const [isUpdatingRemark, setIsUpdatingRemark] = useState(false);
   
-  const { token, user } = useAuth();
+  const { api, queryCache, user } = useAuth();
+  const { teamId, annotationTeamId } = useTeam();
   const navigate = useNavigate();
 
-  // Cache for vendor information
-  const vendorCache = new Map<number, string>();
-
-  const fetchVendorInfo = async (versionId: number, softwareId: number) => {
-    // Return cached value if available
-    if (vendorCache.has(softwareId)) {
-      return vendorCache.get(softwareId);
-    }
-
-    // If we already have the vendor info in state, use that
-    if (vendorInfo[softwareId]) {
-      vendorCache.set(softwareId, vendorInfo[softwareId]);
-      return vendorInfo[softwareId];
-    }
-
-    try {
-      const response = await fetch(
-        `/api/latest/fleet/software/${versionId}`,
-        {
-          headers: { 
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      const vendor = data.software?.vendor || 'Unknown';
-      
-      // Update cache and state
-      vendorCache.set(softwareId, vendor);
-      setVendorInfo(prev => ({
-        ...prev,
-        [softwareId]: vendor
-      }));
-      
-      return vendor;
-    } catch (error) {
-      console.error('Error fetching vendor info:', error);
-      return 'Unknown';
-    }
-  };
+  const openSourceQuery = useApiQuery<OpenSourceSoftware[]>('/api/open-source', { team_id: annotationTeamId });
+  // Host, version, vendor and vulnerability details for every flagged title in one request
+  const inventoryQuery = useApiQuery<SoftwareTitlesResponse<SoftwareTitle>>('/api/software-inventory', {
+    open_source: true,
+    team_id: teamId,
+    team_annotations: annotationTeamId !== null,
+  });
+  const remarksQuery = useApiQuery<Array<{ software_title_id: number; remark: string }>>('/api/software-remarks', {
+    team_id: annotationTeamId,
+  });
+
+  const openSourceList = openSourceQuery.data || [];
+  const softwareDetails = new Map((inventoryQuery.data?.software_titles || []).map(title => [title.id, title]));
+  const remarks: { [key: number]: string } = {};
+  (remarksQuery.data || []).forEach(item => {
+    remarks[item.software_title_id] = item.remark;
+  });
+  const loadQuery = [openSourceQuery, inventoryQuery].find(query => query.data === undefined && query.error);
+  const loadError = loadQuery ? getErrorMessage(loadQuery.error, 'Failed to fetch open source software') : null;
+
+  // The open source flag lives with the license classification, so both views go stale together
+  const invalidateOpenSource = () => queryCache.invalidate('/api/open-source', '/api/licenses', '/api/software-inventory');
 
-  const fetchOpenSourceList = async () => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      const response = await fetch('/api/open-source');
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      setOpenSourceList(data);
-      
-      // Fetch details for each software title
-      const detailsMap = new Map();
-      const vendorPromises: Promise<void>[] = [];
-      const processedSoftwareIds = new Set<number>();
-
-      for (const software of data) {
-        // Skip if we've already processed this software
-        if (processedSoftwareIds.has(software.software_title_id)) {
-          continue;
-        }
-        processedSoftwareIds.add(software.software_title_id);
-
-        try {
-          const detailResponse = await fetch(
-            `/api/latest/fleet/software/titles/${software.software_title_id}`,
-            { 
-              headers: { 
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json',
-              } 
-            }
-          );
-          if (detailResponse.ok) {
-            const detailData = await detailResponse.json();
-            const softwareTitle = detailData.software_title;
-            detailsMap.set(software.software_title_id, softwareTitle);
-
-            // If we have versions and haven't fetched vendor info yet, fetch it
-            if (softwareTitle.versions && 
-                softwareTitle.versions.length > 0 && 
-                !vendorCache.has(software.software_title_id) && 
-                !vendorInfo[software.software_title_id]) {
-              const versionId = softwareTitle.versions[0].id;
-              vendorPromises.push(
-                fetchVendorInfo(versionId, software.software_title_id)
-                  .then(vendor => {
-                    if (vendor) {
-                      setVendorInfo(prev => ({
-                        ...prev,
-                        [software.software_title_id]: vendor
-                      }));
-                    }
-                  })
-              );
-            }
-          }
-        } catch (error) {
-          console.error(`Error fetching details for software ${software.software_title_id}:`, error);
-        }
-      }
-
-      setSoftwareDetails(detailsMap);
-      await Promise.all(vendorPromises);
-    } catch (error) {
-      console.error('Error fetching open source list:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch open source software');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const removeFromOpenSource = async (softwareId: number) => {
+    if (!['admin', 'maintainer'].includes(user?.global_role || '')) return;
 
-  // Fetch remarks from your local API
-  const fetchRemarks = async () => {
     try {
-      const response = await fetch('/api/software-remarks');
-      if (response.ok) {
-        const data = await response.json();
-        const remarksMap: { [key: number]: string } = {};
-        data.forEach((item: any) => {
-          remarksMap[item.software_title_id] = item.remark;
-        });
-        setRemarks(remarksMap);
-      }
+      await api.delete(`/api/open-source/${softwareId}`, { params: { team_id: annotationTeamId } });
+      invalidateOpenSource();
     } catch (error) {
-      console.error('Error fetching remarks:', error);
+      console.error('Error removing from open source list:', error);
     }
   };
 
-  useEffect(() => {
-    fetchOpenSourceList();
-    fetchRemarks();
-  }, []);
-
-  const removeFromOpenSource = async (softwareId: number) => {
-    if (!['admin', 'maintainer'].includes(user?.global_role || '')) return;
+  const handleUpdateLicense = async (spdxId: string, category: LicenseCategory) => {
+    if (!licenseModalSoftware) return;
 
+    setIsUpdatingLicense(true);
     try {
-      const response = await fetch(`/api/open-source/${softwareId}`, {
-        method: 'DELETE',
+      await api.put<SoftwareLicense>(`/api/licenses/${licenseModalSoftware.software_title_id}`, {
+        name: licenseModalSoftware.name,
+        spdx_id: spdxId,
+        category,
       });
-      if (response.ok) {
-        setOpenSourceList(prev => prev.filter(item => item.software_title_id !== softwareId));
-        setSoftwareDetails(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(softwareId);
-          return newMap;
-        });
-      }
+      invalidateOpenSource();
+      setLicenseModalSoftware(null);
     } catch (error) {
-      console.error('Error removing from open source list:', error);
+      console.error('Error updating license:', error);
+      setError(getErrorMessage(error, 'Failed to update license'));
+    } finally {
+      setIsUpdatingLicense(false);
     }
   };
 
+  // With a team selected, only titles installed on that team's hosts are listed
   const filteredSoftware = openSourceList.filter(software =>
-    software.name.toLowerCase().includes(searchTerm.toLowerCase())
+    (teamId === null || !inventoryQuery.data || softwareDetails.has(software.software_title_id)) &&
+    software.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (!licenseCategoryFilter || software.category === licenseCategoryFilter)
   );
 
-  const handleExport = async () => {
-    try {
-      // Create a map to store vendor information
-      const vendorMap = new Map<number, string>();
-      
-      // Filter software that has versions
-      const softwareWithVersions = filteredSoftware.filter(software => {
-        const details = softwareDetails.get(software.software_title_id);
-        return details?.versions && details.versions.length > 0;
-      });
-      
-      // Process software in batches of 20
-      const batchSize = 20;
-      
-      for (let i = 0; i < softwareWithVersions.length; i += batchSize) {
-        const batch = softwareWithVersions.slice(i, i + batchSize);
-        
-        // Fetch vendor information for current batch
-        const vendorPromises = batch.map(async (software) => {
-          try {
-            const details = softwareDetails.get(software.software_title_id);
-            if (!details?.versions?.length) return;
-
-            const versionId = details.versions[0].id;
-            const response = await fetch(
-              `/api/latest/fleet/software/${versionId}`,
-              {
-                headers: { 
-                  'Authorization': `Bearer ${token}`,
-                  'Content-Type': 'application/json',
-                },
-              }
-            );
-            
-            if (!response.ok) {
-              throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-            }
-            
-            const data = await response.json();
-            vendorMap.set(software.software_title_id, data.software?.vendor || 'Unknown');
-          } catch (error) {
-            console.error(`Error fetching vendor info for software ${software.software_title_id}:`, error);
-            vendorMap.set(software.software_title_id, 'Unknown');
-          }
-        });
-        
-        // Wait for current batch to complete before moving to next batch
-        await Promise.all(vendorPromises);
-        
-        // Add a small delay between batches to prevent overwhelming the server
-        if (i + batchSize < softwareWithVersions.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-      
-      // Create export data with vendor information
-      const exportData = filteredSoftware.map(software => {
-        const details = softwareDetails.get(software.software_title_id);
-        const totalVulnerabilities = details?.versions?.reduce((count, version) => {
-          return count + (version.vulnerabilities?.length || 0);
-        }, 0) || 0;
-        
-        return {
-          Name: software.name,
-          Vendor: vendorMap.get(software.software_title_id) || 'Unknown',
-          'Host Count': details?.hosts_count || 0,
-          'Version Count': details?.versions_count || 0,
-          'Vulnerabilities Count': totalVulnerabilities,
-          'Open Source': 'Yes',
-          'Remarks': remarks[software.software_title_id] || ''
-        };
-      });
-      
-      exportToCSV(exportData, 'open-source-software-report');
-    } catch (error) {
-      console.error('Error exporting software data:', error);
-      // You might want to show an error message to the user here
-    }
+  const detailsOf = (software: OpenSourceSoftware) => softwareDetails.get(software.software_title_id);
+  const exportColumns: ExportColumn<OpenSourceSoftware>[] = [
+    { key: 'name', header: 'Name', value: software => software.name },
+    { key: 'vendor', header: 'Vendor', value: software => detailsOf(software)?.vendor || 'Unknown' },
+    { key: 'hosts_count', header: 'Host Count', value: software => detailsOf(software)?.hosts_count || 0 },
+    { key: 'versions_count', header: 'Version Count', value: software => detailsOf(software)?.versions_count || 0 },
+    { key: 'vulnerabilities_count', header: 'Vulnerabilities Count', value: software => detailsOf(software)?.vulnerabilities_count || 0 },
+    { key: 'open_source', header: 'Open Source', value: () => 'Yes' },
+    { key: 'license', header: 'License', value: software => formatLicense(software) },
+    { key: 'license_category', header: 'License Category', value: software => getCategoryInfo(software.category).label },
+    { key: 'remark', header: 'Remarks', value: software => remarks[software.software_title_id] || '' },
+    { key: 'software_title_id', header: 'Software Title ID', value: software => software.software_title_id, optional: true },
+  ];
+
+  const handleExport = (format: ExportFormat, selection: ColumnSelection) => {
+    const columns = selectColumns(exportColumns, selection['Open Source Software']);
+    return exportRows('Open Source Software', filteredSoftware, columns, 'open-source-software-report', format);
   };
 
   const handleRemarkClick = (softwareId: number, currentRemark: string) => {
+    if (!['admin', 'maintainer'].includes(user?.global_role || '')) return;
+
     setCurrentRemarkSoftwareId(softwareId);
     setCurrentRemarkText(currentRemark || '');
     setShowRemarkModal(true);
@@ -307,31 +135,19 @@ export const OpenSourceSoftwarePage: React.FC = () => {
     
     setIsUpdatingRemark(true);
     try {
-      const response = await fetch('/api/software-remarks', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          software_title_id: currentRemarkSoftwareId,
-          remark: currentRemarkText 
-        }),
+      await api.post('/api/software-remarks', {
+        software_title_id: currentRemarkSoftwareId,
+        remark: currentRemarkText,
+        name: openSourceList.find(software => software.software_title_id === currentRemarkSoftwareId)?.name,
+        team_id: annotationTeamId,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      // Update the local state with the new remark
-      setRemarks(prev => ({
-        ...prev,
-        [currentRemarkSoftwareId]: currentRemarkText,
-      }));
+      queryCache.invalidate('/api/software-remarks', '/api/software-inventory');
 
       handleCloseRemarkModal();
     } catch (error) {
       console.error('Error updating remark:', error);
-      setError(error instanceof Error ? error.message : 'Failed to update remark');
+      setError(getErrorMessage(error, 'Failed to update remark'));
     } finally {
       setIsUpdatingRemark(false);
     }
@@ -339,7 +155,7 @@ export const OpenSourceSoftwarePage: React.FC = () => {
 
   const canManageOpenSource = ['admin', 'maintainer'].includes(user?.global_role || '');
 
-  if (isLoading) {
+  if (openSourceQuery.isLoading || inventoryQuery.isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -348,15 +164,19 @@ export const OpenSourceSoftwarePage: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (error || loadError) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Open Source Software</h3>
-          <p className="text-gray-600 mb-4">{error}</p>
+          <p className="text-gray-600 mb-4">{error || loadError}</p>
           <button
-            onClick={fetchOpenSourceList}
+            onClick={() => {
+              setError(null);
+              openSourceQuery.refetch();
+              inventoryQuery.refetch();
+            }}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
           >
             Retry
@@ -374,26 +194,38 @@ export const OpenSourceSoftwarePage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Open Source Software</h1>
           <p className="text-gray-600">Software marked as open source in your inventory</p>
         </div>
-        <button
-          onClick={handleExport}
+        <ExportMenu
+          onExport={handleExport}
           disabled={filteredSoftware.length === 0}
-          className="flex items-center px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-        >
-          <Download className="h-4 w-4 mr-2" />
-          Export CSV
-        </button>
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700"
+          exportKey="open-source-software"
+          sheets={[{ name: 'Open Source Software', columns: exportColumns }]}
+        />
       </div>
 
-      {/* Search Bar */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-        <input
-          type="text"
-          placeholder="Search open source software..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-        />
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search open source software..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={licenseCategoryFilter}
+          onChange={(e) => setLicenseCategoryFilter(e.target.value as LicenseCategory | '')}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All license categories</option>
+          {LICENSE_CATEGORIES.map(item => (
+            <option key={item.value} value={item.value}>{item.label}</option>
+          ))}
+        </select>
+        <TeamAnnotationsToggle />
       </div>
 
       {/* Software Table */}
@@ -407,6 +239,7 @@ export const OpenSourceSoftwarePage: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Host Count</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version Count</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vulnerabilities</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">License</th>
                 {canManageOpenSource && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                 )}
@@ -433,8 +266,8 @@ export const OpenSourceSoftwarePage: React.FC = () => {
                       </button>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="max-w-[120px] truncate" title={vendorInfo[software.software_title_id] || 'Loading...'}>
-                        <span className="text-sm text-gray-900">{vendorInfo[software.software_title_id] || 'Loading...'}</span>
+                      <div className="max-w-[120px] truncate" title={details?.vendor || 'Unknown'}>
+                        <span className="text-sm text-gray-900">{details?.vendor || 'Unknown'}</span>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -447,20 +280,27 @@ export const OpenSourceSoftwarePage: React.FC = () => {
                       {details?.versions_count || 0}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {(() => {
-                        const totalVulnerabilities = details?.versions?.reduce((count, version) => {
-                          return count + (version.vulnerabilities?.length || 0);
-                        }, 0) || 0;
-                        
-                        return totalVulnerabilities > 0 ? (
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                            <AlertTriangle className="h-3 w-3 mr-1" />
-                            {totalVulnerabilities}
-                          </span>
-                        ) : (
-                          <span className="text-sm text-gray-500">None</span>
-                        );
-                      })()}
+                      {details?.vulnerabilities_count ? (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {details.vulnerabilities_count}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">None</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {canManageOpenSource ? (
+                        <button
+                          onClick={() => setLicenseModalSoftware(software)}
+                          className="text-left hover:opacity-75 transition-opacity duration-200"
+                          title="Click to classify license"
+                        >
+                          <LicenseBadge license={software} />
+                        </button>
+                      ) : (
+                        <LicenseBadge license={software} />
+                      )}
                     </td>
                     {canManageOpenSource && (
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -506,6 +346,17 @@ export const OpenSourceSoftwarePage: React.FC = () => {
         )}
       </div>
 
+      {/* License Modal */}
+      {licenseModalSoftware && (
+        <LicenseModal
+          softwareName={licenseModalSoftware.name}
+          license={licenseModalSoftware}
+          isSaving={isUpdatingLicense}
+          onSave={handleUpdateLicense}
+          onClose={() => setLicenseModalSoftware(null)}
+        />
+      )}
+
       {/* Remark Modal */}
       {showRemarkModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Search, ArrowDownCircle, AlertCircle, Monitor } from 'lucide-react';
+import { useTeam } from '../contexts/TeamContext';
+import { ExportMenu } from '../components/ExportMenu';
+import { ColumnSelection, ExportColumn, ExportFormat, exportTables, selectColumns, toTable } from '../utils/export';
+import { getErrorMessage } from '../api/client';
+import { useApiQuery } from '../api/useApiQuery';
+import { BaselineCompliance, OutdatedHost, formatCompliance, getComplianceClassName } from '../utils/versions';
+
+const HOST_COLUMNS: ExportColumn<OutdatedHost>[] = [
+  { key: 'display_name', header: 'Host', value: host => host.display_name },
+  { key: 'status', header: 'Status', value: host => host.status },
+  { key: 'os_version', header: 'OS Version', value: host => host.os_version || '' },
+  { key: 'team_name', header: 'Team', value: host => host.team_name || '' },
+  { key: 'software_name', header: 'Software', value: host => host.software_name },
+  { key: 'installed_version', header: 'Installed Version', value: host => host.installed_version },
+  { key: 'baseline_version', header: 'Baseline Version', value: host => host.baseline_version },
+  { key: 'id', header: 'Host ID', value: host => host.id, optional: true },
+];
+
+const COMPLIANCE_COLUMNS: ExportColumn<BaselineCompliance>[] = [
+  { key: 'name', header: 'Software', value: item => item.name },
+  { key: 'baseline_version', header: 'Baseline Version', value: item => item.baseline_version },
+  { key: 'latest_version', header: 'Latest Version', value: item => item.latest_version || '' },
+  { key: 'hosts_count', header: 'Host Count', value: item => item.hosts_count },
+  { key: 'outdated_hosts_count', header: 'Outdated Hosts', value: item => item.outdated_hosts_count },
+  { key: 'compliance_percent', header: 'Compliance', value: item => formatCompliance(item.compliance_percent) },
+];
+
+const EXPORT_SHEETS = [
+  { name: 'Outdated Hosts', columns: HOST_COLUMNS },
+  { name: 'Baseline Compliance', columns: COMPLIANCE_COLUMNS },
+];
+
+export const OutdatedSoftwarePage: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { teamId } = useTeam();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The title filter lives in the URL so details pages can link straight to a title's report
+  const softwareTitleId = searchParams.get('software_title_id') || '';
+
+  const complianceQuery = useApiQuery<BaselineCompliance[]>('/api/software-baselines/compliance', { team_id: teamId });
+  const outdatedQuery = useApiQuery<{ hosts: OutdatedHost[]; count: number }>('/api/outdated-hosts', {
+    team_id: teamId,
+    software_title_id: softwareTitleId,
+  });
+
+  const compliance = complianceQuery.data || [];
+  const hosts = outdatedQuery.data?.hosts || [];
+  const loadError = outdatedQuery.data === undefined && outdatedQuery.error
+    ? getErrorMessage(outdatedQuery.error, 'Failed to fetch outdated hosts')
+    : null;
+
+  const search = searchTerm.toLowerCase();
+  const filteredHosts = hosts.filter(host =>
+    host.display_name.toLowerCase().includes(search) || host.software_name.toLowerCase().includes(search)
+  );
+  const shownCompliance = softwareTitleId
+    ? compliance.filter(item => item.software_title_id === Number(softwareTitleId))
+    : compliance;
+
+  const setSoftwareTitleId = (value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) {
+        next.set('software_title_id', value);
+      } else {
+        next.delete('software_title_id');
+      }
+      return next;
+    });
+  };
+
+  // Outdated hosts with the per-title compliance summary on a second sheet
+  const handleExport = (format: ExportFormat, selection: ColumnSelection) => {
+    return exportTables([
+      toTable('Outdated Hosts', selectColumns(HOST_COLUMNS, selection['Outdated Hosts']), filteredHosts),
+      toTable('Baseline Compliance', selectColumns(COMPLIANCE_COLUMNS, selection['Baseline Compliance']), shownCompliance),
+    ], 'outdated-software', format);
+  };
+
+  if (outdatedQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading outdated hosts...</span>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Outdated Software</h3>
+          <p className="text-gray-600 mb-4">{loadError}</p>
+          <button
+            onClick={() => outdatedQuery.refetch()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Outdated Software</h1>
+          <p className="text-gray-600">Hosts running a version older than the approved baseline</p>
+        </div>
+        <ExportMenu
+          onExport={handleExport}
+          disabled={filteredHosts.length === 0}
+          exportKey="outdated-software"
+          sheets={EXPORT_SHEETS}
+        />
+      </div>
+
+      {/* Compliance by title */}
+      {shownCompliance.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {shownCompliance.map(item => (
+            <button
+              key={item.software_title_id}
+              onClick={() => navigate(`/software/${item.software_title_id}`)}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 text-left hover:border-blue-300 transition-colors duration-200"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 truncate" title={item.name}>{item.name}</span>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getComplianceClassName(item.compliance_percent)}`}>
+                  {formatCompliance(item.compliance_percent)}
+                </span>
+              </div>
+              <p className="mt-1 text-sm text-gray-600">
+                Baseline {item.baseline_version}
+                {item.latest_version && ` · latest ${item.latest_version}`}
+                {` · ${item.outdated_hosts_count} outdated`}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by host or software..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={softwareTitleId}
+          onChange={(e) => setSoftwareTitleId(e.target.value)}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All baselined software</option>
+          {compliance.map(item => (
+            <option key={item.software_title_id} value={item.software_title_id}>{item.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Hosts Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Host</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Software</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Installed</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Baseline</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">OS Version</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredHosts.map(host => (
+                <tr key={`${host.software_version_id}-${host.id}`} className="hover:bg-gray-50 transition-colors duration-200">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => navigate(`/host/${host.id}`)}
+                      className="flex items-center text-left hover:text-blue-600 transition-colors duration-200"
+                    >
+                      <Monitor className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+                      <span className="text-sm font-medium text-gray-900">{host.display_name}</span>
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => navigate(`/software/${host.software_title_id}`)}
+                      className="text-sm text-gray-900 hover:text-blue-600 transition-colors duration-200"
+                    >
+                      {host.software_name}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => navigate(`/software/versions/${host.software_version_id}`)}
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                    >
+                      {host.installed_version}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{host.baseline_version}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      host.status === 'online' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {host.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{host.os_version || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredHosts.length === 0 && (
+          <div className="text-center py-12">
+            <ArrowDownCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {compliance.length === 0
+                ? 'No baseline versions set. Choose one on a software details page.'
+                : hosts.length === 0
+                ? 'Every host is on the baseline version or newer.'
+                : 'No hosts match your search.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,408 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Monitor, Package, Ban, AlertCircle, Plus, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { ColumnSelection, ExportColumn, ExportFormat, exportRows, selectColumns } from '../utils/export';
+import { PolicyStatus, SoftwarePolicy, POLICY_STATUSES, resolvePolicy } from '../utils/policies';
+import { PolicyBadge } from '../components/PolicyBadge';
+import { ExportMenu } from '../components/ExportMenu';
+import { isAbortError, getErrorMessage } from '../api/client';
+import { listHosts, listSoftwareTitles } from '../api/fleet';
+import { Host, SoftwareTitle } from '../api/types';
+
+interface Violation {
+  host: Host;
+  software: SoftwareTitle;
+  policy: SoftwarePolicy;
+}
+
+const EXPORT_COLUMNS: ExportColumn<Violation>[] = [
+  { key: 'host', header: 'Host', value: ({ host }) => host.display_name },
+  { key: 'status', header: 'Status', value: ({ host }) => host.status },
+  { key: 'os_version', header: 'OS', value: ({ host }) => host.os_version },
+  { key: 'primary_ip', header: 'Private IP', value: ({ host }) => host.primary_ip },
+  { key: 'software', header: 'Software', value: ({ software }) => software.name },
+  { key: 'rule', header: 'Rule', value: ({ policy }) => (policy.name_pattern ? `Pattern: ${policy.name_pattern}` : 'Title') },
+  { key: 'reason', header: 'Reason', value: ({ policy }) => policy.reason || '' },
+  { key: 'hostname', header: 'Hostname', value: ({ host }) => host.hostname, optional: true },
+  { key: 'hardware_serial', header: 'Serial Number', value: ({ host }) => host.hardware_serial, optional: true },
+];
+
+export const PolicyViolationsPage: React.FC = () => {
+  const [policies, setPolicies] = useState<SoftwarePolicy[]>([]);
+  const [violations, setViolations] = useState<Violation[]>([]);
+  const [bannedTitles, setBannedTitles] = useState<SoftwareTitle[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newPattern, setNewPattern] = useState('');
+  const [newStatus, setNewStatus] = useState<PolicyStatus>('banned');
+  const [newReason, setNewReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { api, queryCache, user } = useAuth();
+  const navigate = useNavigate();
+  const { teamId } = useTeam();
+  const canManagePolicies = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadViolations(controller.signal);
+    return () => controller.abort();
+  }, [teamId]);
+
+  const fetchPolicies = async (signal?: AbortSignal) => {
+    const data = await api.get<SoftwarePolicy[]>('/api/policies', { signal });
+    setPolicies(data);
+    return data;
+  };
+
+  const loadViolations = async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const currentPolicies = await fetchPolicies(signal);
+
+      // Pattern rules can match any title, so resolve against the full inventory
+      const titlesData = await listSoftwareTitles(api, {
+        order_key: 'hosts_count',
+        order_direction: 'desc',
+        team_id: teamId,
+      }, signal);
+
+      const banned = (titlesData.software_titles || [])
+        .filter(software => software.hosts_count > 0)
+        .map(software => ({ software, policy: resolvePolicy(software.id, software.name, currentPolicies) }))
+        .filter((item): item is { software: SoftwareTitle; policy: SoftwarePolicy } => item.policy?.status === 'banned');
+
+      setBannedTitles(banned.map(item => item.software));
+
+      const found: Violation[] = [];
+      for (const { software, policy } of banned) {
+        try {
+          const hostsData = await listHosts(api, {
+            software_title_id: software.id,
+            order_key: 'display_name',
+            order_direction: 'asc',
+            team_id: teamId,
+          }, signal);
+          (hostsData.hosts || []).forEach(host => {
+            found.push({ host, software, policy });
+          });
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.error(`Error fetching hosts for software ${software.id}:`, error);
+        }
+      }
+
+      setViolations(found);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error loading policy violations:', error);
+      setError(getErrorMessage(error, 'Failed to load policy violations'));
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleAddPattern = async () => {
+    if (!newPattern.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await api.post('/api/policies', { name_pattern: newPattern, status: newStatus, reason: newReason });
+      queryCache.invalidate('/api/policies');
+
+      setNewPattern('');
+      setNewReason('');
+      loadViolations();
+    } catch (error) {
+      console.error('Error adding policy:', error);
+      setError(getErrorMessage(error, 'Failed to add policy'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePolicy = async (policyId: number) => {
+    try {
+      await api.delete(`/api/policies/${policyId}`);
+      queryCache.invalidate('/api/policies');
+
+      loadViolations();
+    } catch (error) {
+      console.error('Error deleting policy:', error);
+      setError(getErrorMessage(error, 'Failed to delete policy'));
+    }
+  };
+
+  const handleExport = (format: ExportFormat, selection: ColumnSelection) => {
+    const columns = selectColumns(EXPORT_COLUMNS, selection['Policy Violations']);
+    return exportRows('Policy Violations', violations, columns, 'policy-violations-report', format);
+  };
+
+  const affectedHostCount = new Set(violations.map(violation => violation.host.id)).size;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Checking hosts against policy...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Policy Violations</h3>
+          <p className="text-gray-600 mb-4">{error}</p>
+          <button
+            onClick={() => loadViolations()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Policy Violations</h1>
+          <p className="text-gray-600">Hosts running software that is banned by policy</p>
+        </div>
+        <ExportMenu
+          onExport={handleExport}
+          disabled={violations.length === 0}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700"
+          exportKey="policy-violations"
+          sheets={[{ name: 'Policy Violations', columns: EXPORT_COLUMNS }]}
+        />
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <div className="flex items-center">
+            <div className="p-2 bg-red-100 rounded-lg">
+              <Ban className="h-6 w-6 text-red-600" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Banned Titles Installed</p>
+              <p className="text-2xl font-bold text-gray-900">{bannedTitles.length}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <div className="flex items-center">
+            <div className="p-2 bg-amber-100 rounded-lg">
+              <Monitor className="h-6 w-6 text-amber-600" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Affected Hosts</p>
+              <p className="text-2xl font-bold text-gray-900">{affectedHostCount}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+          <div className="flex items-center">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <Package className="h-6 w-6 text-blue-600" />
+            </div>
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Policy Rules</p>
+              <p className="text-2xl font-bold text-gray-900">{policies.length}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Violations Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Violations</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Host</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Software</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {violations.map(({ host, software, policy }) => (
+                <tr key={`${host.id}-${software.id}`} className="hover:bg-gray-50 transition-colors duration-200">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => navigate(`/host/${host.id}`)}
+                      className="flex items-center text-sm font-medium text-gray-900 hover:text-blue-600 transition-colors duration-200"
+                    >
+                      <Monitor className="h-4 w-4 text-gray-400 mr-2" />
+                      {host.display_name}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      host.status === 'online'
+                        ? 'bg-emerald-100 text-emerald-800'
+                        : 'bg-red-100 text-red-800'
+                    }`}>
+                      {host.status === 'online' ? <CheckCircle className="h-3 w-3 mr-1" /> : <XCircle className="h-3 w-3 mr-1" />}
+                      {host.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => navigate(`/software/${software.id}`)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                    >
+                      {software.name}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {policy.name_pattern ? `Pattern "${policy.name_pattern}"` : 'Title'}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="max-w-[250px] truncate text-sm text-gray-900" title={policy.reason || ''}>
+                      {policy.reason || '—'}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {violations.length === 0 && (
+          <div className="text-center py-12">
+            <CheckCircle className="h-12 w-12 text-emerald-400 mx-auto mb-4" />
+            <p className="text-gray-500">No hosts are running banned software.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Policy Rules */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Policy Rules</h3>
+          <p className="text-sm text-gray-600">
+            Rules for a single title are set from the Software page. Name patterns use * as a wildcard, e.g. "*torrent*".
+          </p>
+        </div>
+
+        {canManagePolicies && (
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row gap-4">
+            <input
+              type="text"
+              placeholder="Name pattern..."
+              value={newPattern}
+              onChange={(e) => setNewPattern(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value={newStatus}
+              onChange={(e) => setNewStatus(e.target.value as PolicyStatus)}
+              className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {POLICY_STATUSES.map(item => (
+                <option key={item.value} value={item.value}>{item.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Reason..."
+              value={newReason}
+              onChange={(e) => setNewReason(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={handleAddPattern}
+              disabled={isSaving || !newPattern.trim()}
+              className="flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rule
+            </button>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Set By</th>
+                {canManagePolicies && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {policies.map((policy) => (
+                <tr key={policy.id} className="hover:bg-gray-50 transition-colors duration-200">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {policy.name_pattern ? (
+                      <span className="font-mono">{policy.name_pattern}</span>
+                    ) : (
+                      <button
+                        onClick={() => navigate(`/software/${policy.software_title_id}`)}
+                        className="font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                      >
+                        {policy.name || `#${policy.software_title_id}`}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <PolicyBadge policy={policy} />
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="max-w-[250px] truncate text-sm text-gray-900" title={policy.reason || ''}>
+                      {policy.reason || '—'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {policy.created_by || 'Unknown'}
+                  </td>
+                  {canManagePolicies && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => handleDeletePolicy(policy.id)}
+                        className="flex items-center text-red-600 hover:text-red-800 text-sm font-medium transition-colors duration-200"
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Remove
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {policies.length === 0 && (
+          <div className="text-center py-12">
+            <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No policy rules defined yet.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Wrench, AlertCircle, CheckCircle, Clock, Trash2, RefreshCw } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { SeverityBadge } from '../components/SeverityBadge';
+import { RemediationTicketModal } from '../components/RemediationTicketModal';
+import { getErrorMessage } from '../api/client';
+import { useApiQuery } from '../api/useApiQuery';
+import {
+  RemediationTicket,
+  TicketChanges,
+  TicketStatus,
+  TICKET_STATUSES,
+  describeTicketTarget,
+  getTicketStatusInfo,
+  isOverdue,
+} from '../utils/remediation';
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '—';
+  try {
+    // Due dates are plain dates; timestamps are SQLite UTC without a zone suffix
+    return dateString.length === 10
+      ? new Date(`${dateString}T00:00:00`).toLocaleDateString()
+      : new Date(`${dateString.replace(' ', 'T')}Z`).toLocaleDateString();
+  } catch {
+    return 'Invalid Date';
+  }
+};
+
+export const RemediationPage: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<TicketStatus | ''>('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [editingTicket, setEditingTicket] = useState<RemediationTicket | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [verifyingId, setVerifyingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api, queryCache, user } = useAuth();
+  const navigate = useNavigate();
+  const canManage = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  const ticketsQuery = useApiQuery<RemediationTicket[]>('/api/remediation-tickets', { status: statusFilter });
+  const tickets = ticketsQuery.data || [];
+  const loadError = ticketsQuery.data === undefined && ticketsQuery.error
+    ? getErrorMessage(ticketsQuery.error, 'Failed to fetch remediation tickets')
+    : null;
+
+  const search = searchTerm.toLowerCase();
+  const filteredTickets = tickets.filter(ticket =>
+    (!overdueOnly || isOverdue(ticket)) &&
+    (describeTicketTarget(ticket).toLowerCase().includes(search) || (ticket.assignee || '').toLowerCase().includes(search))
+  );
+  const overdueCount = tickets.filter(isOverdue).length;
+
+  const handleSave = async (changes: TicketChanges) => {
+    if (!editingTicket) return;
+
+    setIsSaving(true);
+    try {
+      await api.put(`/api/remediation-tickets/${editingTicket.id}`, changes);
+      queryCache.invalidate('/api/remediation-tickets');
+      setEditingTicket(null);
+    } catch (error) {
+      console.error('Error updating remediation ticket:', error);
+      setError(getErrorMessage(error, 'Failed to update remediation ticket'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async (ticket: RemediationTicket) => {
+    setVerifyingId(ticket.id);
+    try {
+      await api.post(`/api/remediation-tickets/${ticket.id}/verify`);
+      queryCache.invalidate('/api/remediation-tickets');
+    } catch (error) {
+      console.error('Error verifying remediation ticket:', error);
+      setError(getErrorMessage(error, 'Failed to verify remediation ticket'));
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
+  const handleDelete = async (ticket: RemediationTicket) => {
+    if (!window.confirm(`Delete the remediation ticket for ${describeTicketTarget(ticket)}?`)) return;
+
+    try {
+      await api.delete(`/api/remediation-tickets/${ticket.id}`);
+      queryCache.invalidate('/api/remediation-tickets');
+    } catch (error) {
+      console.error('Error deleting remediation ticket:', error);
+      setError(getErrorMessage(error, 'Failed to delete remediation ticket'));
+    }
+  };
+
+  if (ticketsQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading remediation tickets...</span>
+      </div>
+    );
+  }
+
+  if (error || loadError) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Remediation</h3>
+          <p className="text-gray-600 mb-4">{error || loadError}</p>
+          <button
+            onClick={() => {
+              setError(null);
+              ticketsQuery.refetch();
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Remediation</h1>
+        <p className="text-gray-600">
+          Who is fixing which vulnerability, and by when
+          {overdueCount > 0 && <span className="ml-2 text-red-600 font-medium">{overdueCount} overdue</span>}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by CVE, software or assignee..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as TicketStatus | '')}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All statuses</option>
+          {TICKET_STATUSES.map(item => (
+            <option key={item.value} value={item.value}>{item.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={overdueOnly}
+            onChange={(e) => setOverdueOnly(e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+          />
+          Overdue only
+        </label>
+      </div>
+
+      {/* Tickets Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vulnerability</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assignee</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                {canManage && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredTickets.map(ticket => {
+                const statusInfo = getTicketStatusInfo(ticket.status);
+                return (
+                  <tr key={ticket.id} className="hover:bg-gray-50 transition-colors duration-200">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(ticket.cve
+                          ? `/vulnerabilities/${ticket.cve}`
+                          : `/software/versions/${ticket.software_version_id}`)}
+                        className="text-sm font-medium text-gray-900 hover:text-blue-600 transition-colors duration-200"
+                      >
+                        {describeTicketTarget(ticket)}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <SeverityBadge severity={ticket.severity} score={ticket.cvss_score} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {ticket.assignee || <span className="text-gray-500">Unassigned</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusInfo.className}`}>
+                        {statusInfo.label}
+                      </span>
+                      {ticket.status === 'fixed' && (
+                        <div className="mt-1 flex items-center text-xs text-gray-500">
+                          {ticket.verified_at ? (
+                            <>
+                              <CheckCircle className="h-3 w-3 mr-1 text-emerald-600" />
+                              Verified {formatDate(ticket.verified_at)}
+                            </>
+                          ) : (
+                            <>
+                              <Clock className="h-3 w-3 mr-1" />
+                              Still installed in Fleet
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${isOverdue(ticket) ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                      {formatDate(ticket.due_date)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="max-w-[250px] truncate text-sm text-gray-500" title={ticket.notes || ''}>
+                        {ticket.notes || '—'}
+                      </div>
+                    </td>
+                    {canManage && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-3">
+                          <button
+                            onClick={() => setEditingTicket(ticket)}
+                            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            Edit
+                          </button>
+                          {ticket.status === 'fixed' && !ticket.verified_at && (
+                            <button
+                              onClick={() => handleVerify(ticket)}
+                              disabled={verifyingId === ticket.id}
+                              className="text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                              title="Check Fleet now"
+                            >
+                              <RefreshCw className={`h-4 w-4 ${verifyingId === ticket.id ? 'animate-spin' : ''}`} />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDelete(ticket)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Delete ticket"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredTickets.length === 0 && (
+          <div className="text-center py-12">
+            <Wrench className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {tickets.length === 0
+                ? 'No remediation tickets yet. Track a fix from a vulnerability or software version.'
+                : 'No tickets match your criteria.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Edit Modal */}
+      {editingTicket && (
+        <RemediationTicketModal
+          title={describeTicketTarget(editingTicket)}
+          ticket={editingTicket}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onClose={() => setEditingTicket(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { CalendarClock, AlertCircle, Plus, Play, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { ReportScheduleModal } from '../components/ReportScheduleModal';
+import { getErrorMessage } from '../api/client';
+import { useApiQuery } from '../api/useApiQuery';
+import { ReportSchedule, ScheduleChanges, describeCron, formatRunTime, getReportTypeLabel } from '../utils/reportSchedules';
+
+export const ReportSchedulesPage: React.FC = () => {
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  // null when adding a schedule
+  const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [runningId, setRunningId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api, queryCache, user } = useAuth();
+  const { teams } = useTeam();
+  const canManage = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  const schedulesQuery = useApiQuery<ReportSchedule[]>('/api/report-schedules', {}, { enabled: canManage });
+  const schedules = schedulesQuery.data || [];
+  const loadError = schedulesQuery.data === undefined && schedulesQuery.error
+    ? getErrorMessage(schedulesQuery.error, 'Failed to fetch report schedules')
+    : null;
+
+  const describeTeam = (teamId: number | null) => {
+    if (teamId === null) return 'All teams';
+    return teams.find(team => team.id === teamId)?.name || `Team #${teamId}`;
+  };
+
+  const openScheduleModal = (schedule: ReportSchedule | null) => {
+    setEditingSchedule(schedule);
+    setShowScheduleModal(true);
+  };
+
+  const handleSave = async (changes: ScheduleChanges) => {
+    setIsSaving(true);
+    try {
+      if (editingSchedule) {
+        await api.put(`/api/report-schedules/${editingSchedule.id}`, changes);
+      } else {
+        await api.post('/api/report-schedules', changes);
+      }
+      queryCache.invalidate('/api/report-schedules');
+      setShowScheduleModal(false);
+    } catch (error) {
+      console.error('Error saving report schedule:', error);
+      setError(getErrorMessage(error, 'Failed to save report schedule'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRun = async (schedule: ReportSchedule) => {
+    setRunningId(schedule.id);
+    try {
+      await api.post(`/api/report-schedules/${schedule.id}/run`);
+    } catch (error) {
+      console.error('Error running report schedule:', error);
+      setError(getErrorMessage(error, 'Failed to run report schedule'));
+    } finally {
+      // The outcome is kept on the schedule either way
+      queryCache.invalidate('/api/report-schedules');
+      setRunningId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!window.confirm(`Delete the report schedule "${schedule.name}"?`)) return;
+
+    try {
+      await api.delete(`/api/report-schedules/${schedule.id}`);
+      queryCache.invalidate('/api/report-schedules');
+    } catch (error) {
+      console.error('Error deleting report schedule:', error);
+      setError(getErrorMessage(error, 'Failed to delete report schedule'));
+    }
+  };
+
+  if (!canManage) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <CalendarClock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">Only admins and maintainers can manage scheduled reports.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (schedulesQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading report schedules...</span>
+      </div>
+    );
+  }
+
+  if (error || loadError) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Scheduled Reports</h3>
+          <p className="text-gray-600 mb-4">{error || loadError}</p>
+          <button
+            onClick={() => {
+              setError(null);
+              schedulesQuery.refetch();
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Scheduled Reports</h1>
+          <p className="text-gray-600">Exports generated on a schedule and emailed to the recipients</p>
+        </div>
+        <button
+          onClick={() => openScheduleModal(null)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Schedule
+        </button>
+      </div>
+
+      {/* Schedules Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipients</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Run</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {schedules.map(schedule => (
+                <tr key={schedule.id} className="hover:bg-gray-50 transition-colors duration-200">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{schedule.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {getReportTypeLabel(schedule.report_type)} · {describeTeam(schedule.team_id)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900" title={schedule.cron}>{describeCron(schedule.cron)}</div>
+                    <div className="text-sm text-gray-500">
+                      {schedule.enabled
+                        ? schedule.next_run_at && `Next ${new Date(schedule.next_run_at).toLocaleString()}`
+                        : 'Disabled'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="max-w-[250px] truncate text-sm text-gray-900" title={schedule.recipients}>
+                      {schedule.recipients || <span className="text-gray-500">Saved to disk only</span>}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {schedule.last_run_at ? (
+                      <>
+                        <div className="text-sm text-gray-900">{formatRunTime(schedule.last_run_at)}</div>
+                        <span
+                          className={`mt-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            schedule.last_status === 'success' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'
+                          }`}
+                          title={schedule.last_error || schedule.last_file || undefined}
+                        >
+                          {schedule.last_status === 'success' ? 'Succeeded' : 'Failed'}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-sm text-gray-500">Never</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => openScheduleModal(schedule)}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleRun(schedule)}
+                        disabled={runningId !== null}
+                        className="text-gray-400 hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Run now"
+                      >
+                        {runningId === schedule.id ? (
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                        ) : (
+                          <Play className="h-4 w-4" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(schedule)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete schedule"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {schedules.length === 0 && (
+          <div className="text-center py-12">
+            <CalendarClock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No scheduled reports yet.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Schedule Modal */}
+      {showScheduleModal && (
+        <ReportScheduleModal
+          schedule={editingSchedule || undefined}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onClose={() => setShowScheduleModal(false)}
+        />
+      )}
+    </div>
+  );
+};
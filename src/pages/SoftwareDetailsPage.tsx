@@ -1,60 +1,89 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Package, Users, AlertTriangle, ChevronRight, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Package, Users, ChevronRight, AlertCircle, History, Edit3, Target } from 'lucide-react';
+import { CommentThread } from '../components/CommentThread';
 import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../api/client';
+import { SoftwareTitle } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+import { useTeam } from '../contexts/TeamContext';
+import { SoftwareBaseline, compareVersions, formatCompliance, getComplianceClassName } from '../utils/versions';
 
-interface SoftwareVersion {
+interface RemarkVersion {
   id: number;
-  version: string;
-  hosts_count: number;
-  vulnerabilities: Array<{ cve: string; cvss_score: number; details_link: string }>;
-}
-
-interface SoftwareDetails {
-  id: number;
-  name: string;
-  hosts_count: number;
-  versions: SoftwareVersion[];
+  software_title_id: number;
+  version: number;
+  remark: string | null;
+  author_email: string | null;
+  created_at: string;
 }
 
 export const SoftwareDetailsPage: React.FC = () => {
-  const [software, setSoftware] = useState<SoftwareDetails | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [showRemarkHistory, setShowRemarkHistory] = useState(false);
+  const [isSavingBaseline, setIsSavingBaseline] = useState(false);
+  const [baselineError, setBaselineError] = useState<string | null>(null);
   
   const { id } = useParams<{ id: string }>();
-  const { token } = useAuth();
   const navigate = useNavigate();
+  const { api, queryCache, user } = useAuth();
+  const { teamId, annotationTeamId } = useTeam();
+  const canManage = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  // Host and version counts cover the selected team's hosts only
+  const softwareQuery = useApiQuery<{ software_title: SoftwareTitle }>(`/api/latest/fleet/software/titles/${id}`, {
+    team_id: teamId,
+  });
+  // Invalidated along with /api/software-remarks when a remark is saved
+  const remarkHistoryQuery = useApiQuery<RemarkVersion[]>(`/api/software-remarks/${id}/history`, {
+    team_id: annotationTeamId,
+  });
+
+  const baselinesQuery = useApiQuery<SoftwareBaseline[]>('/api/software-baselines');
 
-  useEffect(() => {
-    if (id) {
-      fetchSoftwareDetails();
+  const software = softwareQuery.data?.software_title;
+  const remarkHistory = remarkHistoryQuery.data || [];
+  const baseline = (baselinesQuery.data || []).find(item => item.software_title_id === Number(id));
+  // Newest first, so the latest known version heads the table
+  const versions = [...(software?.versions || [])].sort((a, b) => compareVersions(b.version, a.version));
+  const isOutdated = (version: string) => !!baseline && compareVersions(version, baseline.baseline_version) < 0;
+  const installedHostsCount = versions.reduce((total, version) => total + (version.hosts_count || 0), 0);
+  const outdatedHostsCount = versions
+    .filter(version => isOutdated(version.version))
+    .reduce((total, version) => total + (version.hosts_count || 0), 0);
+  const compliancePercent = baseline && installedHostsCount > 0
+    ? Math.round(((installedHostsCount - outdatedHostsCount) / installedHostsCount) * 1000) / 10
+    : null;
+  const error = software === undefined && softwareQuery.error
+    ? getErrorMessage(softwareQuery.error, 'Failed to fetch software details')
+    : null;
+
+  const formatDate = (dateString: string) => {
+    if (!dateString) return 'Never';
+    try {
+      // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+      return new Date(`${dateString.replace(' ', 'T')}Z`).toLocaleString();
+    } catch {
+      return 'Invalid Date';
     }
-  }, [id]);
+  };
+
+  const handleBaselineChange = async (baselineVersion: string) => {
+    if (!software) return;
 
-  const fetchSoftwareDetails = async () => {
-    setIsLoading(true);
-    setError(null);
-    
+    setIsSavingBaseline(true);
+    setBaselineError(null);
     try {
-      const response = await fetch(`/api/latest/fleet/software/titles/${id}`, {
-        headers: { 
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (baselineVersion) {
+        await api.put(`/api/software-baselines/${software.id}`, { name: software.name, baseline_version: baselineVersion });
+      } else {
+        await api.delete(`/api/software-baselines/${software.id}`);
       }
-      
-      const data = await response.json();
-      setSoftware(data.software_title);
+      queryCache.invalidate('/api/software-baselines', '/api/outdated-hosts');
     } catch (error) {
-      console.error('Error fetching software details:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch software details');
+      console.error('Error updating baseline version:', error);
+      setBaselineError(getErrorMessage(error, 'Failed to update baseline version'));
     } finally {
-      setIsLoading(false);
+      setIsSavingBaseline(false);
     }
   };
 
@@ -66,7 +95,7 @@ export const SoftwareDetailsPage: React.FC = () => {
     navigate(`/home?software_version_id=${versionId}`);
   };
 
-  if (isLoading) {
+  if (softwareQuery.isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -83,7 +112,7 @@ export const SoftwareDetailsPage: React.FC = () => {
           <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Software</h3>
           <p className="text-gray-600 mb-4">{error}</p>
           <button
-            onClick={fetchSoftwareDetails}
+            onClick={softwareQuery.refetch}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
           >
             Retry
@@ -116,6 +145,13 @@ export const SoftwareDetailsPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">{software.name}</h1>
           <p className="text-gray-600">Software package details</p>
         </div>
+        <button
+          onClick={() => navigate(`/activity?software_title_id=${id}`)}
+          className="flex items-center px-4 py-2 border border-gray-300 text-sm font-medium text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors duration-200"
+        >
+          <History className="h-4 w-4 mr-2" />
+          Activity
+        </button>
       </div>
 
       {/* Summary Card */}
@@ -141,11 +177,106 @@ export const SoftwareDetailsPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Baseline */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <Target className="h-5 w-5 text-gray-400" />
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Approved Baseline</h3>
+              <p className="text-sm text-gray-600">
+                {baseline
+                  ? `Hosts below ${baseline.baseline_version} are reported as outdated`
+                  : 'No baseline set; every installed version is accepted'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            {baseline && (
+              <>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getComplianceClassName(compliancePercent)}`}>
+                  {formatCompliance(compliancePercent)} compliant
+                </span>
+                {outdatedHostsCount > 0 && (
+                  <button
+                    onClick={() => navigate(`/software/outdated?software_title_id=${software.id}`)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                  >
+                    {outdatedHostsCount} outdated
+                  </button>
+                )}
+              </>
+            )}
+            {canManage && (
+              <select
+                value={baseline?.baseline_version || ''}
+                onChange={(e) => handleBaselineChange(e.target.value)}
+                disabled={isSavingBaseline}
+                className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+              >
+                <option value="">No baseline</option>
+                {baseline && !versions.some(version => version.version === baseline.baseline_version) && (
+                  <option value={baseline.baseline_version}>{baseline.baseline_version}</option>
+                )}
+                {versions.map(version => (
+                  <option key={version.id} value={version.version}>{version.version}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+        {baselineError && <p className="mt-2 text-sm text-red-600">{baselineError}</p>}
+      </div>
+
+      {/* Remark */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Remark</h3>
+            <p className="text-sm text-gray-600">Current remark and its earlier versions</p>
+          </div>
+          {remarkHistory.length > 1 && (
+            <button
+              onClick={() => setShowRemarkHistory(prev => !prev)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200"
+            >
+              {showRemarkHistory ? 'Hide history' : `Show history (${remarkHistory.length - 1})`}
+            </button>
+          )}
+        </div>
+        {remarkHistory.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {(showRemarkHistory ? remarkHistory : remarkHistory.slice(0, 1)).map((entry, index) => (
+              <div key={entry.id} className="px-6 py-4">
+                <div className="flex items-center text-sm text-gray-500">
+                  <Edit3 className="h-3 w-3 mr-1" />
+                  <span>v{entry.version}</span>
+                  <span className="mx-2">•</span>
+                  <span>{entry.author_email || 'Unknown'}</span>
+                  <span className="mx-2">•</span>
+                  <span>{formatDate(entry.created_at)}</span>
+                  {index === 0 && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <p className={`mt-1 text-sm whitespace-pre-wrap ${index === 0 ? 'text-gray-900' : 'text-gray-500'}`}>
+                  {entry.remark || <span className="italic">Cleared</span>}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="px-6 py-4 text-sm text-gray-500">No remark has been added yet</div>
+        )}
+      </div>
+
       {/* Versions Table */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="px-6 py-4 border-b border-gray-200">
           <h3 className="text-lg font-medium text-gray-900">Software Versions</h3>
-          <p className="text-sm text-gray-600">All versions of this software and their deployment status</p>
+          <p className="text-sm text-gray-600">All versions of this software, newest first, and their deployment status</p>
         </div>
         
         <div className="overflow-x-auto">
@@ -158,7 +289,7 @@ export const SoftwareDetailsPage: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {software.versions?.map((version) => (
+              {versions.map((version, index) => (
                 <tr key={version.id} className="hover:bg-gray-50 transition-colors duration-200">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center space-x-2">
@@ -168,6 +299,21 @@ export const SoftwareDetailsPage: React.FC = () => {
                       >
                         {version.version}
                       </button>
+                      {index === 0 && versions.length > 1 && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Latest
+                        </span>
+                      )}
+                      {baseline?.baseline_version === version.version && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                          Baseline
+                        </span>
+                      )}
+                      {isOutdated(version.version) && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          Below baseline
+                        </span>
+                      )}
                       {version.vulnerabilities && version.vulnerabilities.length > 0 && (
                         <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
                           {version.vulnerabilities.length} {version.vulnerabilities.length === 1 ? 'vulnerability' : 'vulnerabilities'}
@@ -202,6 +348,9 @@ export const SoftwareDetailsPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* Discussion */}
+      <CommentThread softwareTitleId={software.id} />
     </div>
   );
 };
\ No newline at end of file
@@ -1,127 +1,61 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, Download, Package, Shield, AlertTriangle, Users, AlertCircle, ChevronLeft, ChevronRight, X, Edit3 } from 'lucide-react';
+import { Search, Package, AlertTriangle, Users, AlertCircle, ChevronLeft, ChevronRight, X, Edit3, ShieldCheck, Grid3x3 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { exportToCSV } from '../utils/csvExport';
-
-interface SoftwareVersion {
-  id: number;
-  version: string;
-  vulnerabilities: string[] | null;
-}
-
-interface SoftwareTitle {
-  id: number;
-  name: string;
-  hosts_count: number;
-  versions_count: number;
-  versions: SoftwareVersion[];
-  source: string;
-  remark?: string;
-}
-
-interface SoftwareTitlesResponse {
-  software_titles: SoftwareTitle[];
-  count: number;
-}
-
-interface VendorInfo {
-  [softwareId: number]: string;
+import { useTeam } from '../contexts/TeamContext';
+import { TeamAnnotationsToggle } from '../components/TeamAnnotationsToggle';
+import { ColumnSelection, ExportColumn, ExportFormat, exportRows, selectColumns } from '../utils/export';
+import { LicenseCategory, SoftwareLicense, LICENSE_CATEGORIES, formatLicense, getCategoryInfo } from '../utils/licenses';
+import { LicenseBadge } from '../components/LicenseBadge';
+import { LicenseModal } from '../components/LicenseModal';
+import { PolicyStatus, SoftwarePolicy, resolvePolicy } from '../utils/policies';
+import { PolicyBadge } from '../components/PolicyBadge';
+import { PolicyModal } from '../components/PolicyModal';
+import { RiskExceptionModal } from '../components/RiskExceptionModal';
+import { ExportMenu } from '../components/ExportMenu';
+import { ExportProgress } from '../components/ExportProgress';
+import { HostSoftwareExportModal, HostSoftwareExportOptions } from '../components/HostSoftwareExportModal';
+import { ExceptionChanges, RiskException, coversView } from '../utils/exceptions';
+import { BaselineCompliance, formatCompliance, getComplianceClassName } from '../utils/versions';
+import { isAbortError, getErrorMessage } from '../api/client';
+import { InventoryTitle as SoftwareTitle, SoftwareTitlesResponse } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+import { useStreamExport } from '../api/useStreamExport';
+
+// One title in the software export, with the counts and compliance shown in the table
+interface ExportRow {
+  software: SoftwareTitle;
+  vulnerabilities: { open: number; excepted: number; isTitleExcepted: boolean };
+  compliance?: BaselineCompliance;
 }
 
 export const SoftwareListPage: React.FC = () => {
-  const [softwareTitles, setSoftwareTitles] = useState<SoftwareTitle[]>([]);
-  const [openSourceList, setOpenSourceList] = useState<Set<number>>(new Set());
+  const [licenseCategoryFilter, setLicenseCategoryFilter] = useState<LicenseCategory | ''>('');
+  const [spdxFilter, setSpdxFilter] = useState('');
+  const [licenseModalSoftware, setLicenseModalSoftware] = useState<SoftwareTitle | null>(null);
+  const [isUpdatingLicense, setIsUpdatingLicense] = useState(false);
+  const [policyModalSoftware, setPolicyModalSoftware] = useState<SoftwareTitle | null>(null);
+  const [isUpdatingPolicy, setIsUpdatingPolicy] = useState(false);
+  const [exceptionModalSoftware, setExceptionModalSoftware] = useState<SoftwareTitle | null>(null);
+  const [isSavingException, setIsSavingException] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [showVulnerable, setShowVulnerable] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
-  const [totalCount, setTotalCount] = useState(0);
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [isExporting, setIsExporting] = useState(false);
-  const [vendorInfo, setVendorInfo] = useState<VendorInfo>({});
-  const [remarks, setRemarks] = useState<{ [key: number]: string }>({});
+  const [showHostSoftwareModal, setShowHostSoftwareModal] = useState(false);
   const [showRemarkModal, setShowRemarkModal] = useState(false);
   const [currentRemarkSoftwareId, setCurrentRemarkSoftwareId] = useState<number | null>(null);
   const [currentRemarkText, setCurrentRemarkText] = useState<string>('');
   const [isUpdatingRemark, setIsUpdatingRemark] = useState(false);
   
-  const { token, user } = useAuth();
+  const { api, queryCache, user } = useAuth();
+  const { teamId, annotationTeamId } = useTeam();
+  const hostSoftwareExport = useStreamExport();
   const navigate = useNavigate();
   const itemsPerPage = 20;
 
-  // Cache for vendor information
-  const vendorCache = new Map<number, string>();
-
-  const fetchVendorInfo = async (versionId: number, softwareId: number) => {
-    // Return cached value if available
-    if (vendorCache.has(softwareId)) {
-      return vendorCache.get(softwareId);
-    }
-
-    try {
-      const response = await fetch(
-        `/api/latest/fleet/software/${versionId}`,
-        {
-          headers: { 
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      const vendor = data.software?.vendor || 'Unknown';
-      
-      // Update cache and state
-      vendorCache.set(softwareId, vendor);
-      setVendorInfo(prev => ({
-        ...prev,
-        [softwareId]: vendor
-      }));
-      
-      return vendor;
-    } catch (error) {
-      console.error('Error fetching vendor info:', error);
-      return 'Unknown';
-    }
-  };
-
-  // Fetch remarks from your local API
-  const fetchRemarks = async () => {
-    try {
-      const response = await fetch('/api/software-remarks');
-      if (response.ok) {
-        const data = await response.json();
-        const remarksMap: { [key: number]: string } = {};
-        data.forEach((item: any) => {
-          remarksMap[item.software_title_id] = item.remark;
-        });
-        setRemarks(remarksMap);
-      }
-    } catch (error) {
-      console.error('Error fetching remarks:', error);
-    }
-  };
-
-  // Effect to fetch vendor info when software titles change
-  useEffect(() => {
-    const fetchVendorsForCurrentPage = async () => {
-      const vendorPromises = softwareTitles
-        .filter(software => software.versions.length > 0 && !vendorInfo[software.id])
-        .map(software => fetchVendorInfo(software.versions[0].id, software.id));
-      
-      await Promise.all(vendorPromises);
-    };
-
-    fetchVendorsForCurrentPage();
-  }, [softwareTitles]);
-
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearchTerm(searchTerm);
@@ -130,70 +64,132 @@ export const SoftwareListPage: React.FC = () => {
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
-  useEffect(() => {
-    fetchSoftwareTitles();
-    fetchOpenSourceList();
-    fetchRemarks();
-  }, [debouncedSearchTerm, currentPage, showVulnerable]);
-
-  const fetchSoftwareTitles = async () => {
-    setIsLoading(true);
-    setError(null);
-    
+  // Build the inventory query shared by the table and the export
+  const buildInventoryParams = () => ({
+    vulnerable: showVulnerable,
+    query: debouncedSearchTerm,
+    category: licenseCategoryFilter,
+    spdx_id: spdxFilter,
+    team_id: teamId,
+    team_annotations: annotationTeamId !== null,
+  });
+
+  // Cached across navigation, so returning from a details page or revisiting a page renders at once
+  const titlesQuery = useApiQuery<SoftwareTitlesResponse<SoftwareTitle>>('/api/software-inventory', {
+    ...buildInventoryParams(),
+    page: currentPage,
+    per_page: itemsPerPage,
+  });
+  const licensesQuery = useApiQuery<SoftwareLicense[]>('/api/licenses');
+  // Open source flags and remarks are the selected team's when team annotations are on
+  const openSourceQuery = useApiQuery<SoftwareLicense[]>('/api/open-source', { team_id: annotationTeamId });
+  const remarksQuery = useApiQuery<Array<{ software_title_id: number; remark: string }>>('/api/software-remarks', {
+    team_id: annotationTeamId,
+  });
+  const policiesQuery = useApiQuery<SoftwarePolicy[]>('/api/policies');
+  const exceptionsQuery = useApiQuery<RiskException[]>('/api/risk-exceptions', { status: 'active' });
+  // Only titles with an approved baseline version are listed
+  const complianceQuery = useApiQuery<BaselineCompliance[]>('/api/software-baselines/compliance', { team_id: teamId });
+
+  const softwareTitles = titlesQuery.data?.software_titles || [];
+  const totalCount = titlesQuery.data?.count || 0;
+  const licenses = new Map((licensesQuery.data || []).map(item => [item.software_title_id, item]));
+  const openSourceList = new Set((openSourceQuery.data || []).map(item => item.software_title_id));
+  const policies = policiesQuery.data || [];
+  const exceptions = exceptionsQuery.data || [];
+  const compliance = new Map((complianceQuery.data || []).map(item => [item.software_title_id, item]));
+  const remarks: { [key: number]: string } = {};
+  (remarksQuery.data || []).forEach(item => {
+    remarks[item.software_title_id] = item.remark;
+  });
+
+  // Vulnerabilities not covered by a risk exception for the selected team; an excepted title has none
+  const countVulnerabilities = (software: SoftwareTitle) => {
+    const isTitleExcepted = exceptions.some(exception => coversView(exception, { name: software.name, teamId }));
+    let open = 0;
+    let excepted = 0;
+    software.versions.forEach(version => {
+      (version.vulnerabilities || []).forEach(cve => {
+        if (isTitleExcepted || exceptions.some(exception => coversView(exception, { cve, name: software.name, teamId }))) {
+          excepted += 1;
+        } else {
+          open += 1;
+        }
+      });
+    });
+    return { open, excepted, isTitleExcepted };
+  };
+
+  const handleSaveException = async (changes: ExceptionChanges) => {
+    if (!exceptionModalSoftware) return;
+
+    setIsSavingException(true);
     try {
-      const params = new URLSearchParams({
-        page: currentPage.toString(),
-        per_page: itemsPerPage.toString(),
-        order_direction: 'desc',
-        order_key: 'hosts_count',
-        vulnerable: showVulnerable.toString(),
-        exploit: 'false'
+      await api.post('/api/risk-exceptions', {
+        software_title_id: exceptionModalSoftware.id,
+        name: exceptionModalSoftware.name,
+        ...changes,
       });
+      queryCache.invalidate('/api/risk-exceptions', '/api/host-risk');
+      setExceptionModalSoftware(null);
+    } catch (error) {
+      console.error('Error saving risk exception:', error);
+      setError(getErrorMessage(error, 'Failed to save risk exception'));
+    } finally {
+      setIsSavingException(false);
+    }
+  };
 
-      if (debouncedSearchTerm) {
-        params.append('query', debouncedSearchTerm);
-      }
+  const handleUpdatePolicy = async (status: PolicyStatus | '', reason: string) => {
+    if (!policyModalSoftware) return;
 
-      const response = await fetch(
-        `/api/latest/fleet/software/titles?${params.toString()}`,
-        {
-          headers: { 
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const titlePolicy = policies.find(policy => policy.software_title_id === policyModalSoftware.id);
+    setIsUpdatingPolicy(true);
+    try {
+      if (status) {
+        await api.post('/api/policies', {
+          software_title_id: policyModalSoftware.id,
+          name: policyModalSoftware.name,
+          status,
+          reason,
+        });
+      } else if (titlePolicy) {
+        await api.delete(`/api/policies/${titlePolicy.id}`);
       }
-      
-      const data: SoftwareTitlesResponse = await response.json();
-      setSoftwareTitles(data.software_titles || []);
-      setTotalCount(data.count || 0);
 
+      queryCache.invalidate('/api/policies');
+      setPolicyModalSoftware(null);
     } catch (error) {
-      console.error('Error fetching software titles:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch software');
+      console.error('Error updating policy:', error);
+      setError(getErrorMessage(error, 'Failed to update policy'));
     } finally {
-      setIsLoading(false);
+      setIsUpdatingPolicy(false);
     }
   };
 
-  const fetchOpenSourceList = async () => {
+  const handleUpdateLicense = async (spdxId: string, category: LicenseCategory) => {
+    if (!licenseModalSoftware) return;
+
+    setIsUpdatingLicense(true);
     try {
-      const response = await fetch('/api/open-source');
-      if (response.ok) {
-        const data = await response.json();
-        const osSet = new Set(data.map((item: any) => item.software_title_id));
-        setOpenSourceList(osSet);
-      }
+      await api.put<SoftwareLicense>(`/api/licenses/${licenseModalSoftware.id}`, {
+        name: licenseModalSoftware.name,
+        spdx_id: spdxId,
+        category,
+      });
+      queryCache.invalidate('/api/licenses', '/api/open-source', '/api/software-inventory');
+      setLicenseModalSoftware(null);
     } catch (error) {
-      console.error('Error fetching open source list:', error);
+      console.error('Error updating license:', error);
+      setError(getErrorMessage(error, 'Failed to update license'));
+    } finally {
+      setIsUpdatingLicense(false);
     }
   };
 
   const handleRemarkClick = (softwareId: number, currentRemark: string) => {
+    if (!['admin', 'maintainer'].includes(user?.global_role || '')) return;
+
     setCurrentRemarkSoftwareId(softwareId);
     setCurrentRemarkText(currentRemark || '');
     setShowRemarkModal(true);
@@ -210,31 +206,19 @@ export const SoftwareListPage: React.FC = () => {
     
     setIsUpdatingRemark(true);
     try {
-      const response = await fetch('/api/software-remarks', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          software_title_id: currentRemarkSoftwareId,
-          remark: currentRemarkText 
-        }),
+      await api.post('/api/software-remarks', {
+        software_title_id: currentRemarkSoftwareId,
+        remark: currentRemarkText,
+        name: softwareTitles.find(software => software.id === currentRemarkSoftwareId)?.name,
+        team_id: annotationTeamId,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      // Update the local state with the new remark
-      setRemarks(prev => ({
-        ...prev,
-        [currentRemarkSoftwareId]: currentRemarkText,
-      }));
+      queryCache.invalidate('/api/software-remarks', '/api/software-inventory');
 
       handleCloseRemarkModal();
     } catch (error) {
       console.error('Error updating remark:', error);
-      setError(error instanceof Error ? error.message : 'Failed to update remark');
+      setError(getErrorMessage(error, 'Failed to update remark'));
     } finally {
       setIsUpdatingRemark(false);
     }
@@ -246,27 +230,12 @@ export const SoftwareListPage: React.FC = () => {
     try {
       if (openSourceList.has(softwareId)) {
         // Remove from open source
-        const response = await fetch(`/api/open-source/${softwareId}`, {
-          method: 'DELETE',
-        });
-        if (response.ok) {
-          setOpenSourceList(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(softwareId);
-            return newSet;
-          });
-        }
+        await api.delete(`/api/open-source/${softwareId}`, { params: { team_id: annotationTeamId } });
       } else {
         // Add to open source
-        const response = await fetch('/api/open-source', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ software_title_id: softwareId, name }),
-        });
-        if (response.ok) {
-          setOpenSourceList(prev => new Set([...prev, softwareId]));
-        }
+        await api.post('/api/open-source', { software_title_id: softwareId, name, team_id: annotationTeamId });
       }
+      queryCache.invalidate('/api/licenses', '/api/open-source', '/api/software-inventory');
     } catch (error) {
       console.error('Error toggling open source status:', error);
     }
@@ -274,32 +243,9 @@ export const SoftwareListPage: React.FC = () => {
 
   const fetchAllSoftwareTitles = async () => {
     try {
-      const params = new URLSearchParams({
-        order_direction: 'desc',
-        order_key: 'hosts_count',
-        vulnerable: showVulnerable.toString(),
-        exploit: 'false'
+      const data = await api.get<SoftwareTitlesResponse<SoftwareTitle>>('/api/software-inventory', {
+        params: buildInventoryParams(),
       });
-
-      if (debouncedSearchTerm) {
-        params.append('query', debouncedSearchTerm);
-      }
-
-      const response = await fetch(
-        `/api/latest/fleet/software/titles?${params.toString()}`,
-        {
-          headers: { 
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data: SoftwareTitlesResponse = await response.json();
       return data.software_titles || [];
     } catch (error) {
       console.error('Error fetching all software titles:', error);
@@ -307,72 +253,40 @@ export const SoftwareListPage: React.FC = () => {
     }
   };
 
-  const handleExport = async () => {
+  const exportColumns: ExportColumn<ExportRow>[] = [
+    { key: 'name', header: 'Name', value: ({ software }) => software.name },
+    { key: 'source', header: 'Type', value: ({ software }) => software.source.charAt(0).toUpperCase() + software.source.slice(1) },
+    { key: 'vendor', header: 'Vendor', value: ({ software }) => software.vendor || 'Unknown' },
+    { key: 'hosts_count', header: 'Host Count', value: ({ software }) => software.hosts_count },
+    { key: 'versions_count', header: 'Version Count', value: ({ software }) => software.versions_count },
+    { key: 'baseline_version', header: 'Baseline Version', value: ({ compliance }) => compliance?.baseline_version || '' },
+    { key: 'baseline_compliance', header: 'Baseline Compliance', value: ({ compliance }) => (compliance ? formatCompliance(compliance.compliance_percent) : '') },
+    { key: 'vulnerabilities_count', header: 'Vulnerabilities Count', value: ({ vulnerabilities }) => vulnerabilities.open },
+    { key: 'excepted_count', header: 'Excepted Vulnerabilities', value: ({ vulnerabilities }) => vulnerabilities.excepted },
+    { key: 'risk_exception', header: 'Risk Exception', value: ({ vulnerabilities }) => (vulnerabilities.isTitleExcepted ? 'Yes' : 'No') },
+    { key: 'open_source', header: 'Open Source', value: ({ software }) => (openSourceList.has(software.id) ? 'Yes' : 'No') },
+    { key: 'license', header: 'License', value: ({ software }) => formatLicense(licenses.get(software.id)) },
+    { key: 'license_category', header: 'License Category', value: ({ software }) => getCategoryInfo(licenses.get(software.id)?.category).label },
+    { key: 'policy', header: 'Policy', value: ({ software }) => resolvePolicy(software.id, software.name, policies)?.status || '' },
+    { key: 'remark', header: 'Remark', value: ({ software }) => remarks[software.id] || '' },
+    { key: 'id', header: 'Software Title ID', value: ({ software }) => software.id, optional: true },
+    { key: 'versions', header: 'Versions', value: ({ software }) => software.versions.map(version => version.version).join(', '), optional: true },
+    { key: 'policy_reason', header: 'Policy Reason', value: ({ software }) => resolvePolicy(software.id, software.name, policies)?.reason || '', optional: true },
+  ];
+
+  const handleExport = async (format: ExportFormat, selection: ColumnSelection) => {
     setIsExporting(true);
     try {
-      // First fetch all software titles based on current filters
+      // Vendor and vulnerability counts come back with the titles, so this is a single request
       const allSoftware = await fetchAllSoftwareTitles();
-      
-      // Create a map to store vendor information
-      const vendorMap = new Map<number, string>();
-      
-      // Process software in batches of 20
-      const batchSize = 20;
-      const softwareWithVersions = allSoftware.filter(software => software.versions.length > 0);
-      
-      for (let i = 0; i < softwareWithVersions.length; i += batchSize) {
-        const batch = softwareWithVersions.slice(i, i + batchSize);
-        
-        // Fetch vendor information for current batch
-        const vendorPromises = batch.map(async (software) => {
-          try {
-            const versionId = software.versions[0].id;
-            const response = await fetch(
-              `/api/latest/fleet/software/${versionId}`,
-              {
-                headers: { 
-                  'Authorization': `Bearer ${token}`,
-                  'Content-Type': 'application/json',
-                },
-              }
-            );
-            
-            if (!response.ok) {
-              throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-            }
-            
-            const data = await response.json();
-            vendorMap.set(software.id, data.software?.vendor || 'Unknown');
-          } catch (error) {
-            console.error(`Error fetching vendor info for software ${software.id}:`, error);
-            vendorMap.set(software.id, 'Unknown');
-          }
-        });
-        
-        // Wait for current batch to complete before moving to next batch
-        await Promise.all(vendorPromises);
-        
-        // Add a small delay between batches to prevent overwhelming the server
-        if (i + batchSize < softwareWithVersions.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-      
-      // Create export data with vendor information
-      const exportData = allSoftware.map(software => ({
-        Name: software.name,
-        Type: software.source.charAt(0).toUpperCase() + software.source.slice(1),
-        Vendor: vendorMap.get(software.id) || 'Unknown',
-        'Host Count': software.hosts_count,
-        'Version Count': software.versions_count,
-        'Vulnerabilities Count': software.versions.reduce((count, version) => {
-          return count + (version.vulnerabilities?.length || 0);
-        }, 0),
-        'Open Source': openSourceList.has(software.id) ? 'Yes' : 'No',
-        Remark: remarks[software.id] || '',
+      const rows: ExportRow[] = allSoftware.map(software => ({
+        software,
+        vulnerabilities: countVulnerabilities(software),
+        compliance: compliance.get(software.id),
       }));
-      
-      exportToCSV(exportData, 'software-report');
+
+      const columns = selectColumns(exportColumns, selection['Software Inventory']);
+      await exportRows('Software Inventory', rows, columns, 'software-report', format);
     } catch (error) {
       console.error('Error exporting software data:', error);
       // You might want to show an error message to the user here
@@ -381,10 +295,35 @@ export const SoftwareListPage: React.FC = () => {
     }
   };
 
+  // Which host has which software, streamed by the backend since it grows with hosts times titles
+  const handleHostSoftwareExport = async ({ format, columns, open_source, software_title_ids }: HostSoftwareExportOptions) => {
+    setShowHostSoftwareModal(false);
+    try {
+      await hostSoftwareExport.start('/api/exports/host-software', {
+        columns: columns && JSON.stringify(columns),
+        open_source,
+        software_title_ids: software_title_ids.join(','),
+        team_id: teamId,
+        team_annotations: annotationTeamId !== null,
+      }, 'host-software-report', format);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error exporting host software:', error);
+      setError(getErrorMessage(error, 'Failed to export host software'));
+    }
+  };
+
   const canToggleOpenSource = ['admin', 'maintainer'].includes(user?.global_role || '');
+  const spdxOptions = [...new Set(
+    [...licenses.values()].map(license => license.spdx_id).filter((spdxId): spdxId is string => !!spdxId)
+  )].sort();
   const totalPages = Math.ceil(totalCount / itemsPerPage);
+  // A failed background revalidation keeps showing the cached titles
+  const loadError = titlesQuery.data === undefined && titlesQuery.error
+    ? getErrorMessage(titlesQuery.error, 'Failed to fetch software')
+    : null;
 
-  if (isLoading) {
+  if (titlesQuery.isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -393,15 +332,18 @@ export const SoftwareListPage: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (error || loadError) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Software</h3>
-          <p className="text-gray-600 mb-4">{error}</p>
+          <p className="text-gray-600 mb-4">{error || loadError}</p>
           <button
-            onClick={fetchSoftwareTitles}
+            onClick={() => {
+              setError(null);
+              titlesQuery.refetch();
+            }}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
           >
             Retry
@@ -416,27 +358,37 @@ export const SoftwareListPage: React.FC = () => {
       {/* Header */}
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold text-gray-900">Software Inventory</h1>
-        <button
-          onClick={handleExport}
-          disabled={isExporting || softwareTitles.length === 0}
-          className="flex items-center px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-        >
-          {isExporting ? (
-            <>
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              Exporting...
-            </>
-          ) : (
-            <>
-              <Download className="h-4 w-4 mr-2" />
-              Export CSV
-            </>
-          )}
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowHostSoftwareModal(true)}
+            disabled={hostSoftwareExport.isExporting}
+            className="flex items-center px-4 py-2 border border-gray-300 text-sm font-medium text-gray-700 bg-white rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Grid3x3 className="h-4 w-4 mr-2" />
+            Host Software
+          </button>
+          <ExportMenu
+            onExport={handleExport}
+            disabled={softwareTitles.length === 0}
+            isExporting={isExporting}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700"
+            exportKey="software"
+            sheets={[{ name: 'Software Inventory', columns: exportColumns }]}
+          />
+        </div>
       </div>
 
+      {/* Host Software Export Progress */}
+      {hostSoftwareExport.isExporting && (
+        <ExportProgress
+          label="Exporting host software..."
+          progress={hostSoftwareExport.progress}
+          onCancel={hostSoftwareExport.cancel}
+        />
+      )}
+
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <input
@@ -456,6 +408,33 @@ export const SoftwareListPage: React.FC = () => {
           />
           <span className="text-sm font-medium text-gray-700">Show vulnerable only</span>
         </label>
+        <select
+          value={licenseCategoryFilter}
+          onChange={(e) => {
+            setLicenseCategoryFilter(e.target.value as LicenseCategory | '');
+            setCurrentPage(0);
+          }}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All license categories</option>
+          {LICENSE_CATEGORIES.map(item => (
+            <option key={item.value} value={item.value}>{item.label}</option>
+          ))}
+        </select>
+        <select
+          value={spdxFilter}
+          onChange={(e) => {
+            setSpdxFilter(e.target.value);
+            setCurrentPage(0);
+          }}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All licenses</option>
+          {spdxOptions.map(spdxId => (
+            <option key={spdxId} value={spdxId}>{spdxId}</option>
+          ))}
+        </select>
+        <TeamAnnotationsToggle />
       </div>
 
       {/* Software Table */}
@@ -469,7 +448,10 @@ export const SoftwareListPage: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Host Count</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version Count</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Baseline</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vulnerabilities</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">License</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Policy</th>
                 {canToggleOpenSource && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Open Source</th>
                 )}
@@ -502,8 +484,8 @@ export const SoftwareListPage: React.FC = () => {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="max-w-[120px] truncate" title={vendorInfo[software.id] || 'Loading...'}>
-                      <span className="text-sm text-gray-900">{vendorInfo[software.id] || 'Loading...'}</span>
+                    <div className="max-w-[120px] truncate" title={software.vendor || 'Unknown'}>
+                      <span className="text-sm text-gray-900">{software.vendor || 'Unknown'}</span>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -517,20 +499,84 @@ export const SoftwareListPage: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     {(() => {
-                      const totalVulnerabilities = software.versions.reduce((count, version) => {
-                        return count + (version.vulnerabilities?.length || 0);
-                      }, 0);
-                      
-                      return totalVulnerabilities > 0 ? (
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                          <AlertTriangle className="h-3 w-3 mr-1" />
-                          {totalVulnerabilities}
-                        </span>
-                      ) : (
-                        <span className="text-sm text-gray-500">None</span>
+                      const titleCompliance = compliance.get(software.id);
+                      if (!titleCompliance) return <span className="text-sm text-gray-500">—</span>;
+
+                      return (
+                        <button
+                          onClick={() => navigate(`/software/outdated?software_title_id=${software.id}`)}
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getComplianceClassName(titleCompliance.compliance_percent)}`}
+                          title={`Baseline ${titleCompliance.baseline_version}: ${titleCompliance.outdated_hosts_count} outdated`}
+                        >
+                          {formatCompliance(titleCompliance.compliance_percent)}
+                        </button>
                       );
                     })()}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {(() => {
+                      const { open, excepted, isTitleExcepted } = countVulnerabilities(software);
+
+                      return (
+                        <div className="flex items-center space-x-2">
+                          {isTitleExcepted ? (
+                            <button
+                              onClick={() => navigate('/exceptions')}
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                              title={excepted > 0 ? `${excepted} vulnerabilities excepted` : undefined}
+                            >
+                              <ShieldCheck className="h-3 w-3 mr-1" />
+                              Excepted
+                            </button>
+                          ) : open > 0 ? (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {open}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-500">None</span>
+                          )}
+                          {!isTitleExcepted && excepted > 0 && (
+                            <span className="text-xs text-indigo-700">{excepted} excepted</span>
+                          )}
+                          {canToggleOpenSource && !isTitleExcepted && open > 0 && (
+                            <button
+                              onClick={() => setExceptionModalSoftware(software)}
+                              className="text-gray-400 hover:text-indigo-600"
+                              title="Add risk exception"
+                            >
+                              <ShieldCheck className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {canToggleOpenSource ? (
+                      <button
+                        onClick={() => setLicenseModalSoftware(software)}
+                        className="text-left hover:opacity-75 transition-opacity duration-200"
+                        title="Click to classify license"
+                      >
+                        <LicenseBadge license={licenses.get(software.id)} />
+                      </button>
+                    ) : (
+                      <LicenseBadge license={licenses.get(software.id)} />
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {canToggleOpenSource ? (
+                      <button
+                        onClick={() => setPolicyModalSoftware(software)}
+                        className="text-left hover:opacity-75 transition-opacity duration-200"
+                      >
+                        <PolicyBadge policy={resolvePolicy(software.id, software.name, policies)} />
+                      </button>
+                    ) : (
+                      <PolicyBadge policy={resolvePolicy(software.id, software.name, policies)} />
+                    )}
+                  </td>
                   {canToggleOpenSource && (
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
@@ -605,6 +651,48 @@ export const SoftwareListPage: React.FC = () => {
         )}
       </div>
 
+      {/* Host Software Export Modal */}
+      {showHostSoftwareModal && (
+        <HostSoftwareExportModal
+          onExport={handleHostSoftwareExport}
+          onClose={() => setShowHostSoftwareModal(false)}
+        />
+      )}
+
+      {/* License Modal */}
+      {licenseModalSoftware && (
+        <LicenseModal
+          softwareName={licenseModalSoftware.name}
+          license={licenses.get(licenseModalSoftware.id)}
+          isSaving={isUpdatingLicense}
+          onSave={handleUpdateLicense}
+          onClose={() => setLicenseModalSoftware(null)}
+        />
+      )}
+
+      {/* Policy Modal */}
+      {policyModalSoftware && (
+        <PolicyModal
+          softwareName={policyModalSoftware.name}
+          titlePolicy={policies.find(policy => policy.software_title_id === policyModalSoftware.id)}
+          patternPolicy={resolvePolicy(policyModalSoftware.id, policyModalSoftware.name, policies.filter(policy => policy.name_pattern))}
+          isSaving={isUpdatingPolicy}
+          onSave={handleUpdatePolicy}
+          onClose={() => setPolicyModalSoftware(null)}
+        />
+      )}
+
+      {/* Risk Exception Modal */}
+      {exceptionModalSoftware && (
+        <RiskExceptionModal
+          title={`All vulnerabilities in ${exceptionModalSoftware.name}`}
+          hostParams={{ software_title_id: exceptionModalSoftware.id }}
+          isSaving={isSavingException}
+          onSave={handleSaveException}
+          onClose={() => setExceptionModalSoftware(null)}
+        />
+      )}
+
       {/* Remark Modal */}
       {showRemarkModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
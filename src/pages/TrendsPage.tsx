@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Monitor, Package, AlertTriangle, AlertCircle, Camera, GitCompare } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { TrendChart } from '../components/TrendChart';
+import { isAbortError, getErrorMessage } from '../api/client';
+
+interface InventorySnapshot {
+  id: number;
+  taken_at: string;
+  total_hosts: number;
+  online_count: number;
+  offline_count: number;
+  mia_count: number;
+  new_count: number;
+  software_title_count: number;
+  vulnerable_title_count: number;
+}
+
+interface SnapshotsResponse {
+  snapshots: InventorySnapshot[];
+  interval_hours: number;
+  retention_days: number;
+}
+
+const RANGE_OPTIONS = [
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' },
+  { value: 180, label: 'Last 180 days' },
+  { value: 365, label: 'Last year' },
+  { value: 0, label: 'All snapshots' },
+];
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+const parseTimestamp = (dateString: string) => new Date(`${dateString.replace(' ', 'T')}Z`);
+
+export const TrendsPage: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<InventorySnapshot[]>([]);
+  const [rangeDays, setRangeDays] = useState(90);
+  const [intervalHours, setIntervalHours] = useState<number | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSnapshotting, setIsSnapshotting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api, user } = useAuth();
+  const navigate = useNavigate();
+  const isAdmin = user?.global_role === 'admin';
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchSnapshots(controller.signal);
+    return () => controller.abort();
+  }, [rangeDays]);
+
+  const fetchSnapshots = async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await api.get<SnapshotsResponse>('/api/snapshots', { params: { days: rangeDays }, signal });
+      setSnapshots(data.snapshots || []);
+      setIntervalHours(data.interval_hours);
+      setRetentionDays(data.retention_days);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching snapshots:', error);
+      setError(getErrorMessage(error, 'Failed to fetch snapshots'));
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleTakeSnapshot = async () => {
+    setIsSnapshotting(true);
+    try {
+      const snapshot = await api.post<InventorySnapshot>('/api/snapshots');
+      setSnapshots(prev => [...prev, snapshot]);
+    } catch (error) {
+      console.error('Error taking snapshot:', error);
+      setError(getErrorMessage(error, 'Failed to take snapshot'));
+    } finally {
+      setIsSnapshotting(false);
+    }
+  };
+
+  const labels = snapshots.map(snapshot => parseTimestamp(snapshot.taken_at).toLocaleDateString());
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+
+  const formatChange = (key: keyof InventorySnapshot) => {
+    if (!first || !latest || first === latest) return null;
+    const change = Number(latest[key]) - Number(first[key]);
+    return `${change > 0 ? '+' : ''}${change} since ${parseTimestamp(first.taken_at).toLocaleDateString()}`;
+  };
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Trends</h3>
+          <p className="text-gray-600 mb-4">{error}</p>
+          <button
+            onClick={() => fetchSnapshots()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Trends</h1>
+          <p className="text-gray-600">
+            Inventory history from local snapshots
+            {intervalHours !== null && retentionDays !== null && (
+              <> · taken every {intervalHours}h, kept for {retentionDays} days</>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => navigate('/trends/changes')}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors duration-200"
+          >
+            <GitCompare className="h-4 w-4 mr-2" />
+            What Changed
+          </button>
+          {isAdmin && (
+            <button
+              onClick={handleTakeSnapshot}
+              disabled={isSnapshotting}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <Camera className="h-4 w-4 mr-2" />
+              {isSnapshotting ? 'Taking snapshot...' : 'Take Snapshot'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">Loading trends...</span>
+        </div>
+      ) : (
+        <>
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+              <div className="flex items-center">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Monitor className="h-6 w-6 text-blue-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Hosts</p>
+                  <p className="text-2xl font-bold text-gray-900">{latest?.total_hosts ?? '—'}</p>
+                  {formatChange('total_hosts') && <p className="text-xs text-gray-500">{formatChange('total_hosts')}</p>}
+                </div>
+              </div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+              <div className="flex items-center">
+                <div className="p-2 bg-emerald-100 rounded-lg">
+                  <Package className="h-6 w-6 text-emerald-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Software Titles</p>
+                  <p className="text-2xl font-bold text-gray-900">{latest?.software_title_count ?? '—'}</p>
+                  {formatChange('software_title_count') && <p className="text-xs text-gray-500">{formatChange('software_title_count')}</p>}
+                </div>
+              </div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+              <div className="flex items-center">
+                <div className="p-2 bg-red-100 rounded-lg">
+                  <AlertTriangle className="h-6 w-6 text-red-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Vulnerable Titles</p>
+                  <p className="text-2xl font-bold text-gray-900">{latest?.vulnerable_title_count ?? '—'}</p>
+                  {formatChange('vulnerable_title_count') && <p className="text-xs text-gray-500">{formatChange('vulnerable_title_count')}</p>}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Charts */}
+          <TrendChart
+            title="Hosts"
+            labels={labels}
+            series={[{ name: 'Hosts', color: '#2563eb', values: snapshots.map(snapshot => snapshot.total_hosts) }]}
+          />
+          <TrendChart
+            title="Online / Offline"
+            labels={labels}
+            series={[
+              { name: 'Online', color: '#059669', values: snapshots.map(snapshot => snapshot.online_count) },
+              { name: 'Offline', color: '#dc2626', values: snapshots.map(snapshot => snapshot.offline_count) },
+            ]}
+          />
+          <TrendChart
+            title="Vulnerable Software Titles"
+            labels={labels}
+            series={[{ name: 'Vulnerable', color: '#dc2626', values: snapshots.map(snapshot => snapshot.vulnerable_title_count) }]}
+          />
+        </>
+      )}
+    </div>
+  );
+};
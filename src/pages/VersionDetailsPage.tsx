@@ -1,100 +1,119 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Package, Users, AlertTriangle, Download } from 'lucide-react';
+import { ArrowLeft, Package, Users, AlertTriangle, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-
-interface VersionDetails {
-  id: number;
-  name: string;
-  version: string;
-  source: string;
-  browser: string;
-  generated_cpe: string;
-  vulnerabilities: Array<{ cve: string; cvss_score: number; details_link: string }> | null;
-}
+import { useTeam } from '../contexts/TeamContext';
+import { isAbortError, getErrorMessage } from '../api/client';
+import { getSoftwareVersion } from '../api/fleet';
+import { VersionDetails, Vulnerability } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+import { RemediationTicketModal } from '../components/RemediationTicketModal';
+import { RiskExceptionModal } from '../components/RiskExceptionModal';
+import { ExportMenu } from '../components/ExportMenu';
+import { ColumnSelection, ExportColumn, ExportFormat, exportRows, selectColumns } from '../utils/export';
+import { RemediationTicket, TicketChanges, getTicketStatusInfo } from '../utils/remediation';
+import { ExceptionChanges, RiskException, coversView, formatExpiryDate } from '../utils/exceptions';
 
 export const VersionDetailsPage: React.FC = () => {
   const [version, setVersion] = useState<VersionDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [ticketCve, setTicketCve] = useState<string | null>(null);
+  const [isSavingTicket, setIsSavingTicket] = useState(false);
+  const [exceptionCve, setExceptionCve] = useState<string | null>(null);
+  const [isSavingException, setIsSavingException] = useState(false);
   
   const { id } = useParams<{ id: string }>();
-  const { token } = useAuth();
+  const { api, queryCache, user } = useAuth();
+  const { teamId } = useTeam();
   const navigate = useNavigate();
+  const canManage = ['admin', 'maintainer'].includes(user?.global_role || '');
+  const tickets = useApiQuery<RemediationTicket[]>('/api/remediation-tickets', { software_version_id: id }).data || [];
+  const exceptions = useApiQuery<RiskException[]>('/api/risk-exceptions', { status: 'active' }).data || [];
+
+  // The exception covering a CVE for everything shown under the selected team, if any
+  const findException = (cve: string) => version
+    ? exceptions.find(exception => coversView(exception, { cve, name: version.name, teamId }))
+    : undefined;
 
   useEffect(() => {
+    const controller = new AbortController();
     if (id) {
-      fetchVersionDetails();
+      fetchVersionDetails(controller.signal);
     }
-  }, [id]);
+    return () => controller.abort();
+  }, [id, teamId]);
+
+  const fetchVersionDetails = async (signal?: AbortSignal) => {
+    if (!id) return;
 
-  const fetchVersionDetails = async () => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/latest/fleet/software/versions/${id}`, {
-        headers: { 
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      setVersion(data.software);
+      setVersion(await getSoftwareVersion(api, id, { team_id: teamId }, signal));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching version details:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch version details');
+      setError(getErrorMessage(error, 'Failed to fetch version details'));
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
-  const handleExport = () => {
-    if (!version?.vulnerabilities) return;
+  const handleCreateTicket = async ({ assignee, due_date, notes }: TicketChanges) => {
+    if (!ticketCve) return;
 
-    // Convert data to CSV format
-    const headers = ['CVE ID', 'CVSS Score', 'Details Link'];
-    const csvRows = [headers];
+    setIsSavingTicket(true);
+    try {
+      await api.post('/api/remediation-tickets', { cve: ticketCve, software_version_id: id, assignee, due_date, notes });
+      queryCache.invalidate('/api/remediation-tickets');
+      setTicketCve(null);
+    } catch (error) {
+      console.error('Error creating remediation ticket:', error);
+      setError(getErrorMessage(error, 'Failed to create remediation ticket'));
+    } finally {
+      setIsSavingTicket(false);
+    }
+  };
+
+  const handleCreateException = async (changes: ExceptionChanges) => {
+    if (!exceptionCve || !version) return;
+
+    setIsSavingException(true);
+    try {
+      await api.post('/api/risk-exceptions', { cve: exceptionCve, name: version.name, ...changes });
+      queryCache.invalidate('/api/risk-exceptions', '/api/host-risk');
+      setExceptionCve(null);
+    } catch (error) {
+      console.error('Error saving risk exception:', error);
+      setError(getErrorMessage(error, 'Failed to save risk exception'));
+    } finally {
+      setIsSavingException(false);
+    }
+  };
+
+  const exportColumns: ExportColumn<Vulnerability>[] = [
+    { key: 'cve', header: 'CVE ID', value: vuln => vuln.cve || 'N/A' },
+    { key: 'cvss_score', header: 'CVSS Score', value: vuln => vuln.cvss_score ?? 'N/A' },
+    { key: 'details_link', header: 'Details Link', value: vuln => vuln.details_link || 'N/A' },
+    { key: 'exception_expires_at', header: 'Exception Expires', value: vuln => findException(vuln.cve)?.expires_at || '' },
+    { key: 'exception_approver', header: 'Exception Approver', value: vuln => findException(vuln.cve)?.approver || '', optional: true },
+  ];
+
+  const handleExport = (format: ExportFormat, selection: ColumnSelection) => {
+    if (!version?.vulnerabilities) return;
 
     // Handle both array and object formats of vulnerabilities
-    const vulnerabilities = Array.isArray(version.vulnerabilities) 
-      ? version.vulnerabilities 
-      : [version.vulnerabilities];
-
-    vulnerabilities.forEach((vuln) => {
-      if (vuln) {  // Check if vuln exists
-        csvRows.push([
-          vuln.cve || 'N/A',
-          vuln.cvss_score?.toString() || 'N/A',
-          vuln.details_link || 'N/A'
-        ]);
-      }
-    });
-
-    // Convert to CSV string
-    const csvContent = csvRows.map(row => row.map(cell => {
-      // Escape quotes and wrap in quotes if contains comma or newline
-      const escaped = cell.toString().replace(/"/g, '""');
-      return cell.toString().includes(',') || cell.toString().includes('\n') 
-        ? `"${escaped}"` 
-        : escaped;
-    }).join(',')).join('\n');
-
-    // Create and trigger download
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `version-${version.id}-vulnerabilities.csv`;
-    document.body.appendChild(a);
-    a.click();
-    window.URL.revokeObjectURL(url);
-    document.body.removeChild(a);
+    const vulnerabilities = (Array.isArray(version.vulnerabilities)
+      ? version.vulnerabilities
+      : [version.vulnerabilities]).filter(Boolean);
+
+    const columns = selectColumns(exportColumns, selection.Vulnerabilities);
+
+    return exportRows(`${version.name} ${version.version} Vulnerabilities`, vulnerabilities, columns, `version-${version.id}-vulnerabilities`, format);
   };
 
   if (isLoading) {
@@ -114,7 +133,7 @@ export const VersionDetailsPage: React.FC = () => {
           <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Version</h3>
           <p className="text-gray-600 mb-4">{error}</p>
           <button
-            onClick={fetchVersionDetails}
+            onClick={() => fetchVersionDetails()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
           >
             Retry
@@ -133,6 +152,8 @@ export const VersionDetailsPage: React.FC = () => {
     );
   }
 
+  const exceptedCount = (version.vulnerabilities || []).filter(vuln => findException(vuln.cve)).length;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -162,13 +183,12 @@ export const VersionDetailsPage: React.FC = () => {
             </div>
           </div>
           {version.vulnerabilities && version.vulnerabilities.length > 0 && (
-            <button
-              onClick={handleExport}
-              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
-            >
-              <Download className="h-4 w-4 mr-2" />
-              Export Vulnerabilities
-            </button>
+            <ExportMenu
+              onExport={handleExport}
+              label="Export Vulnerabilities"
+              exportKey="version-vulnerabilities"
+              sheets={[{ name: 'Vulnerabilities', columns: exportColumns }]}
+            />
           )}
         </div>
       </div>
@@ -178,32 +198,86 @@ export const VersionDetailsPage: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           <div className="px-6 py-4 border-b border-gray-200">
             <h3 className="text-lg font-medium text-gray-900">Vulnerabilities</h3>
-            <p className="text-sm text-gray-600">Known vulnerabilities for this version</p>
+            <p className="text-sm text-gray-600">
+              Known vulnerabilities for this version
+              {exceptedCount > 0 && ` · ${version.vulnerabilities.length - exceptedCount} open, ${exceptedCount} excepted`}
+            </p>
           </div>
           <div className="divide-y divide-gray-200">
-            {version.vulnerabilities.map((vuln, index) => (
-              <div key={index} className="px-6 py-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                      <AlertTriangle className="h-3 w-3 mr-1" />
-                      {vuln.cve}
-                    </span>
-                    <span className="text-sm text-gray-500">
-                      CVSS Score: {vuln.cvss_score}
-                    </span>
+            {version.vulnerabilities.map((vuln, index) => {
+              const exception = findException(vuln.cve);
+              return (
+                <div key={index} className={`px-6 py-4 ${exception ? 'bg-gray-50' : ''}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => navigate(`/vulnerabilities/${vuln.cve}`)}
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors duration-200 ${
+                          exception ? 'bg-gray-200 text-gray-700 hover:bg-gray-300' : 'bg-red-100 text-red-800 hover:bg-red-200'
+                        }`}
+                      >
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        {vuln.cve}
+                      </button>
+                      <span className="text-sm text-gray-500">
+                        CVSS Score: {vuln.cvss_score}
+                      </span>
+                      {exception && (
+                        <button
+                          onClick={() => navigate('/exceptions')}
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                          title={`${exception.justification} (approved by ${exception.approver})`}
+                        >
+                          <ShieldCheck className="h-3 w-3 mr-1" />
+                          Excepted until {formatExpiryDate(exception.expires_at)}
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      {(() => {
+                        const ticket = tickets.find(item => item.cve === vuln.cve);
+                        if (ticket) {
+                          const statusInfo = getTicketStatusInfo(ticket.status);
+                          return (
+                            <button
+                              onClick={() => navigate('/remediation')}
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusInfo.className}`}
+                              title={ticket.assignee ? `Assigned to ${ticket.assignee}` : 'Unassigned'}
+                            >
+                              {statusInfo.label}
+                            </button>
+                          );
+                        }
+                        return canManage && (
+                          <button
+                            onClick={() => setTicketCve(vuln.cve)}
+                            className="text-sm text-gray-600 hover:text-gray-900"
+                          >
+                            Track fix
+                          </button>
+                        );
+                      })()}
+                      {canManage && !exception && (
+                        <button
+                          onClick={() => setExceptionCve(vuln.cve)}
+                          className="text-sm text-gray-600 hover:text-gray-900"
+                        >
+                          Add exception
+                        </button>
+                      )}
+                      <a
+                        href={vuln.details_link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        View Details
+                      </a>
+                    </div>
                   </div>
-                  <a
-                    href={vuln.details_link}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-sm text-blue-600 hover:text-blue-800"
-                  >
-                    View Details
-                  </a>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       ) : (
@@ -212,6 +286,27 @@ export const VersionDetailsPage: React.FC = () => {
           <p className="text-gray-500">No vulnerabilities found for this version</p>
         </div>
       )}
+
+      {/* Remediation Ticket Modal */}
+      {ticketCve && (
+        <RemediationTicketModal
+          title={`${ticketCve} in ${version.name} ${version.version}`}
+          isSaving={isSavingTicket}
+          onSave={handleCreateTicket}
+          onClose={() => setTicketCve(null)}
+        />
+      )}
+
+      {/* Risk Exception Modal */}
+      {exceptionCve && (
+        <RiskExceptionModal
+          title={`${exceptionCve} in ${version.name}`}
+          hostParams={{ software_version_id: version.id }}
+          isSaving={isSavingException}
+          onSave={handleCreateException}
+          onClose={() => setExceptionCve(null)}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
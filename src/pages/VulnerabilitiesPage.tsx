@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, ShieldAlert, AlertCircle, ChevronLeft, ChevronRight, Users, Flame } from 'lucide-react';
+import { useTeam } from '../contexts/TeamContext';
+import { SeverityBadge } from '../components/SeverityBadge';
+import { getErrorMessage } from '../api/client';
+import { VulnerabilitiesResponse } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+import { SEVERITY_BANDS, Severity, formatEpss } from '../utils/vulnerabilities';
+
+// Columns Fleet can sort vulnerabilities by
+const VULNERABILITY_COLUMNS = [
+  { key: 'cve', label: 'CVE' },
+  { key: 'cvss_score', label: 'Severity' },
+  { key: 'epss_probability', label: 'EPSS' },
+  { key: 'hosts_count', label: 'Hosts' },
+];
+
+// Affected versions listed inline before the rest are summarised
+const MAX_LISTED_SOFTWARE = 3;
+
+export const VulnerabilitiesPage: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [severityFilter, setSeverityFilter] = useState<Severity | ''>('');
+  const [knownExploitOnly, setKnownExploitOnly] = useState(false);
+  const [orderKey, setOrderKey] = useState('hosts_count');
+  const [orderDirection, setOrderDirection] = useState<'asc' | 'desc'>('desc');
+  const [currentPage, setCurrentPage] = useState(0);
+
+  const { teamId } = useTeam();
+  const navigate = useNavigate();
+  const itemsPerPage = 20;
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+      setCurrentPage(0);
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const vulnerabilitiesQuery = useApiQuery<VulnerabilitiesResponse>('/api/vulnerabilities', {
+    query: debouncedSearchTerm,
+    severity: severityFilter,
+    known_exploit: knownExploitOnly,
+    team_id: teamId,
+    order_key: orderKey,
+    order_direction: orderDirection,
+    page: currentPage,
+    per_page: itemsPerPage,
+  });
+
+  const vulnerabilities = vulnerabilitiesQuery.data?.vulnerabilities || [];
+  const totalCount = vulnerabilitiesQuery.data?.count || 0;
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
+  const loadError = vulnerabilitiesQuery.data === undefined && vulnerabilitiesQuery.error
+    ? getErrorMessage(vulnerabilitiesQuery.error, 'Failed to fetch vulnerabilities')
+    : null;
+
+  const handleSort = (key: string) => {
+    setOrderDirection(orderKey === key && orderDirection === 'desc' ? 'asc' : 'desc');
+    setOrderKey(key);
+    setCurrentPage(0);
+  };
+
+  if (vulnerabilitiesQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading vulnerabilities...</span>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Vulnerabilities</h3>
+          <p className="text-gray-600 mb-4">{loadError}</p>
+          <button
+            onClick={() => vulnerabilitiesQuery.refetch()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Vulnerabilities</h1>
+        <p className="text-gray-600">Known CVEs affecting installed software</p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by CVE..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={severityFilter}
+          onChange={(e) => {
+            setSeverityFilter(e.target.value as Severity | '');
+            setCurrentPage(0);
+          }}
+          className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All severities</option>
+          {SEVERITY_BANDS.map(item => (
+            <option key={item.value} value={item.value}>{item.label} ({item.range})</option>
+          ))}
+        </select>
+        <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={knownExploitOnly}
+            onChange={(e) => {
+              setKnownExploitOnly(e.target.checked);
+              setCurrentPage(0);
+            }}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+          />
+          Known exploited only
+        </label>
+      </div>
+
+      {/* Vulnerabilities Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {VULNERABILITY_COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
+                    onClick={() => handleSort(column.key)}
+                  >
+                    {column.label} {orderKey === column.key && (
+                      <span>{orderDirection === 'asc' ? '↑' : '↓'}</span>
+                    )}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CISA KEV</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Affected Software</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {vulnerabilities.map((vulnerability) => {
+                const software = vulnerability.software || [];
+                return (
+                  <tr key={vulnerability.cve} className="hover:bg-gray-50 transition-colors duration-200">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(`/vulnerabilities/${vulnerability.cve}`)}
+                        className="flex items-center text-left hover:text-blue-600 transition-colors duration-200"
+                      >
+                        <ShieldAlert className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+                        <span className="text-sm font-medium text-gray-900">{vulnerability.cve}</span>
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <SeverityBadge severity={vulnerability.severity} score={vulnerability.cvss_score} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatEpss(vulnerability.epss_probability)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-gray-900">
+                        <Users className="h-4 w-4 text-gray-400 mr-1" />
+                        {vulnerability.hosts_count}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {vulnerability.cisa_known_exploit ? (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          <Flame className="h-3 w-3 mr-1" />
+                          Exploited
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">No</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      {software.length > 0 ? (
+                        <div className="text-sm text-gray-900 max-w-[300px]">
+                          {software.slice(0, MAX_LISTED_SOFTWARE).map(item => (
+                            <div key={item.id} className="truncate" title={`${item.name} ${item.version}`}>
+                              {item.name} <span className="text-gray-500">{item.version}</span>
+                            </div>
+                          ))}
+                          {software.length > MAX_LISTED_SOFTWARE && (
+                            <div className="text-gray-500">+{software.length - MAX_LISTED_SOFTWARE} more</div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">
+                          {vulnerability.os_versions?.length ? 'Operating system' : '—'}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {vulnerabilities.length === 0 && (
+          <div className="text-center py-12">
+            <ShieldAlert className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No vulnerabilities found matching your criteria.</p>
+          </div>
+        )}
+
+        {/* Pagination Controls */}
+        {totalPages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-700">
+                Showing {currentPage * itemsPerPage + 1} to {Math.min((currentPage + 1) * itemsPerPage, totalCount)} of {totalCount} results
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setCurrentPage(prev => Math.max(0, prev - 1))}
+                  disabled={currentPage === 0}
+                  className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </button>
+                <span className="text-sm text-gray-700">
+                  Page {currentPage + 1} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setCurrentPage(prev => Math.min(totalPages - 1, prev + 1))}
+                  disabled={currentPage === totalPages - 1}
+                  className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
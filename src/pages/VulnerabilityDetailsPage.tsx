@@ -0,0 +1,452 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, ShieldAlert, Monitor, Package, AlertCircle, ChevronRight, Flame, Users, Wrench, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { SeverityBadge } from '../components/SeverityBadge';
+import { RemediationTicketModal } from '../components/RemediationTicketModal';
+import { RiskExceptionModal } from '../components/RiskExceptionModal';
+import { isAbortError, getErrorMessage } from '../api/client';
+import { listHosts } from '../api/fleet';
+import { Host, VulnerabilityResponse } from '../api/types';
+import { useApiQuery } from '../api/useApiQuery';
+import { formatEpss, getSeverity } from '../utils/vulnerabilities';
+import { RemediationTicket, TicketChanges, getTicketStatusInfo } from '../utils/remediation';
+import { ExceptionChanges, RiskException, describeExceptionTarget, formatExpiryDate, getExceptionStatus } from '../utils/exceptions';
+
+interface AffectedHost {
+  host: Host;
+  // The vulnerable software versions or OS found on the host
+  sources: string[];
+}
+
+// Hosts listed per affected version; larger sets link to the filtered dashboard instead
+const HOSTS_PER_SOURCE = 100;
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'Unknown';
+  try {
+    return new Date(dateString).toLocaleDateString();
+  } catch {
+    return 'Invalid Date';
+  }
+};
+
+export const VulnerabilityDetailsPage: React.FC = () => {
+  const [affectedHosts, setAffectedHosts] = useState<AffectedHost[]>([]);
+  const [isLoadingHosts, setIsLoadingHosts] = useState(false);
+  const [hostsError, setHostsError] = useState<string | null>(null);
+  const [showTicketModal, setShowTicketModal] = useState(false);
+  const [isSavingTicket, setIsSavingTicket] = useState(false);
+  const [ticketError, setTicketError] = useState<string | null>(null);
+  const [showExceptionModal, setShowExceptionModal] = useState(false);
+  const [isSavingException, setIsSavingException] = useState(false);
+
+  const { cve } = useParams<{ cve: string }>();
+  const { api, queryCache, user } = useAuth();
+  const { teamId } = useTeam();
+  const navigate = useNavigate();
+  const canManage = ['admin', 'maintainer'].includes(user?.global_role || '');
+
+  const vulnerabilityQuery = useApiQuery<VulnerabilityResponse>(`/api/latest/fleet/vulnerabilities/${cve}`, {
+    team_id: teamId,
+  });
+
+  // Tickets for this CVE, whether fleet-wide or for one affected version
+  const tickets = useApiQuery<RemediationTicket[]>('/api/remediation-tickets', { cve }).data || [];
+  const exceptions = (useApiQuery<RiskException[]>('/api/risk-exceptions', { cve }).data || [])
+    .filter(exception => getExceptionStatus(exception) !== 'expired');
+
+  const vulnerability = vulnerabilityQuery.data?.vulnerability;
+  const software = vulnerabilityQuery.data?.software || [];
+  const osVersions = vulnerabilityQuery.data?.os_versions || [];
+  const error = vulnerability === undefined && vulnerabilityQuery.error
+    ? getErrorMessage(vulnerabilityQuery.error, 'Failed to fetch vulnerability details')
+    : null;
+
+  useEffect(() => {
+    if (!vulnerabilityQuery.data) return;
+
+    const controller = new AbortController();
+    fetchAffectedHosts(controller.signal);
+    return () => controller.abort();
+  }, [vulnerabilityQuery.data]);
+
+  // Fleet has no hosts-by-CVE filter, so hosts are gathered per affected software version and OS
+  const fetchAffectedHosts = async (signal?: AbortSignal) => {
+    setIsLoadingHosts(true);
+    setHostsError(null);
+
+    const sources = [
+      ...software.map(item => ({ label: `${item.name} ${item.version}`, filter: { software_version_id: item.id } })),
+      ...osVersions.map(item => ({ label: item.name, filter: { os_version_id: item.os_version_id } })),
+    ];
+
+    try {
+      const found = new Map<number, AffectedHost>();
+      for (const source of sources) {
+        const data = await listHosts(api, {
+          ...source.filter,
+          team_id: teamId,
+          per_page: HOSTS_PER_SOURCE,
+          order_key: 'display_name',
+          order_direction: 'asc',
+        }, signal);
+        (data.hosts || []).forEach(host => {
+          const entry = found.get(host.id) || { host, sources: [] };
+          entry.sources.push(source.label);
+          found.set(host.id, entry);
+        });
+      }
+
+      setAffectedHosts([...found.values()].sort((a, b) => a.host.display_name.localeCompare(b.host.display_name)));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching affected hosts:', error);
+      setHostsError(getErrorMessage(error, 'Failed to fetch affected hosts'));
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoadingHosts(false);
+      }
+    }
+  };
+
+  const handleCreateTicket = async ({ assignee, due_date, notes }: TicketChanges) => {
+    setIsSavingTicket(true);
+    setTicketError(null);
+    try {
+      await api.post('/api/remediation-tickets', { cve, assignee, due_date, notes });
+      queryCache.invalidate('/api/remediation-tickets');
+      setShowTicketModal(false);
+    } catch (error) {
+      console.error('Error creating remediation ticket:', error);
+      setTicketError(getErrorMessage(error, 'Failed to create remediation ticket'));
+    } finally {
+      setIsSavingTicket(false);
+    }
+  };
+
+  const handleCreateException = async (changes: ExceptionChanges) => {
+    setIsSavingException(true);
+    setTicketError(null);
+    try {
+      await api.post('/api/risk-exceptions', { cve, ...changes });
+      queryCache.invalidate('/api/risk-exceptions', '/api/host-risk');
+      setShowExceptionModal(false);
+    } catch (error) {
+      console.error('Error saving risk exception:', error);
+      setTicketError(getErrorMessage(error, 'Failed to save risk exception'));
+    } finally {
+      setIsSavingException(false);
+    }
+  };
+
+  if (vulnerabilityQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading vulnerability details...</span>
+      </div>
+    );
+  }
+
+  if (error || !vulnerability) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Vulnerability</h3>
+          <p className="text-gray-600 mb-4">{error || 'Vulnerability not found'}</p>
+          <button
+            onClick={() => vulnerabilityQuery.refetch()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+        >
+          <ArrowLeft className="h-5 w-5 text-gray-600" />
+        </button>
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold text-gray-900">{vulnerability.cve}</h1>
+          <p className="text-gray-600">Published {formatDate(vulnerability.cve_published)}</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowTicketModal(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            <Wrench className="h-4 w-4 mr-2" />
+            Track Fix
+          </button>
+        )}
+        {canManage && (
+          <button
+            onClick={() => setShowExceptionModal(true)}
+            className="flex items-center px-4 py-2 border border-gray-300 text-sm font-medium text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Add Exception
+          </button>
+        )}
+        <a
+          href={vulnerability.details_link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center px-4 py-2 border border-gray-300 text-sm font-medium text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors duration-200"
+        >
+          NVD Details
+        </a>
+      </div>
+
+      {/* Summary Card */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <div>
+            <p className="text-sm font-medium text-gray-500">Severity</p>
+            <div className="mt-1">
+              <SeverityBadge severity={getSeverity(vulnerability.cvss_score)} score={vulnerability.cvss_score} />
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-500">EPSS Probability</p>
+            <p className="mt-1 text-sm text-gray-900">{formatEpss(vulnerability.epss_probability)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-500">CISA Known Exploited</p>
+            <div className="mt-1">
+              {vulnerability.cisa_known_exploit ? (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                  <Flame className="h-3 w-3 mr-1" />
+                  Exploited
+                </span>
+              ) : (
+                <span className="text-sm text-gray-900">No</span>
+              )}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-500">Affected Hosts</p>
+            <p className="mt-1 flex items-center text-sm text-gray-900">
+              <Users className="h-4 w-4 text-gray-400 mr-1" />
+              {vulnerability.hosts_count}
+            </p>
+          </div>
+        </div>
+        {vulnerability.cve_description && (
+          <p className="text-sm text-gray-700">{vulnerability.cve_description}</p>
+        )}
+        {ticketError && <p className="text-sm text-red-600">{ticketError}</p>}
+        {tickets.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>Remediation:</span>
+            {tickets.map(ticket => {
+              const statusInfo = getTicketStatusInfo(ticket.status);
+              return (
+                <button
+                  key={ticket.id}
+                  onClick={() => navigate('/remediation')}
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusInfo.className}`}
+                >
+                  {ticket.software_name ? `${ticket.software_name} ${ticket.version}: ` : ''}
+                  {statusInfo.label}
+                  {ticket.assignee && ` · ${ticket.assignee}`}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {exceptions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>Exceptions:</span>
+            {exceptions.map(exception => (
+              <button
+                key={exception.id}
+                onClick={() => navigate('/exceptions')}
+                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                title={`${exception.justification} (approved by ${exception.approver})`}
+              >
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                {exception.name ? `${describeExceptionTarget(exception)}: ` : ''}
+                {exception.hosts.length > 0 ? `${exception.hosts.length} hosts, ` : ''}
+                until {formatExpiryDate(exception.expires_at)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Affected Software */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Affected Software</h3>
+          <p className="text-sm text-gray-600">Installed versions carrying this vulnerability</p>
+        </div>
+        {software.length > 0 || osVersions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hosts</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fixed In</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {software.map(item => (
+                  <tr key={`software-${item.id}`} className="hover:bg-gray-50 transition-colors duration-200">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(`/software/versions/${item.id}`)}
+                        className="flex items-center text-sm font-medium text-gray-900 hover:text-blue-600 transition-colors duration-200"
+                      >
+                        <Package className="h-4 w-4 text-gray-400 mr-2" />
+                        {item.name}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.version}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.hosts_count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.resolved_in_version || '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(`/home?software_version_id=${item.id}`)}
+                        className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        View Hosts
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {osVersions.map(item => (
+                  <tr key={`os-${item.os_version_id}`} className="hover:bg-gray-50 transition-colors duration-200">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        <Monitor className="h-4 w-4 text-gray-400 mr-2" />
+                        {item.name}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Operating system</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.hosts_count ?? '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.resolved_in_version || '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(`/home?os_version_id=${item.os_version_id}`)}
+                        className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        View Hosts
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="px-6 py-4 text-sm text-gray-500">No affected software is installed</div>
+        )}
+      </div>
+
+      {/* Affected Hosts */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Affected Hosts</h3>
+          <p className="text-sm text-gray-600">Hosts with a vulnerable version installed</p>
+        </div>
+        {isLoadingHosts ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <span className="ml-3 text-gray-600">Loading hosts...</span>
+          </div>
+        ) : hostsError ? (
+          <div className="px-6 py-4 flex items-center justify-between">
+            <span className="text-sm text-red-600">{hostsError}</span>
+            <button
+              onClick={() => fetchAffectedHosts()}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              Retry
+            </button>
+          </div>
+        ) : affectedHosts.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Host</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">OS</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vulnerable Through</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {affectedHosts.map(({ host, sources }) => (
+                  <tr key={host.id} className="hover:bg-gray-50 transition-colors duration-200">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(`/host/${host.id}`)}
+                        className="flex items-center text-sm font-medium text-gray-900 hover:text-blue-600 transition-colors duration-200"
+                      >
+                        <Monitor className="h-4 w-4 text-gray-400 mr-2" />
+                        {host.display_name}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        host.status === 'online' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}>
+                        {host.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{host.os_version}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{sources.join(', ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <ShieldAlert className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No affected hosts found</p>
+          </div>
+        )}
+      </div>
+
+      {/* Remediation Ticket Modal */}
+      {showTicketModal && (
+        <RemediationTicketModal
+          title={vulnerability.cve}
+          isSaving={isSavingTicket}
+          onSave={handleCreateTicket}
+          onClose={() => setShowTicketModal(false)}
+        />
+      )}
+
+      {/* Risk Exception Modal */}
+      {showExceptionModal && (
+        <RiskExceptionModal
+          title={`${vulnerability.cve} in any software`}
+          hostParams={{}}
+          isSaving={isSavingException}
+          onSave={handleCreateException}
+          onClose={() => setShowExceptionModal(false)}
+        />
+      )}
+    </div>
+  );
+};
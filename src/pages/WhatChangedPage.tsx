@@ -0,0 +1,315 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { PlusCircle, MinusCircle, ArrowUpCircle, ArrowDownCircle, RefreshCw, AlertCircle, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { isAbortError, getErrorMessage } from '../api/client';
+
+interface SnapshotTitle {
+  software_title_id: number;
+  name: string;
+  source: string | null;
+  hosts_count: number;
+  versions: string | null;
+}
+
+interface VersionChange {
+  software_title_id: number;
+  name: string;
+  direction: 'upgrade' | 'downgrade' | 'changed';
+  from_versions: string[];
+  to_versions: string[];
+  added_versions: string[];
+  removed_versions: string[];
+}
+
+interface HostCountChange {
+  software_title_id: number;
+  name: string;
+  from_hosts: number;
+  to_hosts: number;
+  delta: number;
+}
+
+interface SnapshotDiff {
+  from: { id: number; taken_at: string };
+  to: { id: number; taken_at: string };
+  added: SnapshotTitle[];
+  removed: SnapshotTitle[];
+  version_changes: VersionChange[];
+  host_count_changes: HostCountChange[];
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+const formatTimestamp = (dateString: string) => new Date(`${dateString.replace(' ', 'T')}Z`).toLocaleString();
+
+const directionStyles: Record<VersionChange['direction'], { label: string; className: string }> = {
+  upgrade: { label: 'Upgrade', className: 'bg-emerald-100 text-emerald-800' },
+  downgrade: { label: 'Downgrade', className: 'bg-red-100 text-red-800' },
+  changed: { label: 'Changed', className: 'bg-gray-100 text-gray-800' },
+};
+
+export const WhatChangedPage: React.FC = () => {
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchDiff(controller.signal);
+    return () => controller.abort();
+  }, [fromDate, toDate]);
+
+  const fetchDiff = async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setDiff(await api.get<SnapshotDiff>('/api/snapshots/diff', {
+        params: { from: fromDate, to: toDate },
+        signal,
+      }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error fetching snapshot diff:', error);
+      setError(getErrorMessage(error, 'Failed to compare snapshots'));
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const renderTitleTable = (titles: SnapshotTitle[], emptyMessage: string) => (
+    titles.length === 0 ? (
+      <p className="text-center py-8 text-gray-500">{emptyMessage}</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Versions</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hosts</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {titles.map(title => (
+              <tr key={title.software_title_id} className="hover:bg-gray-50 transition-colors duration-200">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <button
+                    onClick={() => navigate(`/software/${title.software_title_id}`)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                  >
+                    {title.name}
+                  </button>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{title.source || '—'}</td>
+                <td className="px-6 py-4">
+                  <div className="max-w-[250px] truncate text-sm text-gray-900" title={title.versions || ''}>
+                    {title.versions || '—'}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{title.hosts_count}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )
+  );
+
+  const summaryCards = diff ? [
+    { label: 'New Titles', value: diff.added.length, icon: PlusCircle, className: 'bg-emerald-100 text-emerald-600' },
+    { label: 'Removed Titles', value: diff.removed.length, icon: MinusCircle, className: 'bg-red-100 text-red-600' },
+    { label: 'Version Changes', value: diff.version_changes.length, icon: RefreshCw, className: 'bg-blue-100 text-blue-600' },
+    { label: 'Host Count Changes', value: diff.host_count_changes.length, icon: Users, className: 'bg-amber-100 text-amber-600' },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">What Changed</h1>
+          <p className="text-gray-600">Software that appeared, disappeared or changed version between two snapshots</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            title="From date"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            title="To date"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">Comparing snapshots...</span>
+        </div>
+      ) : error || !diff ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Unable to Compare Snapshots</h3>
+            <p className="text-gray-600 mb-4">{error}</p>
+            <button
+              onClick={() => fetchDiff()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+            >
+              Retry
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500">
+            Comparing snapshot from {formatTimestamp(diff.from.taken_at)} with snapshot from {formatTimestamp(diff.to.taken_at)}
+          </p>
+
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {summaryCards.map(card => {
+              const Icon = card.icon;
+              return (
+                <div key={card.label} className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
+                  <div className="flex items-center">
+                    <div className={`p-2 rounded-lg ${card.className}`}>
+                      <Icon className="h-6 w-6" />
+                    </div>
+                    <div className="ml-4">
+                      <p className="text-sm font-medium text-gray-600">{card.label}</p>
+                      <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* New Titles */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Newly Seen Software</h3>
+            </div>
+            {renderTitleTable(diff.added, 'No new software titles.')}
+          </div>
+
+          {/* Removed Titles */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Removed Software</h3>
+            </div>
+            {renderTitleTable(diff.removed, 'No software titles were removed.')}
+          </div>
+
+          {/* Version Changes */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Version Changes</h3>
+            </div>
+            {diff.version_changes.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No version changes.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Versions Added</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Versions Removed</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {diff.version_changes.map(change => (
+                      <tr key={change.software_title_id} className="hover:bg-gray-50 transition-colors duration-200">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <button
+                            onClick={() => navigate(`/software/${change.software_title_id}`)}
+                            className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                          >
+                            {change.name}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${directionStyles[change.direction].className}`}>
+                            {change.direction === 'upgrade' && <ArrowUpCircle className="h-3 w-3 mr-1" />}
+                            {change.direction === 'downgrade' && <ArrowDownCircle className="h-3 w-3 mr-1" />}
+                            {directionStyles[change.direction].label}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-emerald-700">{change.added_versions.join(', ') || '—'}</td>
+                        <td className="px-6 py-4 text-sm text-red-700">{change.removed_versions.join(', ') || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Host Count Changes */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Host Count Changes</h3>
+            </div>
+            {diff.host_count_changes.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No host count changes.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {diff.host_count_changes.map(change => (
+                      <tr key={change.software_title_id} className="hover:bg-gray-50 transition-colors duration-200">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <button
+                            onClick={() => navigate(`/software/${change.software_title_id}`)}
+                            className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                          >
+                            {change.name}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{change.from_hosts}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{change.to_hosts}</td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${change.delta > 0 ? 'text-emerald-700' : 'text-red-700'}`}>
+                          {change.delta > 0 ? `+${change.delta}` : change.delta}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
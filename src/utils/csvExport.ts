@@ -1,37 +0,0 @@
-export const exportToCSV = (data: any[], filename: string) => {
-  if (data.length === 0) return;
-
-  // Get headers from the first object
-  const headers = Object.keys(data[0]);
-  
-  // Create CSV content
-  const csvContent = [
-    // Headers row
-    headers.join(','),
-    // Data rows
-    ...data.map(row => 
-      headers.map(header => {
-        const value = row[header];
-        // Escape values that contain commas, quotes, or newlines
-        if (typeof value === 'string' && (value.includes(',') || value.includes('"') || value.includes('\n'))) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value;
-      }).join(',')
-    )
-  ].join('\n');
-
-  // Create and download file
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${filename}-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }
-};
\ No newline at end of file
@@ -0,0 +1,6 @@
+// YYYY-MM-DD date, days from today, in UTC so it agrees with the backend's date('now')
+export const addDays = (days: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
@@ -0,0 +1,70 @@
+import { addDays } from './dates';
+
+export type ComplianceFlag = 'over_deployed' | 'unused_seats' | 'contract_ending' | 'contract_ended';
+
+// Purchased seats for a title, from /api/license-entitlements
+export interface LicenseEntitlement {
+  software_title_id: number;
+  name: string;
+  seats: number;
+  contract_end: string | null;
+  cost_per_seat: number | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fields an entitlement is saved with; the title is fixed once it has one
+export interface EntitlementChanges {
+  software_title_id: number;
+  name: string;
+  seats: number;
+  contract_end: string | null;
+  cost_per_seat: number | null;
+}
+
+// An entitlement against installs across every team, from /api/license-compliance; the costs
+// are null when no cost per seat was recorded
+export interface LicenseCompliance extends LicenseEntitlement {
+  installed_count: number;
+  unused_seats: number;
+  over_deployed_count: number;
+  // null when no seats were bought
+  utilization_percent: number | null;
+  total_cost: number | null;
+  unused_cost: number | null;
+  over_deployed_cost: number | null;
+}
+
+// Contracts ending within this many days are flagged for renewal
+export const CONTRACT_ENDING_WITHIN_DAYS = 60;
+
+export const COMPLIANCE_FLAGS: Array<{ value: ComplianceFlag; label: string; className: string }> = [
+  { value: 'over_deployed', label: 'Over-deployed', className: 'bg-red-100 text-red-800' },
+  { value: 'unused_seats', label: 'Unused Seats', className: 'bg-blue-100 text-blue-800' },
+  { value: 'contract_ending', label: 'Contract Ending', className: 'bg-amber-100 text-amber-800' },
+  { value: 'contract_ended', label: 'Contract Ended', className: 'bg-gray-100 text-gray-800' },
+];
+
+// A contract still runs on its end date
+export const getComplianceFlags = (item: LicenseCompliance, days = CONTRACT_ENDING_WITHIN_DAYS): ComplianceFlag[] => {
+  const flags: ComplianceFlag[] = [];
+  if (item.over_deployed_count > 0) flags.push('over_deployed');
+  if (item.unused_seats > 0) flags.push('unused_seats');
+  if (item.contract_end && item.contract_end < addDays(0)) {
+    flags.push('contract_ended');
+  } else if (item.contract_end && item.contract_end <= addDays(days)) {
+    flags.push('contract_ending');
+  }
+  return flags;
+};
+
+export const getComplianceFlagInfo = (flag: ComplianceFlag) =>
+  COMPLIANCE_FLAGS.find(item => item.value === flag) || COMPLIANCE_FLAGS[0];
+
+export const formatCost = (cost: number | null) =>
+  cost === null ? '—' : cost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Contract end dates are plain dates, shown in the local format
+export const formatContractEnd = (date: string | null) =>
+  date ? new Date(`${date}T00:00:00`).toLocaleDateString() : '—';
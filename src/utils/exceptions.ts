@@ -0,0 +1,68 @@
+import { addDays } from './dates';
+
+export type ExceptionStatus = 'active' | 'expiring' | 'expired';
+
+export interface ExceptionHost {
+  id: number;
+  display_name: string | null;
+}
+
+export interface RiskException {
+  id: number;
+  cve: string | null;
+  software_title_id: number | null;
+  name: string | null;
+  team_id: number | null;
+  justification: string;
+  approver: string;
+  expires_at: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  hosts: ExceptionHost[];
+}
+
+// Fields an exception is recorded or edited with; the CVE or title is fixed by where it was opened
+export interface ExceptionChanges {
+  team_id: number | null;
+  hosts: ExceptionHost[];
+  justification: string;
+  approver: string;
+  expires_at: string;
+}
+
+// Exceptions expiring within this many days are flagged for review
+export const EXPIRING_WITHIN_DAYS = 30;
+
+export const EXCEPTION_STATUSES: Array<{ value: ExceptionStatus; label: string; className: string }> = [
+  { value: 'active', label: 'Active', className: 'bg-indigo-100 text-indigo-800' },
+  { value: 'expiring', label: 'Expiring Soon', className: 'bg-amber-100 text-amber-800' },
+  { value: 'expired', label: 'Expired', className: 'bg-gray-100 text-gray-800' },
+];
+
+// An exception still applies on its expiry date
+export const getExceptionStatus = (exception: RiskException, days = EXPIRING_WITHIN_DAYS): ExceptionStatus => {
+  if (exception.expires_at < addDays(0)) return 'expired';
+  return exception.expires_at <= addDays(days) ? 'expiring' : 'active';
+};
+
+export const getExceptionStatusInfo = (status: ExceptionStatus) =>
+  EXCEPTION_STATUSES.find(item => item.value === status) || EXCEPTION_STATUSES[0];
+
+// Whether an unexpired exception covers a CVE (or a whole title, when no CVE is given) for
+// everything shown under the selected team; one limited to some hosts only covers those hosts
+export const coversView = (exception: RiskException, { cve, name, teamId }: { cve?: string; name: string; teamId: number | null }) =>
+  getExceptionStatus(exception) !== 'expired'
+  && (!exception.cve || exception.cve === cve)
+  && (!exception.name || exception.name === name)
+  && exception.hosts.length === 0
+  && (exception.team_id === null || exception.team_id === teamId);
+
+// What an exception covers, for tables and headings
+export const describeExceptionTarget = (exception: Pick<RiskException, 'cve' | 'name'>) => {
+  if (exception.cve && exception.name) return `${exception.cve} in ${exception.name}`;
+  return exception.cve || exception.name || '';
+};
+
+// Expiry dates are plain dates, shown in the local format
+export const formatExpiryDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
@@ -0,0 +1,248 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'markdown' | 'pdf';
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+// A column as offered in the column chooser. The key is what saved templates refer to, so it
+// stays the same when the header is renamed; optional columns are left out of the default export.
+export interface ExportColumnOption {
+  key: string;
+  header: string;
+  optional?: boolean;
+}
+
+// One column of an export: its header and how to read the value from a row
+export interface ExportColumn<T> extends ExportColumnOption {
+  value: (row: T) => ExportValue;
+}
+
+// A column picked in the chooser and the header to export it under
+export interface ColumnChoice {
+  key: string;
+  header: string;
+}
+
+// Picked columns in export order, by sheet name; sheets without an entry use their default columns
+export type ColumnSelection = Record<string, ColumnChoice[]>;
+
+// A sheet of an export as shown in the column chooser
+export interface ExportSheet {
+  name: string;
+  columns: ExportColumnOption[];
+}
+
+// A saved column selection for one export, private to the user who saved it
+export interface ExportTemplate {
+  id: number;
+  export_key: string;
+  name: string;
+  columns: ColumnSelection;
+  created_at: string;
+  updated_at: string;
+}
+
+// A sheet resolved to plain values, so sheets built from different row types can share a file
+export interface ExportTable {
+  name: string;
+  headers: string[];
+  rows: ExportValue[][];
+}
+
+export const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; extension: string }> = [
+  { value: 'csv', label: 'CSV', extension: 'csv' },
+  { value: 'xlsx', label: 'Excel (XLSX)', extension: 'xlsx' },
+  { value: 'json', label: 'JSON', extension: 'json' },
+  { value: 'markdown', label: 'Markdown', extension: 'md' },
+  { value: 'pdf', label: 'PDF', extension: 'pdf' },
+];
+
+// Rows received so far by a streamed export; total is null when the server didn't say
+export interface ExportProgress {
+  rows: number;
+  total: number | null;
+}
+
+// The columns to export, in order and under their chosen headers. Keys the export no longer has
+// are skipped, and a choice with none left falls back to the default columns.
+export const selectColumns = <T>(columns: ExportColumn<T>[], choices?: ColumnChoice[]): ExportColumn<T>[] => {
+  const columnsByKey = new Map(columns.map(column => [column.key, column]));
+  const selected = (choices || []).flatMap(choice => {
+    const column = columnsByKey.get(choice.key);
+    return column ? [{ ...column, header: choice.header || column.header }] : [];
+  });
+  return selected.length > 0 ? selected : columns.filter(column => !column.optional);
+};
+
+export const toTable = <T>(name: string, columns: ExportColumn<T>[], rows: T[]): ExportTable => ({
+  name,
+  headers: columns.map(column => column.header),
+  rows: rows.map(row => columns.map(column => column.value(row))),
+});
+
+const formatText = (value: ExportValue) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Dated download name, e.g. hosts-report-2024-05-01.csv
+const toFileName = (filename: string, format: ExportFormat, suffix = '') => {
+  const date = new Date().toISOString().split('T')[0];
+  const extension = EXPORT_FORMATS.find(item => item.value === format)?.extension;
+  return `${filename}${suffix}-${date}.${extension}`;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const toCSV = (table: ExportTable) => {
+  const escape = (value: ExportValue) => {
+    const text = formatText(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [table.headers, ...table.rows].map(row => row.map(escape).join(',')).join('\r\n');
+};
+
+// Rows as objects keyed by header; numbers and booleans keep their type
+const toJSONRows = (table: ExportTable) => table.rows.map(row =>
+  Object.fromEntries(table.headers.map((header, index) => [header, row[index] ?? null]))
+);
+
+const toMarkdown = (table: ExportTable) => {
+  const escape = (value: ExportValue) => formatText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  return [
+    `## ${table.name}`,
+    '',
+    `| ${table.headers.map(escape).join(' | ')} |`,
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(escape).join(' | ')} |`),
+  ].join('\n');
+};
+
+// Excel limits sheet names to 31 characters and rejects a few punctuation marks
+const toSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+// The XLSX and PDF writers are large, so they are only loaded when used
+const toXLSX = async (tables: ExportTable[]) => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  return writeXlsxFile(tables.map(table => ({
+    sheet: toSheetName(table.name),
+    stickyRowsCount: 1,
+    columns: table.headers.map((header, index) => ({
+      width: Math.min(50, Math.max(10, header.length, ...table.rows.map(row => formatText(row[index]).length)) + 2),
+    })),
+    data: [
+      table.headers.map(header => ({ value: header, fontWeight: 'bold' as const })),
+      ...table.rows.map(row => row.map(value => (value === undefined ? null : value))),
+    ],
+  }))).toBlob();
+};
+
+const toPDF = async (tables: ExportTable[]) => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const generatedAt = new Date().toLocaleString();
+
+  // Each table starts on a new page under its name
+  tables.forEach((table, index) => {
+    if (index > 0) doc.addPage();
+    doc.setFontSize(14);
+    doc.text(table.name, 14, 15);
+    doc.setFontSize(9);
+    doc.setTextColor(107, 114, 128);
+    doc.text(`Generated ${generatedAt}`, 14, 21);
+    doc.setTextColor(0, 0, 0);
+    autoTable(doc, {
+      startY: 26,
+      head: [table.headers],
+      body: table.rows.map(row => row.map(formatText)),
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: [37, 99, 235] },
+    });
+  });
+  return doc.output('blob');
+};
+
+// Download one or more tables in the chosen format. XLSX puts each table on its own sheet,
+// JSON, Markdown and PDF put them one after another, and CSV downloads a file per table.
+export const exportTables = async (tables: ExportTable[], filename: string, format: ExportFormat) => {
+  if (tables.every(table => table.rows.length === 0)) return;
+
+  const fileOf = (suffix = '') => toFileName(filename, format, suffix);
+
+  switch (format) {
+    case 'csv':
+      tables.forEach(table => {
+        // The byte order mark makes Excel read the file as UTF-8
+        const blob = new Blob(['\uFEFF', toCSV(table)], { type: 'text/csv;charset=utf-8;' });
+        downloadBlob(blob, fileOf(tables.length > 1 ? `-${slugify(table.name)}` : ''));
+      });
+      break;
+    case 'xlsx':
+      downloadBlob(await toXLSX(tables), fileOf());
+      break;
+    case 'json': {
+      const content = tables.length > 1
+        ? Object.fromEntries(tables.map(table => [table.name, toJSONRows(table)]))
+        : toJSONRows(tables[0]);
+      downloadBlob(new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' }), fileOf());
+      break;
+    }
+    case 'markdown':
+      downloadBlob(new Blob([`${tables.map(toMarkdown).join('\n\n')}\n`], { type: 'text/markdown;charset=utf-8;' }), fileOf());
+      break;
+    case 'pdf':
+      downloadBlob(await toPDF(tables), fileOf());
+      break;
+  }
+};
+
+// Download a single table of rows described by typed columns; the title names the sheet and
+// heads the Markdown and PDF output
+export const exportRows = <T>(title: string, rows: T[], columns: ExportColumn<T>[], filename: string, format: ExportFormat) =>
+  exportTables([toTable(title, columns, rows)], filename, format);
+
+// Save a CSV or JSON export streamed by the server, reporting progress as rows arrive. The server
+// writes a header line and then one row per line, so rows are counted by newlines; chunks are kept
+// as bytes rather than parsed, which keeps large exports light on the tab. Aborting the request's
+// signal cancels the download.
+export const downloadStream = async (
+  response: Response,
+  filename: string,
+  format: 'csv' | 'json',
+  onProgress: (progress: ExportProgress) => void
+) => {
+  if (!response.body) {
+    throw new Error('The export response has no body');
+  }
+
+  const totalHeader = response.headers.get('X-Total-Count');
+  const total = totalHeader === null ? null : Number(totalHeader);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let lines = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    chunks.push(value);
+    value.forEach(byte => {
+      if (byte === 10) lines++;
+    });
+    onProgress({ rows: Math.max(0, lines - 1), total });
+  }
+
+  const type = format === 'csv' ? 'text/csv;charset=utf-8;' : 'application/json';
+  downloadBlob(new Blob(chunks, { type }), toFileName(filename, format));
+};
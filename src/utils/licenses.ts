@@ -0,0 +1,56 @@
+export type LicenseCategory = 'permissive' | 'copyleft' | 'proprietary' | 'freeware' | 'unknown';
+
+export interface SoftwareLicense {
+  id: number;
+  software_title_id: number;
+  name: string;
+  spdx_id: string | null;
+  category: LicenseCategory;
+  open_source: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LicenseClassification = Pick<SoftwareLicense, 'spdx_id' | 'category'>;
+
+export const LICENSE_CATEGORIES: Array<{ value: LicenseCategory; label: string; className: string }> = [
+  { value: 'permissive', label: 'Permissive', className: 'bg-emerald-100 text-emerald-800' },
+  { value: 'copyleft', label: 'Copyleft', className: 'bg-amber-100 text-amber-800' },
+  { value: 'proprietary', label: 'Proprietary', className: 'bg-purple-100 text-purple-800' },
+  { value: 'freeware', label: 'Freeware', className: 'bg-blue-100 text-blue-800' },
+  { value: 'unknown', label: 'Unknown', className: 'bg-gray-100 text-gray-800' },
+];
+
+// Common SPDX identifiers and the category they usually fall into
+export const COMMON_SPDX_LICENSES: Record<string, LicenseCategory> = {
+  'MIT': 'permissive',
+  'Apache-2.0': 'permissive',
+  'BSD-2-Clause': 'permissive',
+  'BSD-3-Clause': 'permissive',
+  'ISC': 'permissive',
+  'Zlib': 'permissive',
+  'BSL-1.0': 'permissive',
+  'Unlicense': 'permissive',
+  'CC0-1.0': 'permissive',
+  'PSF-2.0': 'permissive',
+  'MPL-2.0': 'copyleft',
+  'EPL-2.0': 'copyleft',
+  'LGPL-2.1-only': 'copyleft',
+  'LGPL-2.1-or-later': 'copyleft',
+  'LGPL-3.0-only': 'copyleft',
+  'LGPL-3.0-or-later': 'copyleft',
+  'GPL-2.0-only': 'copyleft',
+  'GPL-2.0-or-later': 'copyleft',
+  'GPL-3.0-only': 'copyleft',
+  'GPL-3.0-or-later': 'copyleft',
+  'AGPL-3.0-only': 'copyleft',
+  'AGPL-3.0-or-later': 'copyleft',
+  'LicenseRef-Proprietary': 'proprietary',
+  'LicenseRef-Freeware': 'freeware',
+};
+
+export const getCategoryInfo = (category: LicenseCategory | undefined) =>
+  LICENSE_CATEGORIES.find(item => item.value === category) || LICENSE_CATEGORIES[LICENSE_CATEGORIES.length - 1];
+
+// Label used for a title's license in tables and exports
+export const formatLicense = (license: LicenseClassification | undefined) => license?.spdx_id || 'Unclassified';
@@ -0,0 +1,50 @@
+export type PolicyStatus = 'approved' | 'banned' | 'needs_review';
+
+export interface SoftwarePolicy {
+  id: number;
+  software_title_id: number | null;
+  name_pattern: string | null;
+  name: string | null;
+  status: PolicyStatus;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const POLICY_STATUSES: Array<{ value: PolicyStatus; label: string; className: string }> = [
+  { value: 'approved', label: 'Approved', className: 'bg-emerald-100 text-emerald-800' },
+  { value: 'needs_review', label: 'Needs Review', className: 'bg-amber-100 text-amber-800' },
+  { value: 'banned', label: 'Banned', className: 'bg-red-100 text-red-800' },
+];
+
+// Higher wins when several name patterns match the same title
+const STATUS_SEVERITY: Record<PolicyStatus, number> = {
+  approved: 0,
+  needs_review: 1,
+  banned: 2,
+};
+
+export const getPolicyStatusInfo = (status: PolicyStatus) =>
+  POLICY_STATUSES.find(item => item.value === status) || POLICY_STATUSES[0];
+
+// Name patterns are case-insensitive globs where * matches any run of characters
+export const matchesNamePattern = (pattern: string, name: string) => {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i').test(name);
+};
+
+// A rule for the exact title wins; otherwise the most restrictive matching pattern applies
+export const resolvePolicy = (softwareTitleId: number, name: string, policies: SoftwarePolicy[]) => {
+  const titleRule = policies.find(policy => policy.software_title_id === softwareTitleId);
+  if (titleRule) {
+    return titleRule;
+  }
+
+  return policies
+    .filter(policy => policy.name_pattern && matchesNamePattern(policy.name_pattern, name))
+    .sort((a, b) => STATUS_SEVERITY[b.status] - STATUS_SEVERITY[a.status])[0];
+};
@@ -0,0 +1,53 @@
+import { Severity } from './vulnerabilities';
+
+export type TicketStatus = 'open' | 'in_progress' | 'accepted_risk' | 'fixed';
+
+export interface RemediationTicket {
+  id: number;
+  cve: string | null;
+  software_version_id: number | null;
+  software_name: string | null;
+  version: string | null;
+  severity: Severity;
+  cvss_score: number | null;
+  assignee: string | null;
+  status: TicketStatus;
+  due_date: string | null;
+  notes: string | null;
+  created_by: string | null;
+  fixed_at: string | null;
+  verified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fields a ticket is opened or edited with
+export interface TicketChanges {
+  assignee: string;
+  status: TicketStatus;
+  due_date: string;
+  notes: string;
+}
+
+export const TICKET_STATUSES: Array<{ value: TicketStatus; label: string; className: string }> = [
+  { value: 'open', label: 'Open', className: 'bg-red-100 text-red-800' },
+  { value: 'in_progress', label: 'In Progress', className: 'bg-amber-100 text-amber-800' },
+  { value: 'accepted_risk', label: 'Accepted Risk', className: 'bg-purple-100 text-purple-800' },
+  { value: 'fixed', label: 'Fixed', className: 'bg-emerald-100 text-emerald-800' },
+];
+
+export const getTicketStatusInfo = (status: TicketStatus) =>
+  TICKET_STATUSES.find(item => item.value === status) || TICKET_STATUSES[0];
+
+// Only work still to do can be overdue
+export const isOverdue = (ticket: RemediationTicket) =>
+  (ticket.status === 'open' || ticket.status === 'in_progress')
+  && !!ticket.due_date
+  && ticket.due_date < new Date().toISOString().slice(0, 10);
+
+// What a ticket covers, for tables and headings
+export const describeTicketTarget = (ticket: RemediationTicket) => {
+  const software = ticket.software_name ? `${ticket.software_name} ${ticket.version || ''}`.trim() : null;
+  if (ticket.cve && software) return `${ticket.cve} in ${software}`;
+  return ticket.cve || software || `Version #${ticket.software_version_id}`;
+};
@@ -0,0 +1,57 @@
+export type ReportType = 'hosts' | 'software' | 'open_source';
+
+export interface ReportSchedule {
+  id: number;
+  name: string;
+  report_type: ReportType;
+  cron: string;
+  // Comma-separated email addresses
+  recipients: string;
+  team_id: number | null;
+  team_annotations: boolean;
+  enabled: boolean;
+  created_by: string | null;
+  last_run_at: string | null;
+  last_status: 'success' | 'failed' | null;
+  last_error: string | null;
+  last_file: string | null;
+  created_at: string;
+  updated_at: string;
+  // null while disabled
+  next_run_at: string | null;
+}
+
+// Fields a schedule is created or edited with
+export interface ScheduleChanges {
+  name: string;
+  report_type: ReportType;
+  cron: string;
+  recipients: string;
+  team_id: number | null;
+  team_annotations: boolean;
+  enabled: boolean;
+}
+
+// Same datasets as the Export buttons on these pages
+export const REPORT_TYPES: Array<{ value: ReportType; label: string }> = [
+  { value: 'hosts', label: 'Hosts' },
+  { value: 'software', label: 'Software' },
+  { value: 'open_source', label: 'Open Source Software' },
+];
+
+// Common cron expressions offered as shortcuts; times are the server's local time
+export const CRON_PRESETS: Array<{ cron: string; label: string }> = [
+  { cron: '0 8 * * *', label: 'Daily at 08:00' },
+  { cron: '0 8 * * 1-5', label: 'Weekdays at 08:00' },
+  { cron: '0 8 * * 1', label: 'Mondays at 08:00' },
+  { cron: '0 8 1 * *', label: 'First of the month at 08:00' },
+];
+
+export const getReportTypeLabel = (type: ReportType) =>
+  REPORT_TYPES.find(item => item.value === type)?.label || type;
+
+// Preset label when the expression is one of the shortcuts, otherwise the expression itself
+export const describeCron = (cron: string) => CRON_PRESETS.find(preset => preset.cron === cron)?.label || cron;
+
+// Last run times come from SQLite as UTC without a zone marker
+export const formatRunTime = (timestamp: string) => new Date(`${timestamp.replace(' ', 'T')}Z`).toLocaleString();
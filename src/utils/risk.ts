@@ -0,0 +1,12 @@
+export type RiskLevel = 'high' | 'medium' | 'low' | 'none';
+
+// A single critical, known exploited CVE scores about 20-40, so one is enough for 'high'
+export const RISK_LEVELS: Array<{ value: RiskLevel; label: string; min: number; className: string }> = [
+  { value: 'high', label: 'High', min: 30, className: 'bg-red-100 text-red-800' },
+  { value: 'medium', label: 'Medium', min: 10, className: 'bg-amber-100 text-amber-800' },
+  { value: 'low', label: 'Low', min: 0.1, className: 'bg-blue-100 text-blue-800' },
+  { value: 'none', label: 'None', min: 0, className: 'bg-gray-100 text-gray-800' },
+];
+
+export const getRiskLevelInfo = (score: number) =>
+  RISK_LEVELS.find(level => score >= level.min) || RISK_LEVELS[RISK_LEVELS.length - 1];
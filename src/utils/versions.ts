@@ -0,0 +1,107 @@
+export interface SoftwareBaseline {
+  software_title_id: number;
+  name: string;
+  baseline_version: string;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Version of a title with the hosts running it, as Fleet lists them on the title
+export interface VersionCount {
+  id: number;
+  version: string;
+  hosts_count: number;
+}
+
+export interface BaselineSummary {
+  latest_version: string | null;
+  hosts_count: number;
+  outdated_hosts_count: number;
+  // null when no host in scope has the title
+  compliance_percent: number | null;
+  outdated_versions: VersionCount[];
+}
+
+// Baseline compliance for a title, from /api/software-baselines/compliance
+export type BaselineCompliance = SoftwareBaseline & BaselineSummary;
+
+// Host running a version older than its title's baseline, from /api/outdated-hosts
+export interface OutdatedHost {
+  id: number;
+  display_name: string;
+  status: string;
+  os_version: string;
+  team_name: string | null;
+  software_title_id: number;
+  software_name: string;
+  software_version_id: number;
+  installed_version: string;
+  baseline_version: string;
+}
+
+// Words that mark a pre-release, ranked in release order; a pre-release sorts before its release
+const PRERELEASE_RANKS = new Map([
+  ['dev', 0], ['snapshot', 0], ['nightly', 0], ['canary', 0],
+  ['alpha', 1], ['a', 1],
+  ['beta', 2], ['b', 2],
+  ['pre', 3], ['preview', 3],
+  ['rc', 4],
+]);
+
+const isPrerelease = (token: string | number | undefined) =>
+  typeof token === 'string' && PRERELEASE_RANKS.has(token);
+
+// Same ordering as the backend: epoch first, then numeric and word tokens, build metadata ignored
+const parseVersion = (version: string) => {
+  let value = version.trim().replace(/^v(?=\d)/i, '');
+  let epoch = 0;
+  const epochMatch = value.match(/^(\d+):(.+)$/);
+  if (epochMatch) {
+    epoch = Number(epochMatch[1]);
+    value = epochMatch[2];
+  }
+  const tokens = (value.split('+')[0].match(/\d+|[a-z]+/gi) || [])
+    .map(token => (/^\d/.test(token) ? Number(token) : token.toLowerCase()));
+  return { epoch, tokens };
+};
+
+// Negative when a is older than b; handles semver, dotted vendor schemes, epochs and pre-releases
+export const compareVersions = (a: string, b: string): number => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (left.epoch !== right.epoch) return Math.sign(left.epoch - right.epoch);
+
+  const length = Math.max(left.tokens.length, right.tokens.length);
+  for (let i = 0; i < length; i++) {
+    // A missing number is zero, so "1" equals "1.0" and "1.0b3" sorts before both
+    const x = left.tokens[i] ?? (typeof right.tokens[i] === 'number' ? 0 : undefined);
+    const y = right.tokens[i] ?? (typeof left.tokens[i] === 'number' ? 0 : undefined);
+    if (x === y) continue;
+
+    if (x === undefined) return isPrerelease(y) ? 1 : -1;
+    if (y === undefined) return isPrerelease(x) ? -1 : 1;
+
+    if (typeof x === 'number' && typeof y === 'number') return Math.sign(x - y);
+    if (typeof x === 'number') return 1;
+    if (typeof y === 'number') return -1;
+
+    if (isPrerelease(x) && isPrerelease(y)) {
+      if (PRERELEASE_RANKS.get(x) === PRERELEASE_RANKS.get(y)) continue;
+      return Math.sign((PRERELEASE_RANKS.get(x) || 0) - (PRERELEASE_RANKS.get(y) || 0));
+    }
+    if (isPrerelease(x) || isPrerelease(y)) return isPrerelease(x) ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+};
+
+export const formatCompliance = (percent: number | null) => (percent === null ? '—' : `${percent}%`);
+
+// Badge colours for a compliance percentage
+export const getComplianceClassName = (percent: number | null) => {
+  if (percent === null) return 'bg-gray-100 text-gray-800';
+  if (percent >= 90) return 'bg-emerald-100 text-emerald-800';
+  if (percent >= 70) return 'bg-amber-100 text-amber-800';
+  return 'bg-red-100 text-red-800';
+};
@@ -0,0 +1,25 @@
+export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'unknown';
+
+// CVSS v3 bands, highest first; must match backend/vulnerabilities.js
+export const SEVERITY_BANDS: Array<{ value: Severity; label: string; min: number; range: string; className: string }> = [
+  { value: 'critical', label: 'Critical', min: 9, range: '9.0–10', className: 'bg-red-100 text-red-800' },
+  { value: 'high', label: 'High', min: 7, range: '7.0–8.9', className: 'bg-orange-100 text-orange-800' },
+  { value: 'medium', label: 'Medium', min: 4, range: '4.0–6.9', className: 'bg-amber-100 text-amber-800' },
+  { value: 'low', label: 'Low', min: 0, range: '0.1–3.9', className: 'bg-blue-100 text-blue-800' },
+  { value: 'unknown', label: 'No score', min: -Infinity, range: 'not scored', className: 'bg-gray-100 text-gray-800' },
+];
+
+export const getSeverity = (score: number | null | undefined): Severity =>
+  score === null || score === undefined
+    ? 'unknown'
+    : SEVERITY_BANDS.find(band => score >= band.min)?.value || 'unknown';
+
+export const getSeverityInfo = (severity: Severity | undefined) =>
+  SEVERITY_BANDS.find(item => item.value === severity) || SEVERITY_BANDS[SEVERITY_BANDS.length - 1];
+
+// CVSS, EPSS and KEV data come from Fleet Premium and are null on Fleet Free
+export const formatCvss = (score: number | null | undefined) =>
+  score === null || score === undefined ? '—' : score.toFixed(1);
+
+export const formatEpss = (probability: number | null | undefined) =>
+  probability === null || probability === undefined ? '—' : `${(probability * 100).toFixed(2)}%`;